@@ -0,0 +1,31 @@
+/**
+ * The error that is used to reject any pending bitmap or HEIC operation when its AbortSignal fires. The name
+ * matches the AbortError raised by fetch so that consumers can detect cancellations consistently.
+ */
+export class NgxAdvancedImgAbortError extends Error {
+  public constructor(message = 'The operation was aborted') {
+    super(message);
+
+    this.name = 'AbortError';
+  }
+
+  /**
+   * Determines whether a caught error represents a cancelled operation.
+   *
+   * @param error The error to inspect.
+   */
+  public static isAbortError(error: unknown): boolean {
+    return error instanceof NgxAdvancedImgAbortError || (error instanceof Error && error.name === 'AbortError');
+  }
+
+  /**
+   * Throws an abort error if the given signal has already fired.
+   *
+   * @param signal The signal to check.
+   */
+  public static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new NgxAdvancedImgAbortError();
+    }
+  }
+}
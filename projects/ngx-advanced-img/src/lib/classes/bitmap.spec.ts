@@ -0,0 +1,533 @@
+import { NgxAdvancedImgAbortError } from './abort-error';
+import {
+  INgxAdvancedImgBitmapProgress,
+  INgxAdvancedImgFormatCandidate,
+  INgxAdvancedImgVariant,
+  INgxAdvancedImgVariantSet,
+  NgxAdvancedImgBitmap,
+} from './bitmap';
+import { INgxAdvancedImgSvgSanitization, NgxAdvancedImgSvgSanitizer } from './svg-sanitizer';
+import { NgxAdvancedImgTransformer } from './transform';
+
+// exposes the private helpers of the bitmap so that they can be spied on
+const statics = NgxAdvancedImgBitmap as unknown as Record<string, (...args: unknown[]) => unknown>;
+
+// a bitmap that is loaded at the given size without decoding any image
+function createLoadedBitmap(width: number, height: number): NgxAdvancedImgBitmap {
+  const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap(new Blob(['image'], { type: 'image/png' }), '', 0);
+
+  bitmap.loaded = true;
+  bitmap.image = { width, height, naturalWidth: width, naturalHeight: height } as HTMLImageElement;
+
+  return bitmap;
+}
+
+// replaces the canvases of optimizations with ones that draw nothing, returning the spy that encodes them
+function stubCanvases(): jasmine.Spy {
+  spyOn(statics, 'createCanvas').and.callFake((width: unknown, height: unknown) => ({ width, height }));
+  spyOn(statics, 'getContext2D').and.callFake((canvas: unknown) =>
+    jasmine.createSpyObj<CanvasRenderingContext2D>('ctx', ['clearRect', 'drawImage'], {
+      canvas: canvas as HTMLCanvasElement,
+    })
+  );
+  spyOn(statics, 'drawSource');
+
+  return spyOn(statics, 'canvasToBlobPromise');
+}
+
+// encoded data of the given size and type
+function encoded(size: number, type = 'image/jpeg'): Blob {
+  return new Blob([new Uint8Array(size)], { type });
+}
+
+describe('NgxAdvancedImgBitmap', () => {
+  describe('remoteURL', () => {
+    it('should replace the resolution suffix and append the revision', () => {
+      expect(new NgxAdvancedImgBitmap('https://cdn/photo_low', '_high', 2).remoteURL).toBe(
+        'https://cdn/photo_high?rev=2'
+      );
+      expect(new NgxAdvancedImgBitmap('https://cdn/photo?v=1', '', 3).remoteURL).toBe('https://cdn/photo?v=1&rev=3');
+      expect(new NgxAdvancedImgBitmap('https://cdn/photo_low', '', 0).remoteURL).toBe('https://cdn/photo_low?rev=0');
+    });
+
+    it('should be empty for data uris and blobs', () => {
+      expect(new NgxAdvancedImgBitmap('data:image/png;base64,AAAA', '', 0).remoteURL).toBe('');
+      expect(new NgxAdvancedImgBitmap(new Blob(['x']), '', 0).remoteURL).toBe('');
+    });
+  });
+
+  describe('fetchRemoteBlob', () => {
+    it('should only send credentials when the download is not anonymous', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').and.callFake(async () => new Response('image'));
+      const signal: AbortSignal = new AbortController().signal;
+
+      await NgxAdvancedImgBitmap.fetchRemoteBlob('https://cdn/a');
+      await NgxAdvancedImgBitmap.fetchRemoteBlob('https://cdn/b', false, signal);
+
+      expect(fetchSpy.calls.argsFor(0)).toEqual([
+        'https://cdn/a',
+        { mode: 'cors', credentials: 'same-origin', signal: undefined },
+      ]);
+      expect(fetchSpy.calls.argsFor(1)).toEqual(['https://cdn/b', { mode: 'cors', credentials: 'include', signal }]);
+    });
+
+    it('should take the file size from the content length and fall back to the size of the data', async () => {
+      spyOn(globalThis, 'fetch').and.returnValues(
+        Promise.resolve(new Response('image', { headers: { 'content-length': '1234' } })),
+        Promise.resolve(new Response('image', { headers: { 'content-length': 'unknown' } }))
+      );
+
+      const sized = await NgxAdvancedImgBitmap.fetchRemoteBlob('https://cdn/a');
+      const unsized = await NgxAdvancedImgBitmap.fetchRemoteBlob('https://cdn/a');
+
+      expect(sized.fileSize).toBe(1234);
+      expect(await sized.blob.text()).toBe('image');
+      expect(unsized.fileSize).toBe(5);
+    });
+
+    it('should reject responses that are not successful', async () => {
+      spyOn(globalThis, 'fetch').and.resolveTo(new Response('', { status: 404, statusText: 'Not Found' }));
+
+      await expectAsync(NgxAdvancedImgBitmap.fetchRemoteBlob('https://cdn/a')).toBeRejectedWithError(
+        'Failed to fetch image data (404 Not Found)'
+      );
+    });
+  });
+
+  describe('load', () => {
+    const svg: Blob = new Blob(['<svg xmlns="http://www.w3.org/2000/svg"/>'], { type: 'image/svg+xml' });
+
+    // sanitizes the svg image untouched after running the given step, so that a load can be interrupted midway
+    function interruptSanitization(step: () => void): void {
+      spyOn(NgxAdvancedImgSvgSanitizer, 'sanitizeSvg').and.callFake(
+        async (blob: Blob): Promise<INgxAdvancedImgSvgSanitization> => {
+          step();
+
+          return { blob, report: { removedElements: [], removedAttributes: [] } };
+        }
+      );
+    }
+
+    it('should reject with an abort error when cancelled before the load starts', async () => {
+      const controller: AbortController = new AbortController();
+
+      controller.abort();
+
+      await expectAsync(
+        new NgxAdvancedImgBitmap(svg, '', 0).load(true, true, false, controller.signal)
+      ).toBeRejectedWithError(NgxAdvancedImgAbortError);
+    });
+
+    it('should reject with an abort error when cancelled during the download', async () => {
+      spyOn(globalThis, 'fetch').and.rejectWith(new DOMException('The user aborted a request.', 'AbortError'));
+
+      await expectAsync(
+        new NgxAdvancedImgBitmap('https://cdn/photo', '', 0).load(true, true, false, new AbortController().signal)
+      ).toBeRejectedWithError(NgxAdvancedImgAbortError);
+    });
+
+    it('should reject with an abort error and release the image when cancelled while loading', async () => {
+      const controller: AbortController = new AbortController();
+      const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap(svg, '', 0);
+
+      interruptSanitization(() => controller.abort());
+
+      await expectAsync(bitmap.load(true, true, false, controller.signal)).toBeRejectedWithError(
+        NgxAdvancedImgAbortError
+      );
+      expect(bitmap.image).toBeUndefined();
+      expect(bitmap.loaded).toBeFalse();
+    });
+
+    it('should fail the load when the bitmap is destroyed while loading', async () => {
+      const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap(svg, '', 0);
+
+      interruptSanitization(() => bitmap.destroy());
+
+      await expectAsync(bitmap.load()).toBeRejectedWith(bitmap);
+      expect(bitmap.loaded).toBeFalse();
+    });
+  });
+
+  describe('optimize', () => {
+    it('should reject rather than encode a blank image when the canvas has no 2d context', async () => {
+      const encode: jasmine.Spy = stubCanvases();
+
+      (statics['getContext2D'] as jasmine.Spy).and.returnValue(null);
+
+      await expectAsync(createLoadedBitmap(100, 100).optimize('image/jpeg', 0.9)).toBeRejectedWithError(
+        'Could not get 2d context'
+      );
+      expect(encode).not.toHaveBeenCalled();
+    });
+
+    it('should report the scale floor as reached when retaining the size', async () => {
+      stubCanvases().and.returnValues(Promise.resolve(encoded(4000)), Promise.resolve(encoded(500)));
+
+      const { report } = await createLoadedBitmap(100, 100).optimize('image/jpeg', 0.9, 1, undefined, {
+        sizeLimit: 1000,
+        mode: 'retain-size',
+      });
+
+      expect(report.resizeFactor).toBe(1);
+      expect(report.quality).toBeLessThan(0.9);
+      expect(report.minScaleReached).toBeTrue();
+      expect(report.minQualityReached).toBeFalse();
+    });
+
+    it('should report the quality floor as reached when retaining the quality', async () => {
+      stubCanvases().and.returnValues(Promise.resolve(encoded(4000)), Promise.resolve(encoded(500)));
+
+      const { report } = await createLoadedBitmap(100, 100).optimize('image/jpeg', 1, 1, undefined, {
+        sizeLimit: 1000,
+        mode: 'retain-quality',
+      });
+
+      expect(report.quality).toBe(1);
+      expect(report.resizeFactor).toBeLessThan(1);
+      expect(report.minQualityReached).toBeTrue();
+      expect(report.minScaleReached).toBeFalse();
+    });
+  });
+
+  describe('_optimizeToFormat', () => {
+    // encodes each type to data of the given size, types without a size fall back to png as canvases do
+    function encodeTypes(sizes: Record<string, number>): jasmine.Spy {
+      return stubCanvases().and.callFake(async (_canvas: unknown, type: unknown) =>
+        sizes[type as string] ? encoded(sizes[type as string], type as string) : encoded(100, 'image/png')
+      );
+    }
+
+    function createFormatBitmap(transparent: boolean): NgxAdvancedImgBitmap {
+      const bitmap: NgxAdvancedImgBitmap = createLoadedBitmap(100, 100);
+
+      spyOn(bitmap as unknown as Record<string, (...args: unknown[]) => unknown>, 'hasTransparency').and.returnValue(
+        transparent
+      );
+
+      return bitmap;
+    }
+
+    beforeEach(() => {
+      spyOn(NgxAdvancedImgBitmap, 'isMimeTypeSupported').and.callFake((type: string) => type !== 'image/avif');
+    });
+
+    it('should pick the smallest output among the supported candidates', async () => {
+      const encode: jasmine.Spy = encodeTypes({ 'image/avif': 100, 'image/webp': 300, 'image/jpeg': 500 });
+      const { blob, report } = await createFormatBitmap(false).optimize(
+        ['image/avif', 'image/jpeg', 'image/webp'],
+        0.8
+      );
+
+      expect(blob.type).toBe('image/webp');
+      expect(report.mimeType).toBe('image/webp');
+      expect(report.candidates).toEqual([
+        { type: 'image/jpeg', size: 500, sizeLimitMet: undefined },
+        { type: 'image/webp', size: 300, sizeLimitMet: undefined },
+      ]);
+      expect(encode.calls.allArgs().map((args: unknown[]) => args[1])).toEqual(['image/jpeg', 'image/webp']);
+    });
+
+    it('should pass over candidates that the canvas silently encodes as png', async () => {
+      encodeTypes({ 'image/jpeg': 500 });
+
+      const { report } = await createFormatBitmap(false).optimize(['image/webp', 'image/jpeg'], 0.8);
+
+      expect(report.mimeType).toBe('image/jpeg');
+      expect(report.candidates?.[0]).toEqual({ type: 'image/webp', size: undefined, sizeLimitMet: undefined });
+    });
+
+    it('should rule out formats without transparency for transparent images', async () => {
+      encodeTypes({ 'image/webp': 300, 'image/jpeg': 200, 'image/png': 800 });
+
+      const { report } = await createFormatBitmap(true).optimize('auto', 0.8);
+
+      expect(report.mimeType).toBe('image/webp');
+      expect(report.candidates?.map((candidate: INgxAdvancedImgFormatCandidate) => candidate.type)).toEqual([
+        'image/webp',
+        'image/png',
+      ]);
+    });
+
+    it('should reject when none of the requested types can be produced', async () => {
+      encodeTypes({});
+
+      await expectAsync(createFormatBitmap(true).optimize(['image/avif', 'image/jpeg'], 0.8)).toBeRejectedWithError(
+        'None of the requested image types can be produced'
+      );
+    });
+  });
+
+  describe('optimizeVariants', () => {
+    let steps: number[][];
+
+    beforeEach(() => {
+      let count = 0;
+
+      steps = [];
+      stubCanvases().and.callFake(async () => encoded(100));
+      spyOn(statics, 'resampleCanvas').and.callFake((canvas: unknown, _ctx: unknown, width: unknown, height: unknown) =>
+        steps.push([(canvas as HTMLCanvasElement).width, width as number, height as number])
+      );
+      spyOn(URL, 'createObjectURL').and.callFake(() => `blob:${++count}`);
+    });
+
+    it('should draw the largest variant once and step every smaller width down from the one before it', async () => {
+      const drawSource = statics['drawSource'] as jasmine.Spy;
+      const set: INgxAdvancedImgVariantSet = await createLoadedBitmap(1000, 500).optimizeVariants(
+        [320, 1280, 640],
+        'image/jpeg',
+        0.8
+      );
+
+      // the widest variant is capped at the width of the image
+      expect(drawSource).toHaveBeenCalledTimes(1);
+      expect(drawSource.calls.mostRecent().args.slice(4, 6)).toEqual([1000, 500]);
+      expect(steps).toEqual([
+        [1000, 640, 320],
+        [640, 320, 160],
+      ]);
+      expect(set.variants.map((variant: INgxAdvancedImgVariant) => [variant.descriptor, variant.report.width])).toEqual(
+        [
+          ['1000w', 1000],
+          ['640w', 640],
+          ['320w', 320],
+        ]
+      );
+      expect(set.srcset).toBe('blob:1 1000w, blob:2 640w, blob:3 320w');
+      expect(set.sizes).toBe('100vw');
+    });
+
+    it('should describe density variants relative to the base width without sizes', async () => {
+      const set: INgxAdvancedImgVariantSet = await createLoadedBitmap(1000, 500).optimizeVariants(
+        [{ density: 1 }, { density: 2 }],
+        'image/jpeg',
+        0.8,
+        { baseWidth: 400, sizes: '50vw' }
+      );
+
+      expect(steps).toEqual([[800, 400, 200]]);
+      expect(set.srcset).toBe('blob:1 2x, blob:2 1x');
+      expect(set.sizes).toBe('');
+    });
+
+    it('should leave out widths that repeat once capped and reject mixed or missing variants', async () => {
+      const bitmap: NgxAdvancedImgBitmap = createLoadedBitmap(1000, 500);
+      const set: INgxAdvancedImgVariantSet = await bitmap.optimizeVariants([2000, 1500, 0], 'image/jpeg', 0.8, {
+        sizes: '(min-width: 600px) 50vw, 100vw',
+      });
+
+      expect(set.srcset).toBe('blob:1 1000w');
+      expect(set.sizes).toBe('(min-width: 600px) 50vw, 100vw');
+      await expectAsync(bitmap.optimizeVariants([640, { density: 2 }], 'image/jpeg', 0.8)).toBeRejectedWithError(
+        'Width and density variants cannot be mixed within a srcset'
+      );
+      await expectAsync(bitmap.optimizeVariants([-1], 'image/jpeg', 0.8)).toBeRejectedWithError(
+        'No valid variants were requested'
+      );
+    });
+  });
+
+  describe('progress', () => {
+    it('should report a draw and an encode for every iteration in order and complete once destroyed', async () => {
+      const bitmap: NgxAdvancedImgBitmap = createLoadedBitmap(100, 100);
+      const events: INgxAdvancedImgBitmapProgress[] = [];
+      let completed = false;
+
+      stubCanvases().and.returnValues(
+        Promise.resolve(encoded(4000)),
+        Promise.resolve(encoded(3000)),
+        Promise.resolve(encoded(500))
+      );
+      bitmap.progress.subscribe({
+        next: (event: INgxAdvancedImgBitmapProgress) => events.push(event),
+        complete: () => (completed = true),
+      });
+
+      await bitmap.optimize('image/jpeg', 0.9, 1, undefined, { sizeLimit: 1000, mode: 'prefer-size' });
+
+      expect(events.map((event: INgxAdvancedImgBitmapProgress) => [event.phase, event.iteration, event.size])).toEqual([
+        ['draw', 1, undefined],
+        ['encode', 1, 4000],
+        ['draw', 2, undefined],
+        ['encode', 2, 3000],
+        ['draw', 3, undefined],
+        ['encode', 3, 500],
+      ]);
+      expect(events.every((event: INgxAdvancedImgBitmapProgress) => event.operation === 'optimize')).toBeTrue();
+      expect(events[0].quality).toBe(0.9);
+      expect(events[2].quality).toBeLessThan(0.9);
+      expect(completed).toBeFalse();
+
+      bitmap.destroy();
+
+      expect(completed).toBeTrue();
+    });
+  });
+
+  describe('saveFile', () => {
+    let link: jasmine.SpyObj<HTMLAnchorElement>;
+
+    beforeEach(() => {
+      link = jasmine.createSpyObj<HTMLAnchorElement>('link', ['setAttribute', 'click']);
+
+      spyOn(document, 'createElement').and.returnValue(link);
+      spyOn(document.body, 'appendChild');
+      spyOn(document.body, 'removeChild');
+      spyOn(URL, 'createObjectURL').and.returnValue('blob:saved');
+      spyOn(URL, 'revokeObjectURL');
+    });
+
+    it('should save the data the image was loaded from when there is no object url', () => {
+      const source: Blob = new Blob(['image'], { type: 'image/png' });
+      const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap('https://cdn/photo', '', 0);
+
+      // a non-anonymous load has no object url, and the url the image was loaded from has been released
+      bitmap.loaded = true;
+      bitmap.image = { src: 'blob:released' } as HTMLImageElement;
+      bitmap['_sourceBlob'] = source;
+      bitmap.saveFile('photo', undefined, 'image/png');
+
+      expect(URL.createObjectURL).toHaveBeenCalledWith(source);
+      expect(link.setAttribute).toHaveBeenCalledWith('href', 'blob:saved');
+      expect(link.download).toBe('photo.png');
+      expect(link.click).toHaveBeenCalled();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:saved');
+    });
+
+    it('should keep the object url of the bitmap alive after saving it', () => {
+      const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap('https://cdn/photo', '', 0);
+
+      bitmap.loaded = true;
+      bitmap.image = { src: 'blob:released' } as HTMLImageElement;
+      bitmap['_objectURL'] = 'blob:bitmap';
+      bitmap.saveFile('photo', undefined, 'image/png');
+
+      expect(link.setAttribute).toHaveBeenCalledWith('href', 'blob:bitmap');
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchLargestFit', () => {
+    // an encoder whose output fits at or below the given value, recording every value it was asked to encode
+    function createEncoder(fitsAtOrBelow: number): { encode: (value: number) => Promise<boolean>; values: number[] } {
+      const values: number[] = [];
+
+      return {
+        values,
+        encode: async (value: number) => {
+          values.push(value);
+
+          return value <= fitsAtOrBelow;
+        },
+      };
+    }
+
+    it('should converge on the largest value that fits within the tolerance', async () => {
+      const encoder = createEncoder(0.62);
+
+      expect(await NgxAdvancedImgBitmap['searchLargestFit'](encoder.encode, 0.1, 0.9, 0.01, () => true)).toBeTrue();
+
+      const fitting: number[] = encoder.values.filter((value: number) => value <= 0.62);
+      const largest: number = Math.max(...fitting);
+
+      expect(encoder.values[0]).toBe(0.1);
+      expect(largest).toBeLessThanOrEqual(0.62);
+      expect(0.62 - largest).toBeLessThan(0.01);
+    });
+
+    it('should stop after the floor when the floor does not fit', async () => {
+      const encoder = createEncoder(0.05);
+
+      expect(await NgxAdvancedImgBitmap['searchLargestFit'](encoder.encode, 0.1, 0.9, 0.01, () => true)).toBeFalse();
+      expect(encoder.values).toEqual([0.1]);
+    });
+
+    it('should not encode when the floor is not below the ceiling or the budget is spent', async () => {
+      const encoder = createEncoder(1);
+
+      expect(await NgxAdvancedImgBitmap['searchLargestFit'](encoder.encode, 0.5, 0.5, 0.01, () => true)).toBeFalse();
+      expect(await NgxAdvancedImgBitmap['searchLargestFit'](encoder.encode, 0.1, 0.9, 0.01, () => false)).toBeFalse();
+      expect(encoder.values).toEqual([]);
+    });
+
+    it('should stop searching once the budget is spent', async () => {
+      const encoder = createEncoder(0.62);
+
+      await NgxAdvancedImgBitmap['searchLargestFit'](encoder.encode, 0.1, 0.9, 0.0001, () => encoder.values.length < 4);
+
+      expect(encoder.values.length).toBe(4);
+    });
+  });
+
+  describe('applyOrientation', () => {
+    // where each exif orientation places a stored pixel within the upright image of the given size
+    const upright: Record<number, (x: number, y: number, width: number, height: number) => number[]> = {
+      1: (x, y) => [x, y],
+      2: (x, y, width) => [width - x, y],
+      3: (x, y, width, height) => [width - x, height - y],
+      4: (x, y, width, height) => [x, height - y],
+      5: (x, y) => [y, x],
+      6: (x, y, width) => [width - y, x],
+      7: (x, y, width, height) => [width - y, height - x],
+      8: (x, y, width, height) => [y, height - x],
+    };
+
+    it('should transform stored pixels of every orientation into their upright position', () => {
+      for (let orientation = 1; orientation <= 8; orientation++) {
+        const ctx = jasmine.createSpyObj<CanvasRenderingContext2D>('ctx', ['transform']);
+
+        NgxAdvancedImgBitmap['applyOrientation'](ctx, orientation, 40, 30);
+
+        // no transform leaves the identity matrix
+        const [a, b, c, d, e, f] = ctx.transform.calls.count()
+          ? ctx.transform.calls.mostRecent().args
+          : [1, 0, 0, 1, 0, 0];
+
+        for (const [x, y] of [
+          [0, 0],
+          [3, 7],
+          [12, 5],
+        ]) {
+          expect([a * x + c * y + e, b * x + d * y + f])
+            .withContext(`orientation ${orientation} at ${x},${y}`)
+            .toEqual(upright[orientation](x, y, 40, 30));
+        }
+      }
+    });
+  });
+
+  describe('drawSource', () => {
+    it('should draw a resized transform at the native resolution before resampling', () => {
+      const ctx = jasmine.createSpyObj<CanvasRenderingContext2D>('ctx', ['scale', 'translate', 'rotate', 'drawImage']);
+      const intermediateCtx = jasmine.createSpyObj<CanvasRenderingContext2D>('intermediateCtx', [
+        'scale',
+        'translate',
+        'rotate',
+        'drawImage',
+      ]);
+      const intermediate = { width: 0, height: 0 } as HTMLCanvasElement;
+      const source = { width: 800, height: 600 } as ImageBitmap;
+      const createCanvas = spyOn(statics, 'createCanvas').and.returnValue(intermediate);
+      const resampleCanvas = spyOn(statics, 'resampleCanvas');
+
+      spyOn(statics, 'getContext2D').and.returnValue(intermediateCtx);
+
+      // the crop is 400 by 300 source pixels, which the transform resizes to 200 by 150 before the output halves it
+      NgxAdvancedImgBitmap['drawSource'](
+        ctx,
+        source,
+        1,
+        NgxAdvancedImgTransformer.getFrame({ crop: { x: 0, y: 0, width: 400, height: 300 }, width: 200 }, 800, 600),
+        100,
+        75,
+        { resampling: 'lanczos3' }
+      );
+
+      expect(createCanvas).toHaveBeenCalledWith(400, 300);
+      expect(intermediateCtx.drawImage.calls.mostRecent().args).toEqual([source, 0, 0, 800, 600]);
+      expect(resampleCanvas).toHaveBeenCalledWith(intermediate, ctx, 100, 75, 'lanczos3', false);
+      expect(ctx.drawImage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,12 +5,35 @@ import { Observable, Subject } from 'rxjs';
 import { NgxAdvancedImgJxon } from './jxon';
 // @ts-ignore
 import libheif from 'libheif-js/wasm-bundle';
+import { NgxAdvancedImgAbortError } from './abort-error';
+import {
+  INgxAdvancedImgRedaction,
+  INgxAdvancedImgRedactionPolicy,
+  INgxAdvancedImgRedactionReport,
+  NgxAdvancedImgExifRedactor,
+} from './exif-redactor';
+import { NgxAdvancedImgExifWriter, NgxAdvancedImgMetadataPolicy } from './exif-writer';
+import { INgxAdvancedImgFilters, NgxAdvancedImgFilter } from './filters';
 import { NgxAdvancedImgHeicConverter } from './heic-converter';
+import { INgxAdvancedImgMimeTypeDetection, NgxAdvancedImgMimeSniffer } from './mime-sniffer';
+import { NgxAdvancedImgResampler, NgxAdvancedImgResampling } from './resampler';
+import { INgxAdvancedImgSvgMinification, NgxAdvancedImgSvgMinifier } from './svg-minifier';
+import {
+  INgxAdvancedImgSvgSanitization,
+  INgxAdvancedImgSvgSanitizationReport,
+  NgxAdvancedImgSvgSanitizer,
+} from './svg-sanitizer';
+import { INgxAdvancedImgSvgSize, INgxAdvancedImgSvgSizeOptions, NgxAdvancedImgSvgSizer } from './svg-sizer';
+import { INgxAdvancedImgTransform, INgxAdvancedImgTransformFrame, NgxAdvancedImgTransformer } from './transform';
+import { INgxAdvancedImgWatermark, NgxAdvancedImgWatermarker } from './watermark';
 
 import Timeout = NodeJS.Timeout;
 
 export type NgxAdvancedImgResolution = string | '';
 
+type NgxAdvancedImgCanvas = HTMLCanvasElement | OffscreenCanvas;
+type NgxAdvancedImgCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
 /**
  * This interface defines the standard data signature that can represent an asset bitmap entry
  * in raw data format.
@@ -26,6 +49,50 @@ export interface INgxAdvancedImgBitmapDataSignature {
 export interface INgxAdvancedImgBitmapOptimization {
   blob: Blob;
   exifData: any;
+  report: INgxAdvancedImgOptimizationReport;
+  redaction?: INgxAdvancedImgRedactionReport | undefined; // the tags that were redacted, if a redaction was requested
+}
+
+/**
+ * This interface describes how an optimized output was produced.
+ */
+export interface INgxAdvancedImgOptimizationReport {
+  quality: number; // the encoding quality of the output
+  resizeFactor: number; // the scaling factor of the output
+  width: number;
+  height: number;
+  requestedType: string; // the mime type that was requested
+  mimeType: string; // the mime type that was actually produced, canvases silently fall back to image/png
+  iterations: number; // the number of encodes that were performed
+  sizes: number[]; // the size in bytes of each encode, in order
+  minDimensionReached: boolean; // whether the output was held at the minDimension floor
+  minQualityReached: boolean; // whether the output was encoded at or below the minQuality floor
+  minScaleReached: boolean; // whether the output was scaled at or below the minScale floor
+  sizeLimit: number | undefined;
+  sizeLimitMet: boolean | undefined; // whether the output fits within the size limit, undefined without a size limit
+  candidates?: INgxAdvancedImgFormatCandidate[] | undefined; // the formats that were compared, if several types were requested
+  precision?: number | undefined; // the decimals coordinates were rounded to, if svg output was minified
+}
+
+/**
+ * This interface describes one of the formats that was compared when optimizing to several types.
+ */
+export interface INgxAdvancedImgFormatCandidate {
+  type: string;
+  size: number | undefined; // the size in bytes of the output, undefined if the type could not be produced
+  sizeLimitMet: boolean | undefined;
+}
+
+/**
+ * This interface describes a single progress notification emitted while a bitmap is loading or optimizing.
+ */
+export interface INgxAdvancedImgBitmapProgress {
+  operation: 'load' | 'optimize';
+  phase: 'read' | 'heic-decode' | 'draw' | 'encode';
+  iteration: number; // the encode iteration of the optimization, 0 while loading
+  quality: number | undefined; // the encoding quality used for this step, if any
+  resizeFactor: number | undefined; // the scaling factor used for this step, if any
+  size: number | undefined; // the size in bytes of the data produced by this step, if any
 }
 
 export interface INgxAdvancedImgBitmapInfo {
@@ -38,14 +105,73 @@ export interface INgxAdvancedImgOptimizationOptions {
   minDimension?: number | undefined; // minimum dimension we will reduce to during optimization
   minScale?: number | undefined; // minimum scale we will reduce to during optimization
   minQuality?: number | undefined; // minimum quality we will reduce to during optimization
-  mode?: 'retain-size' | 'retain-quality' | 'prefer-size' | 'prefer-quality' | 'alternating-preference' | undefined;
+  mode?: 'retain-size' | 'retain-quality' | 'prefer-size' | 'prefer-quality' | 'alternating-preference' | 'target-size' | undefined;
+  maxIterations?: number | undefined; // the maximum number of encodes the 'target-size' mode may perform, 12 by default
   strict?: boolean; // if true, false by default, then the function will throw an error if the size limit cannot be achieved
+  preserveMetadata?: NgxAdvancedImgMetadataPolicy | undefined; // which exif tags to write into jpeg output, 'none' by default
+  redaction?: INgxAdvancedImgRedactionPolicy | undefined; // privacy sensitive exif data to remove from the output and exifData
+  transform?: INgxAdvancedImgTransform | undefined; // the crop, rotation, flip and resize to apply before optimizing
+  resampling?: NgxAdvancedImgResampling | undefined; // the filter used to downscale the image, 'browser' by default
+  linearLight?: boolean | undefined; // if true, false by default, then resampling averages colors in linear light
+  filters?: INgxAdvancedImgFilters | undefined; // the sharpening and tonal adjustments to run after resizing
+  watermark?: INgxAdvancedImgWatermark | undefined; // an image or text to stamp onto the output after resizing
+  precision?: number | undefined; // the decimals coordinates of svg output are rounded to, 3 by default
+}
+
+/**
+ * This interface describes a single responsive variant to produce, either by width or by pixel density.
+ */
+export interface INgxAdvancedImgVariantDefinition {
+  width?: number | undefined; // the width of the variant in pixels, described with a 'w' descriptor
+  density?: number | undefined; // the pixel density of the variant relative to the base width, described with an 'x' descriptor
+  sizeLimit?: number | undefined; // the maximum size of this variant in bytes, overriding the shared size limit
+}
+
+/**
+ * The options shared by all variants. The sizing options of a regular optimization (minDimension, minScale, mode)
+ * do not apply since every variant has a fixed width, only its quality is reduced to meet a size limit.
+ */
+export interface INgxAdvancedImgVariantOptions extends INgxAdvancedImgOptimizationOptions {
+  baseWidth?: number | undefined; // the width of a 1x density variant, the source width divided by the highest density by default
+  sizes?: string | undefined; // the sizes attribute to use along with width descriptors, '100vw' by default
+}
+
+export interface INgxAdvancedImgVariant extends INgxAdvancedImgBitmapOptimization {
+  descriptor: string; // the srcset descriptor of the variant, e.g. '640w' or '2x'
+  objectURL: string;
+}
+
+/**
+ * This interface describes a set of responsive variants, ordered from the largest to the smallest, that are ready
+ * to be used as the srcset and sizes attributes of an image.
+ */
+export interface INgxAdvancedImgVariantSet {
+  variants: INgxAdvancedImgVariant[];
+  srcset: string;
+  sizes: string;
+}
+
+/**
+ * This interface describes a quick preview of an image, taken from a thumbnail embedded in the image if it has one.
+ */
+export interface INgxAdvancedImgPreview {
+  blob: Blob;
+  width: number;
+  height: number;
+  source: 'exif' | 'heic' | 'downscale'; // the exif thumbnail, the heic thumbnail or a downscale of the full image
+  orientation: number; // the exif orientation to display the preview with, 1 when the preview is already upright
 }
 
 export class NgxAdvancedImgBitmap {
   private static ITERATION_FACTOR = 0.025;
+  private static MIN_FACTOR = 0.025; // the quality and scale floor used when no minQuality or minScale is given
   private static QUALITY_FACTOR = 0.5;
   private static PREDICTION_FACTOR = 0.275; // how much we scale back our quality prediction since the mathematical function is not perfect
+  private static MAX_ITERATIONS = 12; // the default encode budget of the 'target-size' mode
+  private static QUALITY_TOLERANCE = 0.01; // the 'target-size' mode stops searching once quality bounds are this close
+  private static AUTO_TYPES: string[] = ['image/avif', 'image/webp', 'image/jpeg', 'image/png']; // the ranking used by the 'auto' type
+  private static OPAQUE_TYPES: string[] = ['image/jpeg', 'image/bmp']; // output types that cannot hold transparency
+  private static TRANSPARENCY_SAMPLE_PIXELS = 1000000; // the number of pixels inspected when looking for transparency
   private static SYSTEM_CANVAS: HTMLCanvasElement | undefined;
 
   public resolution: NgxAdvancedImgResolution;
@@ -55,16 +181,24 @@ export class NgxAdvancedImgBitmap {
   public image: HTMLImageElement | undefined;
   public size: number;
   public debug: boolean; // set to true for console logging
+  public svgSizing: INgxAdvancedImgSvgSizeOptions | undefined; // the fallbacks for svg images without an absolute size
   private _ttl: number; // time to live in seconds after it has been loaded
   private loadedAt: Date | null;
   private expirationClock: Timeout | null;
   private _destroyed: Subject<INgxAdvancedImgBitmapDataSignature> | undefined;
+  private _progress: Subject<INgxAdvancedImgBitmapProgress> | undefined;
   private _objectURL: string;
   private _exifData: any;
   private _mimeType: string;
+  private _mimeTypeDetection: INgxAdvancedImgMimeTypeDetection | undefined;
+  private _svgSanitizationReport: INgxAdvancedImgSvgSanitizationReport | undefined;
+  private _svgMarkup: string | undefined; // the sanitized markup of a loaded svg image
+  private _sourceBlob: Blob | undefined; // the data the image was loaded from, saved when there is no object url
+  private _svgSize: INgxAdvancedImgSvgSize | undefined;
   private _orientation: number;
   private _fileSize: number;
   private _initialFileSize: number;
+  private _imageBitmap: ImageBitmap | undefined;
 
   /**
    * The object URL format of the image that can be used for direct downloading to an end-user's machine.
@@ -87,6 +221,29 @@ export class NgxAdvancedImgBitmap {
     return this._mimeType;
   }
 
+  /**
+   * How the mime type of the loaded image was detected, which tells whether it was sniffed from the file data or
+   * taken from the declared type of the blob.
+   */
+  public get mimeTypeDetection(): INgxAdvancedImgMimeTypeDetection | undefined {
+    return this._mimeTypeDetection;
+  }
+
+  /**
+   * Everything that was removed from the loaded image when it was sanitized, if it is an SVG image.
+   */
+  public get svgSanitizationReport(): INgxAdvancedImgSvgSanitizationReport | undefined {
+    return this._svgSanitizationReport;
+  }
+
+  /**
+   * The intrinsic size of the loaded image, if it is an SVG image. An SVG image is loaded at this size, yet it can be
+   * rasterized to any other size by the transform option of an optimization.
+   */
+  public get svgSize(): INgxAdvancedImgSvgSize | undefined {
+    return this._svgSize;
+  }
+
   /**
    * The size of the file in bytes.
    */
@@ -155,6 +312,18 @@ export class NgxAdvancedImgBitmap {
     return this._destroyed.asObservable();
   }
 
+  /**
+   * An observable property that reports the progress of loading and optimizing this asset bitmap. Each iteration
+   * of a size limited optimization emits a draw and an encode event so that callers may present the current state.
+   */
+  public get progress(): Observable<INgxAdvancedImgBitmapProgress> {
+    if (!this._progress) {
+      this._progress = new Subject<INgxAdvancedImgBitmapProgress>();
+    }
+
+    return this._progress.asObservable();
+  }
+
   /**
    * Get the orientation of the image as defined by the exif data
    */
@@ -181,8 +350,8 @@ export class NgxAdvancedImgBitmap {
    * 8 = Rotate 270 CW
    */
   public get normalizedRotation(): number {
-    if (navigator.userAgent?.indexOf('Firefox') > -1) {
-      // firefox already deals with exif orientation, so don't normalize
+    if (!exif.rotateCanvas) {
+      // the browser already deals with exif orientation (e.g. firefox), so don't normalize
       return 0;
     }
 
@@ -204,6 +373,40 @@ export class NgxAdvancedImgBitmap {
     }
   }
 
+  /**
+   * The url that will be requested when the source is a remote url. Any resolution suffix in the source
+   * is replaced with the configured resolution and the revision is appended as a cache busting parameter.
+   */
+  public get remoteURL(): string {
+    if (typeof this.src !== 'string' || NgxAdvancedImgBitmap.isDataURI(this.src)) {
+      return '';
+    }
+
+    // calculate a unique revision signature to ensure we pull the image with the correct CORS headers
+    let rev = '';
+    if (this.revision >= 0) {
+      if (this.src.indexOf('?') >= 0) {
+        rev = '&rev=' + this.revision;
+      } else {
+        rev = '?rev=' + this.revision;
+      }
+    }
+
+    let url: string;
+
+    // create a properly configured url despite protocol - make sure any resolution data is cleared
+    if (this.resolution === '') {
+      // distinct loads should take the direct source url
+      url = this.src;
+    } else {
+      // clear resolution information if provided for situations where we intend to use some resolution
+      url = this.src.replace(/_(.*)/g, '');
+    }
+
+    // append resolution and revision information for all scenarios if provided
+    return url + this.resolution + rev;
+  }
+
   public constructor(src: string | Blob, resolution: NgxAdvancedImgResolution, revision: number, ttl?: number) {
     this.src = !!src ? src : '';
     this.resolution = resolution !== null && resolution !== undefined ? resolution : '';
@@ -214,6 +417,7 @@ export class NgxAdvancedImgBitmap {
 
     this._ttl = !ttl ? 0 : !isNaN(ttl) && isFinite(ttl) && +ttl >= 0 ? ttl : 0;
     this._destroyed = new Subject<INgxAdvancedImgBitmapDataSignature>();
+    this._progress = new Subject<INgxAdvancedImgBitmapProgress>();
     this._orientation = 1;
     this._mimeType = 'unknown';
     this._objectURL = '';
@@ -246,6 +450,46 @@ export class NgxAdvancedImgBitmap {
     });
   }
 
+  /**
+   * Standard function for determining whether a string source is a data URI rather than a remote url.
+   *
+   * @param src The string source to check.
+   */
+  public static isDataURI(src: string): boolean {
+    return /^\s*data:/i.test(src);
+  }
+
+  /**
+   * Standard function for downloading remote image data into a Blob.
+   *
+   * @param url The fully qualified url to download.
+   * @param anonymous Whether or not to download anonymously or with the user's credentials.
+   * @param signal An optional signal that cancels the download.
+   */
+  public static async fetchRemoteBlob(
+    url: string,
+    anonymous = true,
+    signal?: AbortSignal
+  ): Promise<{ blob: Blob; fileSize: number }> {
+    const response: Response = await fetch(url, {
+      mode: 'cors',
+      credentials: anonymous ? 'same-origin' : 'include',
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image data (${response.status} ${response.statusText})`);
+    }
+
+    const blob: Blob = await response.blob();
+    const contentLength: number = +(response.headers.get('content-length') ?? '');
+
+    return {
+      blob,
+      fileSize: contentLength > 0 && isFinite(contentLength) ? contentLength : blob.size,
+    };
+  }
+
   /**
    * Standard function for converting data URI strings into Blob objects.
    */
@@ -279,78 +523,122 @@ export class NgxAdvancedImgBitmap {
    * @param blobDataType The blob data type to use as a fallback if the mimeType cannot be detected.
    */
   public static detectMimeType(buffer: Uint8Array, blobDataType: string): string {
-    let header = '';
+    return NgxAdvancedImgMimeSniffer.sniff(buffer, blobDataType).mimeType;
+  }
 
-    // gather the hex data for the file header data
-    for (const signature of buffer.subarray(0, 4)) {
-      header += signature.toString(16);
-    }
+  /**
+   * Determines whether images can be loaded and optimized without DOM APIs, as is required within Web Workers.
+   */
+  public static isOffscreenSupported(): boolean {
+    return typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * Helper function to see if webp output is supported.
+   *
+   * @param mimeType The mimeType to check for support.
+   */
+  public static isMimeTypeSupported(mimeType: string): boolean {
+    this.SYSTEM_CANVAS = this.SYSTEM_CANVAS || document.createElement('canvas');
 
-    // The identifying header for HEICS is offset by 4
-    let middle = '';
-    for (const signature of buffer.subarray(4, 12)) {
-      middle += signature.toString(16);
+    if (!!(this.SYSTEM_CANVAS.getContext && this.SYSTEM_CANVAS.getContext('2d'))) {
+      return this.SYSTEM_CANVAS.toDataURL(mimeType).indexOf(`data:${mimeType}`) === 0;
     }
 
-    if (middle === '6674797068656963') {
-      header = middle;
+    return false;
+  }
+
+  /**
+   * Releases the object urls of a set of responsive variants once they are no longer displayed.
+   *
+   * @param variantSet The variants to release.
+   */
+  public static revokeVariants(variantSet: INgxAdvancedImgVariantSet): void {
+    for (const variant of variantSet?.variants || []) {
+      URL.revokeObjectURL(variant.objectURL);
     }
+  }
+
+  /**
+   * Extracts a small preview of an image without decoding it in full whenever possible. The JPEG thumbnail of the
+   * exif data is returned as is, then the thumbnail of a HEIC image is decoded, and only if neither exists is the
+   * image itself decoded and downscaled.
+   *
+   * @param blob The image data to preview.
+   * @param maxDimension The maximum width or height of a decoded preview, 256 by default. Exif thumbnails are not resized.
+   * @param signal An optional signal that cancels the extraction and rejects with an NgxAdvancedImgAbortError.
+   */
+  public static async extractPreview(blob: Blob, maxDimension = 256, signal?: AbortSignal): Promise<INgxAdvancedImgPreview> {
+    NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+    const buffer: Uint8Array = new Uint8Array(await blob.arrayBuffer());
+    const mimeType: string = NgxAdvancedImgBitmap.detectMimeType(buffer, blob.type);
+
+    NgxAdvancedImgAbortError.throwIfAborted(signal);
 
-    // WEBP files require bytes 9-12 to differentiate
-    // between other RIFFs like .wav or .avi
-    if (header === '52494646') {
-      for (const signature of buffer.subarray(8, 12)) {
-        header += signature.toString(16);
+    // exifr only reads the exif segment, which is where JPEG and some HEIC encoders store an IFD1 thumbnail
+    const thumbnail: Uint8Array | undefined = await exif.thumbnail(buffer).catch((): undefined => undefined);
+
+    NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+    if (thumbnail?.byteLength) {
+      const size: { width: number; height: number } | null = NgxAdvancedImgBitmap.getJpegSize(thumbnail);
+
+      if (size) {
+        return {
+          blob: new Blob([thumbnail], { type: 'image/jpeg' }),
+          ...size,
+          source: 'exif',
+          orientation: (await exif.orientation(buffer).catch((): undefined => undefined)) || 1,
+        };
       }
     }
 
-    // convert the header to an appropriate mime type
-    switch (header) {
-      case '89504e47':
-        return 'image/png';
+    if (NgxAdvancedImgMimeSniffer.isHeif(mimeType)) {
+      let imageData: ImageData | null = null;
 
-      case '47494638':
-        return 'image/gif';
+      try {
+        imageData = NgxAdvancedImgHeicConverter.decodeThumbnail(buffer);
+      } catch {
+        // a thumbnail that cannot be decoded is no worse than a missing one
+      }
 
-      case '424d0000':
-        return 'image/bmp';
+      if (imageData) {
+        return { ...(await NgxAdvancedImgBitmap.renderPreview(imageData, maxDimension)), source: 'heic', orientation: 1 };
+      }
 
-      case '5249464657454250':
-        return 'image/webp';
+      imageData = await NgxAdvancedImgHeicConverter.decodeHeic(buffer);
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
 
-      case 'ffd8ffe0':
-      case 'ffd8ffe1':
-      case 'ffd8ffe2':
-      case 'ffd8ffe3':
-      case 'ffd8ffe8':
-        return 'image/jpeg';
+      return { ...(await NgxAdvancedImgBitmap.renderPreview(imageData, maxDimension)), source: 'downscale', orientation: 1 };
+    }
 
-      case '6674797068656963':
-        return 'image/heic';
+    // without OffscreenCanvas and createImageBitmap the image is decoded by an image element instead
+    if (!NgxAdvancedImgBitmap.isOffscreenSupported()) {
+      const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap(blob, '', 0, 0);
 
-      case '75ab5a6a':
-      case '25504446':
-      case '45e71e8a':
-        return 'application/pdf';
+      try {
+        await bitmap.load(true, true, false, signal);
 
-      default:
-        return blobDataType;
+        if (!bitmap.image) {
+          throw new Error('Image not loaded');
+        }
+
+        return { ...(await NgxAdvancedImgBitmap.renderPreview(bitmap.image, maxDimension)), source: 'downscale', orientation: 1 };
+      } finally {
+        bitmap.destroy();
+      }
     }
-  }
 
-  /**
-   * Helper function to see if webp output is supported.
-   *
-   * @param mimeType The mimeType to check for support.
-   */
-  public static isMimeTypeSupported(mimeType: string): boolean {
-    this.SYSTEM_CANVAS = this.SYSTEM_CANVAS || document.createElement('canvas');
+    const imageBitmap: ImageBitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
 
-    if (!!(this.SYSTEM_CANVAS.getContext && this.SYSTEM_CANVAS.getContext('2d'))) {
-      return this.SYSTEM_CANVAS.toDataURL(mimeType).indexOf(`data:${mimeType}`) === 0;
-    }
+    try {
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
 
-    return false;
+      return { ...(await NgxAdvancedImgBitmap.renderPreview(imageBitmap, maxDimension)), source: 'downscale', orientation: 1 };
+    } finally {
+      imageBitmap.close();
+    }
   }
 
     /**
@@ -382,10 +670,135 @@ export class NgxAdvancedImgBitmap {
       });
     }
 
+  /**
+   * Reads the dimensions of JPEG data from its start of frame segment.
+   *
+   * @param buffer The JPEG data.
+   */
+  private static getJpegSize(buffer: Uint8Array): { width: number; height: number } | null {
+    if (buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+      return null;
+    }
+
+    let offset = 2;
+
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return null;
+      }
+
+      const marker: number = buffer[offset + 1];
+
+      // every start of frame marker except DHT (c4), JPG (c8) and DAC (cc) holds the dimensions
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return {
+          width: (buffer[offset + 7] << 8) | buffer[offset + 8],
+          height: (buffer[offset + 5] << 8) | buffer[offset + 6],
+        };
+      }
+
+      offset += 2 + ((buffer[offset + 2] << 8) | buffer[offset + 3]);
+    }
+
+    return null;
+  }
+
+  /**
+   * Draws an image into a JPEG preview that fits within the given dimension.
+   *
+   * @param source The image to draw.
+   * @param maxDimension The maximum width or height of the preview.
+   */
+  private static async renderPreview(
+    source: ImageBitmap | ImageData | HTMLImageElement,
+    maxDimension: number
+  ): Promise<{ blob: Blob; width: number; height: number }> {
+    const sourceWidth: number = 'naturalWidth' in source ? source.naturalWidth : source.width;
+    const sourceHeight: number = 'naturalHeight' in source ? source.naturalHeight : source.height;
+    const scale: number = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight)) : 1;
+    const width: number = Math.max(1, Math.round(sourceWidth * scale));
+    const height: number = Math.max(1, Math.round(sourceHeight * scale));
+    let full: NgxAdvancedImgCanvas | null = null;
+    let canvas: NgxAdvancedImgCanvas | null = null;
+
+    try {
+      let drawable: ImageBitmap | HTMLImageElement | NgxAdvancedImgCanvas;
+
+      if ('data' in source) {
+        full = NgxAdvancedImgBitmap.createCanvas(source.width, source.height);
+        NgxAdvancedImgBitmap.getContext2D(full)?.putImageData(source, 0, 0);
+        drawable = full;
+      } else {
+        drawable = source;
+      }
+
+      canvas = NgxAdvancedImgBitmap.createCanvas(width, height);
+
+      const ctx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(canvas);
+
+      if (!ctx) {
+        throw new Error('An error occurred while drawing to the canvas');
+      }
+
+      ctx.drawImage(drawable, 0, 0, width, height);
+
+      const blob: Blob | null = await NgxAdvancedImgBitmap.canvasToBlobPromise(canvas, 'image/jpeg', 0.8);
+
+      if (!blob) {
+        throw new Error('An error occurred while drawing to the canvas');
+      }
+
+      return { blob, width, height };
+    } finally {
+      if (full) {
+        full.width = full.height = 0;
+      }
+
+      if (canvas) {
+        canvas.width = canvas.height = 0;
+      }
+    }
+  }
+
+  /**
+   * Creates a canvas to draw to, using an OffscreenCanvas when there is no document available (e.g. in a Web Worker).
+   *
+   * @param width The width of the canvas.
+   * @param height The height of the canvas.
+   */
+  private static createCanvas(width: number, height: number): NgxAdvancedImgCanvas {
+    if (typeof document === 'undefined') {
+      return new OffscreenCanvas(width, height);
+    }
+
+    const canvas: HTMLCanvasElement = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    return canvas;
+  }
+
+  /**
+   * Acquires the 2d rendering context of either kind of canvas.
+   *
+   * @param canvas The canvas to acquire the context for.
+   */
+  private static getContext2D(canvas: NgxAdvancedImgCanvas): NgxAdvancedImgCanvasContext | null {
+    if ('convertToBlob' in canvas) {
+      return canvas.getContext('2d', { desynchronized: false, willReadFrequently: true });
+    }
+
+    return canvas.getContext('2d', { desynchronized: false, willReadFrequently: true });
+  }
+
   /*
    * Helper function to get the image data from a canvas
    */
-  private static canvasToBlobPromise(canvas: HTMLCanvasElement, mimeType = 'image/png', quality = 1.0): Promise<Blob | null> {
+  private static canvasToBlobPromise(canvas: NgxAdvancedImgCanvas, mimeType = 'image/png', quality = 1.0): Promise<Blob | null> {
+    if ('convertToBlob' in canvas) {
+      return canvas.convertToBlob({ type: mimeType, quality });
+    }
+
     return new Promise((resolve, reject) => {
       canvas.toBlob((blob) => {
         if (blob) {
@@ -398,70 +811,328 @@ export class NgxAdvancedImgBitmap {
   }
 
   /**
-   * Destroys the current asset bitmap object and frees all memory in use.
+   * Transforms a rendering context so that drawing an image with the given exif orientation produces upright pixels.
+   *
+   * @param ctx The context that will be drawn to.
+   * @param orientation The exif orientation of the image that will be drawn.
+   * @param width The width of the upright output.
+   * @param height The height of the upright output.
    */
-  public destroy(): void {
-    // announce the disposal of this
-    this._destroyed?.next({
-      src: this.src,
-      revision: this.revision,
-      resolution: this.resolution,
-      loaded: this.loaded,
-      size: this.size,
-    });
+  private static applyOrientation(
+    ctx: NgxAdvancedImgCanvasContext,
+    orientation: number,
+    width: number,
+    height: number
+  ): void {
+    switch (orientation) {
+      case 2:
+        ctx.transform(-1, 0, 0, 1, width, 0);
+        break;
 
-    this.ttl = 0;
-    this.loaded = false;
-    this.loadedAt = null;
-    if (this.image) {
-      this.image.onload = null;
-      this.image.onerror = null;
-    }
-    this.image = undefined;
-    this.size = 0;
-    this._destroyed?.unsubscribe();
-    this._destroyed = undefined;
+      case 3:
+        ctx.transform(-1, 0, 0, -1, width, height);
+        break;
 
-    const domURL: any = URL || webkitURL || window.URL;
+      case 4:
+        ctx.transform(1, 0, 0, -1, 0, height);
+        break;
 
-    // clear any existing object urls as necessary
-    if (this._objectURL) {
-      try {
-        domURL?.revokeObjectURL(this._objectURL);
-      } catch (error) {}
+      case 5:
+        ctx.transform(0, 1, 1, 0, 0, 0);
+        break;
+
+      case 6:
+        ctx.transform(0, 1, -1, 0, width, 0);
+        break;
+
+      case 7:
+        ctx.transform(0, -1, -1, 0, width, height);
+        break;
+
+      case 8:
+        ctx.transform(0, -1, 1, 0, 0, height);
+        break;
+
+      default:
+        break;
     }
   }
 
   /**
-   * Attempts to load the image. When successful, it will mark the class as loaded and resolve the returned promise.
+   * Draws a source image to the whole of a context, oriented upright and transformed. Downscaling with any
+   * resampling other than the browser's draws the transformed image at the native resolution of the source first,
+   * even when the transform resizes it, so that the resampling filter sees every pixel of it.
    *
-   * @param anonymous Whether or not to load anonymously or not.
-   * @param allowXMLLoading Drives whether XML serialization of image/svg+xml objects can be performed. By default, this feature is on, but some browsers do not support it.
-   * @param fullQualityLoad = If set to true, the image will be loaded with full encoding quality for any canvas output.
+   * @param ctx The context to draw to, which must not be transformed yet.
+   * @param source The image to draw.
+   * @param orientation The exif orientation of the source that is yet to be applied.
+   * @param frame The resolved transform of the upright image.
+   * @param width The width of the output.
+   * @param height The height of the output.
+   * @param options The optimization options holding the resampling to use.
    */
-  public async load(anonymous = true, allowXMLLoading = true, fullQualityLoad = false): Promise<NgxAdvancedImgBitmap> {
-    // if no valid source, then reject the load
-    if (!this.src) {
-      return Promise.reject(new Error('No valid source provided'));
-    }
+  private static drawSource(
+    ctx: NgxAdvancedImgCanvasContext,
+    source: HTMLImageElement | ImageBitmap,
+    orientation: number,
+    frame: INgxAdvancedImgTransformFrame,
+    width: number,
+    height: number,
+    options: INgxAdvancedImgOptimizationOptions | undefined
+  ): void {
+    const resampling: NgxAdvancedImgResampling = options?.resampling || 'browser';
+    const uprightWidth: number = orientation >= 5 ? source.height : source.width;
+    const uprightHeight: number = orientation >= 5 ? source.width : source.height;
+
+    // the frame may already be resized, so undo its scale to place the source one to one
+    const nativeWidth: number = Math.max(1, Math.round(frame.width / Math.min(1, frame.scaleX)));
+    const nativeHeight: number = Math.max(1, Math.round(frame.height / Math.min(1, frame.scaleY)));
+
+    if (resampling === 'browser' || (width >= nativeWidth && height >= nativeHeight)) {
+      NgxAdvancedImgTransformer.apply(ctx, frame, width, height);
+      NgxAdvancedImgBitmap.applyOrientation(ctx, orientation, uprightWidth, uprightHeight);
+      ctx.drawImage(source, 0, 0, orientation >= 5 ? uprightHeight : uprightWidth, orientation >= 5 ? uprightWidth : uprightHeight);
 
-    let blobData: Blob;
-    if (typeof this.src === 'string') {
-      this.src = NgxAdvancedImgBitmap.dataURItoBlob(this.src);
+      return;
     }
 
-    blobData = this.src;
+    const full: NgxAdvancedImgCanvas = NgxAdvancedImgBitmap.createCanvas(nativeWidth, nativeHeight);
 
-    // if we have an expiration clock ticking, clear it
-    if (this.expirationClock) {
-      clearTimeout(this.expirationClock);
-    }
+    try {
+      const fullCtx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(full);
 
-    return new Promise((resolve, reject) => {
-      let url: string;
+      if (!fullCtx) {
+        throw new Error('An error occurred while drawing to the canvas');
+      }
 
-      this.image = new Image();
-      this.image.loading = 'eager';
+      NgxAdvancedImgBitmap.drawSource(fullCtx, source, orientation, frame, nativeWidth, nativeHeight, undefined);
+      NgxAdvancedImgBitmap.resampleCanvas(full, ctx, width, height, resampling, !!options?.linearLight);
+    } finally {
+      full.width = full.height = 0;
+    }
+  }
+
+  /**
+   * Draws a canvas to the whole of a context at a smaller size using the given resampling.
+   *
+   * @param canvas The canvas to downscale.
+   * @param ctx The context to draw to, which must not be transformed.
+   * @param width The width of the output.
+   * @param height The height of the output.
+   * @param resampling The resampling to downscale with.
+   * @param linearLight If true, then colors are averaged in linear light rather than sRGB.
+   */
+  private static resampleCanvas(
+    canvas: NgxAdvancedImgCanvas,
+    ctx: NgxAdvancedImgCanvasContext,
+    width: number,
+    height: number,
+    resampling: NgxAdvancedImgResampling,
+    linearLight: boolean
+  ): void {
+    if (resampling === 'browser' || (width >= canvas.width && height >= canvas.height)) {
+      ctx.drawImage(canvas, 0, 0, width, height);
+
+      return;
+    }
+
+    const canvasCtx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(canvas);
+
+    if (!canvasCtx) {
+      throw new Error('An error occurred while drawing to the canvas');
+    }
+
+    if (resampling === 'lanczos3' || resampling === 'bicubic') {
+      const imageData: ImageData = canvasCtx.getImageData(0, 0, canvas.width, canvas.height);
+
+      ctx.putImageData(NgxAdvancedImgResampler.resample(imageData, width, height, resampling, linearLight), 0, 0);
+
+      return;
+    }
+
+    // stepped resampling halves the image until it is within a factor of two of the output, then lets the
+    // browser draw the remainder, which it can do without skipping pixels
+    let current: NgxAdvancedImgCanvas = canvas;
+
+    try {
+      if (linearLight) {
+        let imageData: ImageData = canvasCtx.getImageData(0, 0, canvas.width, canvas.height);
+
+        while (imageData.width / 2 >= width && imageData.height / 2 >= height) {
+          imageData = NgxAdvancedImgResampler.halve(imageData, true);
+        }
+
+        current = NgxAdvancedImgBitmap.createCanvas(imageData.width, imageData.height);
+        NgxAdvancedImgBitmap.getContext2D(current)?.putImageData(imageData, 0, 0);
+      } else {
+        while (current.width / 2 >= width && current.height / 2 >= height) {
+          const next: NgxAdvancedImgCanvas = NgxAdvancedImgBitmap.createCanvas(Math.floor(current.width / 2), Math.floor(current.height / 2));
+
+          NgxAdvancedImgBitmap.getContext2D(next)?.drawImage(current, 0, 0, next.width, next.height);
+
+          if (current !== canvas) {
+            current.width = current.height = 0;
+          }
+
+          current = next;
+        }
+      }
+
+      ctx.drawImage(current, 0, 0, width, height);
+    } finally {
+      if (current !== canvas) {
+        current.width = current.height = 0;
+      }
+    }
+  }
+
+  /**
+   * Runs pixel filters on everything drawn to a context, if any of the filters would change it.
+   *
+   * @param ctx The context holding the drawn image.
+   * @param width The width of the drawn image.
+   * @param height The height of the drawn image.
+   * @param filters The filters to run.
+   */
+  private static applyFilters(
+    ctx: NgxAdvancedImgCanvasContext,
+    width: number,
+    height: number,
+    filters: INgxAdvancedImgFilters | undefined
+  ): void {
+    if (!filters || !NgxAdvancedImgFilter.isActive(filters)) {
+      return;
+    }
+
+    ctx.putImageData(NgxAdvancedImgFilter.apply(ctx.getImageData(0, 0, width, height), filters), 0, 0);
+  }
+
+  /**
+   * Stamps a watermark onto everything drawn to a context. Watermarks from another bitmap use its loaded image.
+   *
+   * @param ctx The context holding the drawn image.
+   * @param width The width of the drawn image.
+   * @param height The height of the drawn image.
+   * @param watermark The watermark to stamp.
+   */
+  private static applyWatermark(
+    ctx: NgxAdvancedImgCanvasContext,
+    width: number,
+    height: number,
+    watermark: INgxAdvancedImgWatermark | undefined
+  ): void {
+    if (!watermark) {
+      return;
+    }
+
+    const image: HTMLImageElement | ImageBitmap | HTMLCanvasElement | OffscreenCanvas | undefined =
+      watermark.image instanceof NgxAdvancedImgBitmap ? watermark.image.image || watermark.image._imageBitmap : watermark.image;
+
+    if (watermark.image && !image) {
+      throw new Error('The watermark image is not loaded');
+    }
+
+    NgxAdvancedImgWatermarker.draw(ctx, width, height, watermark, image);
+  }
+
+  /**
+   * Destroys the current asset bitmap object and frees all memory in use.
+   */
+  public destroy(): void {
+    // announce the disposal of this
+    this._destroyed?.next({
+      src: this.src,
+      revision: this.revision,
+      resolution: this.resolution,
+      loaded: this.loaded,
+      size: this.size,
+    });
+
+    this.ttl = 0;
+    this.loaded = false;
+    this.loadedAt = null;
+    if (this.image) {
+      this.image.onload = null;
+      this.image.onerror = null;
+    }
+    this.image = undefined;
+    this._imageBitmap?.close();
+    this._imageBitmap = undefined;
+    this._svgMarkup = undefined;
+    this._sourceBlob = undefined;
+    this.size = 0;
+    this._destroyed?.unsubscribe();
+    this._destroyed = undefined;
+    this._progress?.complete();
+    this._progress = undefined;
+
+    const domURL: any = URL || webkitURL || window.URL;
+
+    // clear any existing object urls as necessary
+    if (this._objectURL) {
+      try {
+        domURL?.revokeObjectURL(this._objectURL);
+      } catch (error) {}
+    }
+  }
+
+  /**
+   * Attempts to load the image. When successful, it will mark the class as loaded and resolve the returned promise.
+   *
+   * Remote url sources are downloaded first, honoring the resolution and revision configuration, and are then
+   * processed exactly as Blob sources are.
+   *
+   * @param anonymous Whether or not to load anonymously or not. Remote downloads only include credentials when false.
+   * @param allowXMLLoading Drives whether XML serialization of image/svg+xml objects can be performed. By default, this feature is on, but some browsers do not support it.
+   * @param fullQualityLoad = If set to true, the image will be loaded with full encoding quality for any canvas output.
+   * @param signal An optional signal that cancels the load and rejects with an NgxAdvancedImgAbortError when fired.
+   */
+  public async load(
+    anonymous = true,
+    allowXMLLoading = true,
+    fullQualityLoad = false,
+    signal?: AbortSignal
+  ): Promise<NgxAdvancedImgBitmap> {
+    // if no valid source, then reject the load
+    if (!this.src) {
+      return Promise.reject(new Error('No valid source provided'));
+    }
+
+    // if the load was cancelled before it started, there is nothing to clean up
+    if (signal?.aborted) {
+      return Promise.reject(new NgxAdvancedImgAbortError());
+    }
+
+    let blobData: Blob;
+    let initialFileSize: number;
+
+    try {
+      ({ blob: blobData, fileSize: initialFileSize } = await this.acquireSourceBlob(anonymous, signal));
+    } catch (error) {
+      if (NgxAdvancedImgAbortError.isAbortError(error)) {
+        return Promise.reject(new NgxAdvancedImgAbortError());
+      }
+
+      console.error('image load error', error);
+      this.loaded = false;
+      this.size = 0;
+
+      return Promise.reject(this);
+    }
+
+    // if we have an expiration clock ticking, clear it
+    if (this.expirationClock) {
+      clearTimeout(this.expirationClock);
+    }
+
+    let onabort: (() => void) | undefined;
+    let sourceURL = '';
+
+    return new Promise<NgxAdvancedImgBitmap>((resolve, reject) => {
+      let client: XMLHttpRequest | undefined;
+
+      this.image = new Image();
+      this.image.loading = 'eager';
 
       if (anonymous) {
         this.image.crossOrigin = 'anonymous';
@@ -472,8 +1143,8 @@ export class NgxAdvancedImgBitmap {
         reject(this);
       }
 
-      // store the blob's file size
-      this._initialFileSize = blobData.size;
+      // store the original file size before any conversion takes place
+      this._initialFileSize = initialFileSize;
 
       // if we have an expiration clock ticking, clear it
       if (this.expirationClock) {
@@ -487,6 +1158,37 @@ export class NgxAdvancedImgBitmap {
 
       const fileReader: FileReader = new FileReader();
 
+      // cancellation handler that stops all pending work and releases what has been allocated
+      onabort = () => {
+        fileReader.onload = fileReader.onerror = null;
+        fileReader.abort();
+        client?.abort();
+
+        if (this.image) {
+          this.image.onload = null;
+          this.image.onerror = null;
+          this.image = undefined;
+        }
+
+        if (sourceURL) {
+          URL.revokeObjectURL(sourceURL);
+          sourceURL = '';
+        }
+
+        this.loaded = false;
+        this.size = 0;
+
+        // ensure that no expiration clock is running if we were cancelled
+        if (this.expirationClock) {
+          clearTimeout(this.expirationClock);
+          this.expirationClock = null;
+        }
+
+        reject(new NgxAdvancedImgAbortError());
+      };
+
+      signal?.addEventListener('abort', onabort, { once: true });
+
       // when the file reader successfully loads array buffers, process them
       fileReader.onload = async (event: Event) => {
         // if image has been destroyed error out
@@ -496,21 +1198,77 @@ export class NgxAdvancedImgBitmap {
         }
 
         const buffer: Uint8Array = new Uint8Array((event.target as any).result);
-        this._mimeType = NgxAdvancedImgBitmap.detectMimeType(buffer, blobData.type);
+        this._mimeTypeDetection = NgxAdvancedImgMimeSniffer.sniff(buffer, blobData.type);
+        this._mimeType = this._mimeTypeDetection.mimeType;
+        this._svgMarkup = this._svgSanitizationReport = this._svgSize = undefined;
+
+        this.emitProgress('load', 'read', 0, undefined, undefined, buffer.byteLength);
 
         // convert heic to jpeg if needed
-        if (this._mimeType === 'image/heic') {
+        if (NgxAdvancedImgMimeSniffer.isHeif(this._mimeType)) {
           console.log("Converting HEIC to JPEG without web worker");
           try {
             const imageData = await NgxAdvancedImgHeicConverter.decodeHeic(buffer);
           
             // preserve quality settings used in heic2any
-            this.src = await NgxAdvancedImgBitmap.imageDataToBlob(imageData, 'image/jpeg', .92) as Blob;
-            
-            this._mimeType = this.src.type;
+            blobData = await NgxAdvancedImgBitmap.imageDataToBlob(imageData, 'image/jpeg', .92) as Blob;
+
+            // remote sources keep their url so the bitmap identity is retained
+            if (typeof this.src !== 'string') {
+              this.src = blobData;
+            }
+
+            this._mimeType = blobData.type;
+
+            this.emitProgress('load', 'heic-decode', 0, .92, undefined, blobData.size);
           } catch (e) {
             console.error("Unable to convert HEIC to JPEG within bitmap.ts", e);
           }
+
+          // the abort handler has already cleaned up and rejected if we were cancelled during the conversion
+          if (signal?.aborted) {
+            return;
+          }
+
+          // fail the load if the image has been destroyed during the conversion
+          if (!this.image) {
+            onerror();
+
+            return;
+          }
+        }
+
+        // svg images may carry scripts and external references, so only a sanitized copy of them is ever loaded
+        if (this._mimeType === 'image/svg+xml') {
+          try {
+            const sanitization: INgxAdvancedImgSvgSanitization = await NgxAdvancedImgSvgSanitizer.sanitizeSvg(blobData);
+
+            blobData = sanitization.blob;
+            this._svgSanitizationReport = sanitization.report;
+            this._svgMarkup = await blobData.text();
+
+            // remote sources keep their url so the bitmap identity is retained
+            if (typeof this.src !== 'string') {
+              this.src = blobData;
+            }
+          } catch (e) {
+            console.error('Unable to sanitize SVG within bitmap.ts', e);
+            onerror();
+
+            return;
+          }
+
+          // the abort handler has already cleaned up and rejected if we were cancelled during the sanitization
+          if (signal?.aborted) {
+            return;
+          }
+
+          // fail the load if the image has been destroyed during the sanitization
+          if (!this.image) {
+            onerror();
+
+            return;
+          }
         }
 
         // wait for image load
@@ -555,16 +1313,11 @@ export class NgxAdvancedImgBitmap {
 
             ctx.drawImage(this.image, 0, 0);
 
+            this.emitProgress('load', 'draw', 0, undefined, undefined, undefined);
+
             // if we haven't loaded anonymously, we'll taint the canvas and crash the application
             let dataUri: string = (anonymous) ? canvas.toDataURL(this._mimeType, fullQualityLoad ? 1 : undefined) : '';
 
-            if (typeof this.src === 'string') {
-              // store the exif data
-              exif.parse(blobData, true).then((exifData: any) => {
-                this._exifData = exifData || {};
-              });
-            }
-
             // if we got the bitmap data, create the link to download and invoke it
             if (dataUri) {
               // clear any existing object urls as necessary
@@ -605,48 +1358,29 @@ export class NgxAdvancedImgBitmap {
             // if we loaded a non-svg, then we are done loading
             resolve(this);
           } else {
-            const client: XMLHttpRequest = new XMLHttpRequest();
+            client = new XMLHttpRequest();
             client.open('GET', this.image.src);
             client.onreadystatechange = () => {
               // if the document ready state is finished and ready
-              if (client.readyState === 4) {
+              if (client?.readyState === 4 && !signal?.aborted) {
                 let svg: any = (new NgxAdvancedImgJxon()).stringToXml(client.responseText).getElementsByTagName('svg')[0];
 
-                // 'viewBox' is now a string, parse the string for the viewBox values - can be separated by whitespace and/or a comma
-                const viewBox: string[] = svg.getAttribute('viewBox').split(/[ ,]/);
-
-                // make sure the viewBox is set
-                if (viewBox.length !== 4) {
+                if (!svg) {
                   onerror();
 
                   return;
                 }
 
-                // get the width and height from the viewBox
-                const svgWidth: number = +viewBox[2];
-                const svgHeight: number = +viewBox[3];
-
-                // viewBox width and height is considered to be a required attribute, so check its existence and validity
-                if (
-                  !svgWidth ||
-                  !svgHeight ||
-                  isNaN(svgWidth) ||
-                  isNaN(svgHeight) ||
-                  !isFinite(svgWidth) ||
-                  !isFinite(svgHeight)
-                ) {
-                  onerror();
+                // resolve the intrinsic size from the width, height and viewBox, falling back for relative and missing sizes
+                this._svgSize = NgxAdvancedImgSvgSizer.resolve(svg, this.svgSizing);
 
-                  return;
-                }
+                const svgWidth: number = this._svgSize.width;
+                const svgHeight: number = this._svgSize.height;
 
-                // set the width and height from the view box definition
+                // write out the resolved size, the preserveAspectRatio of the image fits its viewBox within it
                 svg.setAttribute('width', svgWidth);
                 svg.setAttribute('height', svgHeight);
 
-                // never preserve aspect ratio so the entire image fills the element boundaries
-                svg.setAttribute('preserveAspectRatio', 'none');
-
                 const svgXML: string = (new NgxAdvancedImgJxon()).xmlToString(svg);
                 svg = new Blob([svgXML], { type: this.mimeType + ';charset=utf-8' });
 
@@ -697,42 +1431,14 @@ export class NgxAdvancedImgBitmap {
         // image load failure handler
         this.image.onerror = onerror;
 
-        // calculate a unique revision signature to ensure we pull the image with the correct CORS headers
-        let rev = '';
-        if (this.revision >= 0 && (typeof this.src === 'string' && this.src.indexOf('base64') === -1)) {
-          if (this.src.indexOf('?') >= 0) {
-            rev = '&rev=' + this.revision;
-          } else {
-            rev = '?rev=' + this.revision;
-          }
-        }
-
-        // create a properly configured url despite protocol - make sure any resolution data is cleared
-        if (typeof this.src === 'string') {
-          if (this.resolution === '') {
-            // distinct loads should take the direct source url
-            url = this.src;
-          } else {
-            // clear resolution information if provided for situations where we intend to use some resolution
-            url = this.src.replace(/_(.*)/g, '');
-          }
-
-          // append resolution and revision information for all scenarios if provided
-          url += this.resolution + rev;
-
-          // load the image
-          this.image.src = url
-        } else {
-          this.image.src = URL.createObjectURL(this.src);
-
-          // store the original blob file size
-          this._initialFileSize = this.src.size;
+        // remote sources have already been downloaded, so all sources load from their blob data
+        this._sourceBlob = blobData;
+        this.image.src = sourceURL = URL.createObjectURL(blobData);
 
-          // parse the exif data direction while the image content loads
-          exif.parse(this.src, true).then((exifData: any) => {
-            this._exifData = exifData || {};
-          });
-        }
+        // parse the exif data direction while the image content loads
+        exif.parse(blobData, true).then((exifData: any) => {
+          this._exifData = exifData || {};
+        });
       };
 
       // if we fail to load the file header data, throw an error to be captured by the promise catch
@@ -756,16 +1462,118 @@ export class NgxAdvancedImgBitmap {
 
         reject(this);
       };
+    }).finally(() => {
+      if (onabort) {
+        signal?.removeEventListener('abort', onabort);
+      }
+
+      // the image has been drawn or its source replaced by the object url by now, so the source data can be released
+      if (sourceURL) {
+        URL.revokeObjectURL(sourceURL);
+        sourceURL = '';
+      }
     });
   }
 
+  /**
+   * Attempts to load the image into an ImageBitmap without relying on any DOM APIs, so that it may be loaded and
+   * optimized within a Web Worker. SVG images require a document to be rasterized and are not supported.
+   *
+   * @param signal An optional signal that cancels the load and rejects with an NgxAdvancedImgAbortError when fired.
+   */
+  public async loadOffscreen(signal?: AbortSignal): Promise<NgxAdvancedImgBitmap> {
+    // if no valid source, then reject the load
+    if (!this.src) {
+      return Promise.reject(new Error('No valid source provided'));
+    }
+
+    if (!NgxAdvancedImgBitmap.isOffscreenSupported()) {
+      return Promise.reject(new Error('OffscreenCanvas is not supported in this environment'));
+    }
+
+    try {
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+      const source: { blob: Blob; fileSize: number } = await this.acquireSourceBlob(true, signal);
+      const initialFileSize: number = source.fileSize;
+      let blobData: Blob = source.blob;
+      const buffer: Uint8Array = new Uint8Array(await blobData.arrayBuffer());
+
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+      this._mimeTypeDetection = NgxAdvancedImgMimeSniffer.sniff(buffer, blobData.type);
+      this._mimeType = this._mimeTypeDetection.mimeType;
+      this.emitProgress('load', 'read', 0, undefined, undefined, buffer.byteLength);
+
+      if (this._mimeType === 'image/svg+xml') {
+        throw new Error('SVG images cannot be loaded without a document');
+      }
+
+      // convert heic to jpeg if needed
+      if (NgxAdvancedImgMimeSniffer.isHeif(this._mimeType)) {
+        const imageData: ImageData = await NgxAdvancedImgHeicConverter.decodeHeic(buffer);
+
+        NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+        // preserve quality settings used in heic2any
+        blobData = await NgxAdvancedImgHeicConverter.imageDataToBlobOffscreen(imageData, 'image/jpeg', .92);
+
+        // remote sources keep their url so the bitmap identity is retained
+        if (typeof this.src !== 'string') {
+          this.src = blobData;
+        }
+
+        this._mimeType = blobData.type;
+        this.emitProgress('load', 'heic-decode', 0, .92, undefined, blobData.size);
+      }
+
+      // decode upright pixels so that no orientation has to be applied when drawing
+      const imageBitmap: ImageBitmap = await createImageBitmap(blobData, { imageOrientation: 'from-image' });
+
+      if (signal?.aborted) {
+        imageBitmap.close();
+        throw new NgxAdvancedImgAbortError();
+      }
+
+      this._imageBitmap?.close();
+      this._imageBitmap = imageBitmap;
+      this._exifData = (await exif.parse(blobData, true).catch(() => undefined)) || {};
+      this._initialFileSize = initialFileSize;
+      this._fileSize = blobData.size;
+      this.size = imageBitmap.width * imageBitmap.height;
+      this.loaded = true;
+
+      // track the time at which this asset was first asked to load
+      this.loadedAt = new Date();
+
+      await this.adjustForExifOrientation(blobData);
+
+      // start the clock for when to destroy ourselves if we are not 0, infinitely
+      if (this.expirationClock) {
+        clearTimeout(this.expirationClock);
+      }
+
+      if (this.ttl > 0) {
+        this.expirationClock = setTimeout(this.onExpired.bind(this), this.ttl * 1000);
+      }
+
+      return this;
+    } catch (error) {
+      this.loaded = false;
+      this.size = 0;
+
+      return Promise.reject(error);
+    }
+  }
+
   /**
    * Invokes a save of this image to the user's disk assuming that it has already finished loading and the image
    * is in tact. It relies on the load procedures correctly setting the object url for the load that we can use
    * to invoke the download.
    *
    * @param fileName The name of the file to save.
-   * @param objectURL The object URL to use for the download, if not provided, the original image url will be used.
+   * @param blob The data to download, if not provided, the object url or the data the image was loaded from will be used.
+   * @param mimeType The type used for the file extension, the type of the loaded image by default.
    */
   public saveFile(fileName: string, blob?: Blob, mimeType?: string): void {
     if (!this.loaded || !this.image) {
@@ -784,7 +1592,7 @@ export class NgxAdvancedImgBitmap {
     }
 
     const extension: string | null = mime.getExtension(mimeType);
-    let url: string = this.image.src;
+    let url: string;
 
     // If a Blob is provided, create an object URL for it
     if (blob) {
@@ -792,6 +1600,11 @@ export class NgxAdvancedImgBitmap {
     } else if (this.objectURL) {
       // Otherwise, use the existing object URL if one is present
       url = this.objectURL;
+    } else if (this._sourceBlob) {
+      // the url the image was loaded from is released after loading, so save the data it was loaded from
+      url = domURL.createObjectURL(this._sourceBlob);
+    } else {
+      return;
     }
 
     // create a link and set it into the DOM for programmatic use
@@ -805,8 +1618,10 @@ export class NgxAdvancedImgBitmap {
     // invoke the link click to start the download
     link.click();
 
-    // clean up the download operation
-    domURL.revokeObjectURL(url);
+    // clean up the download operation, the object url of the bitmap remains in use
+    if (url !== this.objectURL) {
+      domURL.revokeObjectURL(url);
+    }
     document.body.removeChild(link);
   }
 
@@ -814,25 +1629,41 @@ export class NgxAdvancedImgBitmap {
    * If the image is loaded, this function will optimize the image to the
    * desired quality and type and return a data url of bitmap information.
    *
-   * @param type The type of file output we would like to generate.
+   * @param type The type of file output we would like to generate, 'auto' or a ranked list of types to pick the smallest from.
    * @param quality The quality of the image optimization.
    * @param resizeFactor The scaling factor to reduce the size of the image.
    * @param maxDimension If provided, the maximum pixels allowed for x/y dimension in the size of the image. Invokes a resize.
    * @param options The optimization options to use when we want to optimize the image to a specified byte size.
+   * @param signal An optional signal that stops the optimization between iterations and rejects with an NgxAdvancedImgAbortError.
    */
   public async optimize(
-    type: string,
+    type: string | string[],
     quality: number,
     resizeFactor: number = 1,
     maxDimension?: number | undefined, // the image will be resized to fit within this max dimension before any further optimization
-    options?: INgxAdvancedImgOptimizationOptions
+    options?: INgxAdvancedImgOptimizationOptions,
+    signal?: AbortSignal
   ): Promise<INgxAdvancedImgBitmapOptimization> {
+    if (type === 'auto' || Array.isArray(type)) {
+      return this._optimizeToFormat(type === 'auto' ? NgxAdvancedImgBitmap.AUTO_TYPES : type, quality, resizeFactor, maxDimension, options, signal);
+    }
+
+    // svg images stay vector data when svg output is requested, which is minified rather than drawn to a canvas
+    if (type === 'image/svg+xml' && this._svgMarkup !== undefined) {
+      return this._optimizeSvg(type, options, signal);
+    }
+
+    if (options?.mode === 'target-size' && typeof options?.sizeLimit === 'number' && isFinite(options?.sizeLimit) && options?.sizeLimit > 0) {
+      return this._optimizeToSize(type, quality, resizeFactor, maxDimension, options, signal);
+    }
+
     return this._optimize(
       type,
       quality,
       resizeFactor,
       maxDimension,
       options,
+      signal,
       undefined,
     ).catch((error: any) => {
       return Promise.reject(error);
@@ -852,7 +1683,11 @@ export class NgxAdvancedImgBitmap {
    * @param resizeFactor The scaling factor to reduce the size of the image.
    * @param maxDimension If provided, the maximum pixels allowed for x/y dimension in the size of the image. Invokes a resize.
    * @param options The optimization options to use when we want to optimize the image to a specified byte size.
+   * @param signal An optional signal that stops the optimization between iterations.
    * @param lastOp The last operation that was performed in the optimization process.
+   * @param lastSize The file size produced by the previous iteration of the optimization process.
+   * @param iteration The encode iteration that is being performed, starting at 1.
+   * @param sizes The size in bytes of each previous encode of the optimization process.
    */
   private async _optimize(
     type: string,
@@ -860,13 +1695,21 @@ export class NgxAdvancedImgBitmap {
     resizeFactor: number = 1,
     maxDimension?: number | undefined,
     options?: INgxAdvancedImgOptimizationOptions,
+    signal?: AbortSignal,
     lastOp?: 'quality' | 'scale' | undefined,
-    lastSize?: number
+    lastSize?: number,
+    iteration = 1,
+    sizes: number[] = []
   ): Promise<INgxAdvancedImgBitmapOptimization> {
     return new Promise(async (resolve: (value: INgxAdvancedImgBitmapOptimization) => void, reject) => {
       try {
+        // stop between iterations if the optimization was cancelled
+        NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+        const source: HTMLImageElement | ImageBitmap | undefined = this.image || this._imageBitmap;
+
         if (
-          !this.image ||
+          !source ||
           !this.loaded
         ) {
           throw new Error('Image not loaded');
@@ -876,11 +1719,22 @@ export class NgxAdvancedImgBitmap {
           throw new Error('The requested image optimization cannot be achieved');
         }
   
+        // orientations 5 through 8 rotate the image by 90 degrees, which swaps its dimensions
+        const orientation: number = this.getPendingOrientation(source);
+        const uprightWidth: number = orientation >= 5 ? source.height : source.width;
+        const uprightHeight: number = orientation >= 5 ? source.width : source.height;
+
+        // any transform decides the dimensions that resizing and optimization start from
+        const frame: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(options?.transform, uprightWidth, uprightHeight, NgxAdvancedImgBitmap.OPAQUE_TYPES.includes(type));
+        const sourceWidth: number = frame.width;
+        const sourceHeight: number = frame.height;
+
         // draw the image to the canvas
-        let canvas: HTMLCanvasElement | null = document.createElement('canvas');
-        let width: number = canvas.width = this.image.width * resizeFactor;
-        let height: number = canvas.height = this.image.height * resizeFactor;
+        let canvas: NgxAdvancedImgCanvas | null = NgxAdvancedImgBitmap.createCanvas(sourceWidth, sourceHeight);
+        let width: number = canvas.width = sourceWidth * resizeFactor;
+        let height: number = canvas.height = sourceHeight * resizeFactor;
         let minThresholdReached = false;
+        let minDimensionReached = false;
   
         // cap the size of the canvas in accordance with te minDimension constraints for optimization
         if (
@@ -903,6 +1757,7 @@ export class NgxAdvancedImgBitmap {
           }
   
           minThresholdReached = true;
+          minDimensionReached = true;
         }
   
         if (
@@ -935,29 +1790,35 @@ export class NgxAdvancedImgBitmap {
           if (canvas.width > maxDimension) {
             height = canvas.height = canvas.height * (maxDimension / canvas.width);
             width = canvas.width = maxDimension;
-            resizeFactor = maxDimension / this.image.width;
+            resizeFactor = maxDimension / sourceWidth;
           }
   
           if (canvas.height > maxDimension) {
             width = canvas.width = canvas.width * (maxDimension / canvas.height);
             height = canvas.height = maxDimension;
-            resizeFactor = maxDimension / this.image.height;
+            resizeFactor = maxDimension / sourceHeight;
           }
         }
   
-        const ctx: CanvasRenderingContext2D | null = canvas?.getContext('2d', { desynchronized: false, willReadFrequently: true });
-  
-        ctx?.drawImage(
-          this.image,
-          0,
-          0,
-          canvas.width,
-          canvas.height,
-        );
-  
-        // if we haven't loaded anonymously, we'll taint the canvas and crash the application
-        let blob = await NgxAdvancedImgBitmap.canvasToBlobPromise(canvas, type, quality);
-  
+        const ctx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(canvas);
+
+        // encoding a canvas that could not be drawn to would silently produce a blank image
+        if (!ctx) {
+          canvas.width = canvas.height = 0;
+
+          throw new Error('Could not get 2d context');
+        }
+
+        // crop, rotate, flip and resize within the same draw that corrects the orientation
+        NgxAdvancedImgBitmap.drawSource(ctx, source, orientation, frame, canvas.width, canvas.height, options);
+        NgxAdvancedImgBitmap.applyFilters(ctx, canvas.width, canvas.height, options?.filters);
+        NgxAdvancedImgBitmap.applyWatermark(ctx, canvas.width, canvas.height, options?.watermark);
+
+        this.emitProgress('optimize', 'draw', iteration, quality, resizeFactor, undefined);
+  
+        // if we haven't loaded anonymously, we'll taint the canvas and crash the application
+        let blob = await NgxAdvancedImgBitmap.canvasToBlobPromise(canvas, type, quality);
+  
         // clean up the canvas
         if (canvas) {
           ctx?.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
@@ -965,9 +1826,23 @@ export class NgxAdvancedImgBitmap {
           canvas = null;
         }
   
+        // the canvas has been released, so we can stop here if we were cancelled while encoding
+        NgxAdvancedImgAbortError.throwIfAborted(signal);
+
         if (!blob) {
           throw new Error('An error occurred while drawing to the canvas');
         }
+
+        // write the metadata before measuring the output so that it counts towards any size limit
+        if (options?.preserveMetadata && options.preserveMetadata !== 'none') {
+          blob = await NgxAdvancedImgExifWriter.embed(blob, this.getOptimizedMetadata(Math.floor(width), Math.floor(height), options).exifData, options.preserveMetadata);
+        }
+
+        this.emitProgress('optimize', 'encode', iteration, quality, resizeFactor, blob.size);
+
+        sizes.push(blob.size);
+
+        const report: INgxAdvancedImgOptimizationReport = this.createReport(type, blob, quality, resizeFactor, width, height, options, sizes, minDimensionReached);
   
         if (typeof options?.sizeLimit === 'number' && !isNaN(options?.sizeLimit) && isFinite(options?.sizeLimit) && options?.sizeLimit > 0) {
           const fileSize: number = Math.round(blob.size);
@@ -1052,15 +1927,7 @@ export class NgxAdvancedImgBitmap {
               case 'prefer-quality':
                 // base case if we are at our bottom quality and resize factor, resolve
                 if (!options?.strict && (quality <= qualityFloor && resizeFactor <= scaleFloor) || minThresholdReached) {
-                  const exifData: any = JSON.parse(JSON.stringify(this.exifData));
-  
-                  exifData['ExifImageWidth'] = width;
-                  exifData['ExifImageHeight'] = height;
-  
-                  resolve({
-                    blob,
-                    exifData,
-                  } as INgxAdvancedImgBitmapOptimization);
+                  resolve(this.createOptimization(blob, report, options));
   
                   return;
                 }
@@ -1087,7 +1954,7 @@ export class NgxAdvancedImgBitmap {
                   }
   
                   // if the quality is too high, reduce it and try again
-                  this._optimize(type, quality, resizeFactor, maxDimension, options, lastOp, fileSize).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization));
+                  this._optimize(type, quality, resizeFactor, maxDimension, options, signal, lastOp, fileSize, iteration + 1, sizes).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization), reject);
   
                   return;
                 }
@@ -1104,18 +1971,15 @@ export class NgxAdvancedImgBitmap {
   
                 quality = quality - (((options?.sizeLimit ? (fileSize / options?.sizeLimit) * NgxAdvancedImgBitmap.PREDICTION_FACTOR : NgxAdvancedImgBitmap.QUALITY_FACTOR) / (options?.sizeLimit / fileSize) * NgxAdvancedImgBitmap.ITERATION_FACTOR));
   
-                this._optimize(type, quality, resizeFactor, maxDimension, options, lastOp, fileSize).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization));
+                this._optimize(type, quality, resizeFactor, maxDimension, options, signal, lastOp, fileSize, iteration + 1, sizes).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization), reject);
   
                 return;
   
               case 'prefer-size':
                 // base case if we are at our bottom quality and resize factor, resolve
                 if (!options?.strict && (quality <= qualityFloor && resizeFactor <= scaleFloor) || minThresholdReached) {
-                  const exifData: any = JSON.parse(JSON.stringify(this.exifData));
-  
-                  exifData['ExifImageWidth'] = width;
-                  exifData['ExifImageHeight'] = height;
-  
+                  resolve(this.createOptimization(blob, report, options));
+
                   return;
                 }
   
@@ -1128,7 +1992,7 @@ export class NgxAdvancedImgBitmap {
                   }
   
                   // if the quality is too high, reduce it and try again
-                  this._optimize(type, quality, resizeFactor, maxDimension, options, lastOp, fileSize).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization));
+                  this._optimize(type, quality, resizeFactor, maxDimension, options, signal, lastOp, fileSize, iteration + 1, sizes).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization), reject);
   
                   return;
                 }
@@ -1158,22 +2022,14 @@ export class NgxAdvancedImgBitmap {
                   resizeFactor = scaleFloor;
                 }
   
-                this._optimize(type, quality, resizeFactor, maxDimension, options, lastOp).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization));
+                this._optimize(type, quality, resizeFactor, maxDimension, options, signal, lastOp, undefined, iteration + 1, sizes).then((optimization: INgxAdvancedImgBitmapOptimization) => resolve(optimization), reject);
   
                 return;
             }
           }
         }
   
-        const exifData: any = JSON.parse(JSON.stringify(this.exifData));
-  
-        exifData['ExifImageWidth'] = width;
-        exifData['ExifImageHeight'] = height;
-  
-        resolve({
-          blob,
-          exifData,
-        } as INgxAdvancedImgBitmapOptimization);
+        resolve(this.createOptimization(blob, report, options));
       } catch (error) {
         reject(error);
       }
@@ -1181,6 +2037,752 @@ export class NgxAdvancedImgBitmap {
     });
   }
 
+  /**
+   * Produces a set of responsive variants of the loaded image in a single pass. The image is drawn once at the
+   * largest variant and every smaller variant is downscaled from the one before it, rather than from the full
+   * resolution image. Variants are never upscaled beyond the size of the image.
+   *
+   * @param variants The widths, or variant definitions, to produce. Width and density variants cannot be mixed.
+   * @param type The type of file output we would like to generate.
+   * @param quality The highest quality to encode each variant with.
+   * @param options The options shared by all variants, whose sizeLimit applies to each variant without its own.
+   * @param signal An optional signal that stops the process between encodes and rejects with an NgxAdvancedImgAbortError.
+   */
+  public async optimizeVariants(
+    variants: (number | INgxAdvancedImgVariantDefinition)[],
+    type: string,
+    quality: number,
+    options?: INgxAdvancedImgVariantOptions,
+    signal?: AbortSignal
+  ): Promise<INgxAdvancedImgVariantSet> {
+    NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+    const source: HTMLImageElement | ImageBitmap | undefined = this.image || this._imageBitmap;
+
+    if (!source || !this.loaded) {
+      throw new Error('Image not loaded');
+    }
+
+    const definitions: INgxAdvancedImgVariantDefinition[] = (variants || []).map((variant: number | INgxAdvancedImgVariantDefinition) =>
+      typeof variant === 'number' ? { width: variant } : variant
+    );
+    const usesDensity: boolean = definitions.some((definition: INgxAdvancedImgVariantDefinition) => typeof definition.density === 'number');
+
+    if (usesDensity && definitions.some((definition: INgxAdvancedImgVariantDefinition) => typeof definition.density !== 'number')) {
+      throw new Error('Width and density variants cannot be mixed within a srcset');
+    }
+
+    // orientations 5 through 8 rotate the image by 90 degrees, which swaps its dimensions
+    const orientation: number = this.getPendingOrientation(source);
+    const uprightWidth: number = orientation >= 5 ? source.height : source.width;
+    const uprightHeight: number = orientation >= 5 ? source.width : source.height;
+    const frame: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(options?.transform, uprightWidth, uprightHeight, NgxAdvancedImgBitmap.OPAQUE_TYPES.includes(type));
+    const sourceWidth: number = frame.width;
+    const sourceHeight: number = frame.height;
+    const baseWidth: number = typeof options?.baseWidth === 'number' && isFinite(options.baseWidth) && options.baseWidth > 0 ?
+      options.baseWidth : sourceWidth / Math.max(1, ...definitions.map((definition: INgxAdvancedImgVariantDefinition) => definition.density || 1));
+    const targets: { width: number; descriptor: string; sizeLimit: number | undefined }[] = [];
+
+    for (const definition of definitions) {
+      const requested: number = usesDensity ? baseWidth * (definition.density as number) : (definition.width as number);
+
+      if (typeof requested !== 'number' || !isFinite(requested) || requested <= 0) {
+        continue;
+      }
+
+      const width: number = Math.max(1, Math.round(Math.min(sourceWidth, requested)));
+      const descriptor: string = usesDensity ? `${definition.density}x` : `${width}w`;
+
+      // widths that are capped to the size of the image would otherwise repeat a descriptor
+      if (!targets.some((target: { descriptor: string }) => target.descriptor === descriptor)) {
+        targets.push({ width, descriptor, sizeLimit: definition.sizeLimit ?? options?.sizeLimit });
+      }
+    }
+
+    if (!targets.length) {
+      throw new Error('No valid variants were requested');
+    }
+
+    targets.sort((a: { width: number }, b: { width: number }) => b.width - a.width);
+
+    const results: INgxAdvancedImgVariant[] = [];
+    let previous: NgxAdvancedImgCanvas | null = null;
+    let iteration = 0;
+
+    try {
+      for (const target of targets) {
+        NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+        const width: number = target.width;
+        const height: number = Math.max(1, Math.round(width * (sourceHeight / sourceWidth)));
+        const canvas: NgxAdvancedImgCanvas = NgxAdvancedImgBitmap.createCanvas(width, height);
+        const ctx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(canvas);
+
+        if (!ctx) {
+          throw new Error('An error occurred while drawing to the canvas');
+        }
+
+        if (previous) {
+          // step down from the previous variant, which is far cheaper than redrawing the full resolution image
+          NgxAdvancedImgBitmap.resampleCanvas(previous, ctx, width, height, options?.resampling || 'browser', !!options?.linearLight);
+          previous.width = previous.height = 0;
+        } else {
+          NgxAdvancedImgBitmap.drawSource(ctx, source, orientation, frame, width, height, options);
+        }
+
+        previous = canvas;
+
+        this.emitProgress('optimize', 'draw', iteration + 1, quality, width / sourceWidth, undefined);
+
+        // filter and watermark a copy, since smaller variants step down from the untouched canvas
+        let filtered: NgxAdvancedImgCanvas = canvas;
+
+        if (NgxAdvancedImgFilter.isActive(options?.filters) || options?.watermark) {
+          filtered = NgxAdvancedImgBitmap.createCanvas(width, height);
+
+          const filteredCtx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(filtered);
+
+          filteredCtx?.drawImage(canvas, 0, 0);
+
+          if (filteredCtx) {
+            NgxAdvancedImgBitmap.applyFilters(filteredCtx, width, height, options?.filters);
+            NgxAdvancedImgBitmap.applyWatermark(filteredCtx, width, height, options?.watermark);
+          }
+        }
+
+        let optimization: INgxAdvancedImgBitmapOptimization;
+
+        try {
+          optimization = await this.encodeVariant(
+            filtered,
+            type,
+            quality,
+            width / sourceWidth,
+            target.sizeLimit,
+            options,
+            signal,
+            iteration
+          );
+        } finally {
+          if (filtered !== canvas) {
+            filtered.width = filtered.height = 0;
+          }
+        }
+
+        iteration += optimization.report.iterations;
+
+        results.push({
+          ...optimization,
+          descriptor: target.descriptor,
+          objectURL: URL.createObjectURL(optimization.blob),
+        });
+      }
+    } catch (error) {
+      results.forEach((variant: INgxAdvancedImgVariant) => URL.revokeObjectURL(variant.objectURL));
+
+      throw error;
+    } finally {
+      if (previous) {
+        previous.width = previous.height = 0;
+      }
+    }
+
+    return {
+      variants: results,
+      srcset: results.map((variant: INgxAdvancedImgVariant) => `${variant.objectURL} ${variant.descriptor}`).join(', '),
+      sizes: usesDensity ? '' : options?.sizes || '100vw',
+    };
+  }
+
+  /**
+   * Encodes a drawn variant, binary searching its quality if it does not fit within its size limit. The largest
+   * encode that fits is returned, or the smallest encode if none fit and the optimization is not strict.
+   *
+   * @param canvas The canvas holding the variant.
+   * @param type The type of file output we would like to generate.
+   * @param quality The highest quality to search from.
+   * @param resizeFactor The scale of the variant relative to the image.
+   * @param sizeLimit The maximum size of the variant in bytes, if any.
+   * @param options The options shared by all variants.
+   * @param signal An optional signal that stops the search between encodes.
+   * @param iteration The number of encodes performed for previous variants.
+   */
+  private async encodeVariant(
+    canvas: NgxAdvancedImgCanvas,
+    type: string,
+    quality: number,
+    resizeFactor: number,
+    sizeLimit: number | undefined,
+    options: INgxAdvancedImgVariantOptions | undefined,
+    signal: AbortSignal | undefined,
+    iteration: number
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    const limit: number | undefined = typeof sizeLimit === 'number' && isFinite(sizeLimit) && sizeLimit > 0 ? sizeLimit : undefined;
+    const maxIterations: number = typeof options?.maxIterations === 'number' && isFinite(options.maxIterations) && options.maxIterations >= 1 ?
+      Math.floor(options.maxIterations) : NgxAdvancedImgBitmap.MAX_ITERATIONS;
+    const qualityFloor: number = Math.min(quality, NgxAdvancedImgBitmap.getFloor(options?.minQuality));
+    const reportOptions: INgxAdvancedImgOptimizationOptions = { ...options, sizeLimit: limit };
+    const sizes: number[] = [];
+    let best: INgxAdvancedImgBitmapOptimization | undefined;
+    let smallest: INgxAdvancedImgBitmapOptimization | undefined;
+
+    const encode = async (encodeQuality: number): Promise<boolean> => {
+      let blob: Blob | null = await NgxAdvancedImgBitmap.canvasToBlobPromise(canvas, type, encodeQuality);
+
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+      if (!blob) {
+        throw new Error('An error occurred while drawing to the canvas');
+      }
+
+      if (options?.preserveMetadata && options.preserveMetadata !== 'none') {
+        blob = await NgxAdvancedImgExifWriter.embed(blob, this.getOptimizedMetadata(canvas.width, canvas.height, options).exifData, options.preserveMetadata);
+      }
+
+      sizes.push(blob.size);
+
+      this.emitProgress('optimize', 'encode', iteration + sizes.length, encodeQuality, resizeFactor, blob.size);
+
+      const report: INgxAdvancedImgOptimizationReport = this.createReport(type, blob, encodeQuality, resizeFactor, canvas.width, canvas.height, reportOptions, sizes, false);
+      const optimization: INgxAdvancedImgBitmapOptimization = this.createOptimization(blob, report, options);
+      const fits: boolean = limit === undefined || blob.size <= limit;
+
+      if (fits && (!best || blob.size > best.blob.size)) {
+        best = optimization;
+      }
+
+      if (!smallest || blob.size < smallest.blob.size) {
+        smallest = optimization;
+      }
+
+      return fits;
+    };
+
+    if (!(await encode(quality))) {
+      await NgxAdvancedImgBitmap.searchLargestFit(encode, qualityFloor, quality, NgxAdvancedImgBitmap.QUALITY_TOLERANCE, () => sizes.length < maxIterations);
+    }
+
+    const result: INgxAdvancedImgBitmapOptimization | undefined = best || (!options?.strict ? smallest : undefined);
+
+    if (!result) {
+      throw new Error('The requested image optimization cannot be achieved');
+    }
+
+    return {
+      ...result,
+      report: {
+        ...result.report,
+        iterations: sizes.length,
+        sizes: sizes.slice(),
+      },
+    };
+  }
+
+  /**
+   * Optimizes the image to each of the given types that can be produced and returns the smallest result that fits
+   * within the size limit, preferring earlier types when sizes tie. Types without an alpha channel are ruled out
+   * when the image holds transparency.
+   *
+   * @param types The ranked types of file output to compare.
+   * @param quality The quality of the image optimization.
+   * @param resizeFactor The scaling factor to reduce the size of the image.
+   * @param maxDimension If provided, the maximum pixels allowed for x/y dimension in the size of the image.
+   * @param options The optimization options to apply to each type.
+   * @param signal An optional signal that stops the optimization between encodes.
+   */
+  private async _optimizeToFormat(
+    types: string[],
+    quality: number,
+    resizeFactor: number,
+    maxDimension: number | undefined,
+    options: INgxAdvancedImgOptimizationOptions | undefined,
+    signal?: AbortSignal
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    const source: HTMLImageElement | ImageBitmap | undefined = this.image || this._imageBitmap;
+
+    if (!source || !this.loaded) {
+      throw new Error('Image not loaded');
+    }
+
+    const transparent: boolean = NgxAdvancedImgTransformer.introducesTransparency(options?.transform) || this.hasTransparency(source);
+
+    // support cannot be checked without a document, so workers rely on the produced type below instead
+    const candidates: string[] = types.filter((type: string) =>
+      (typeof document === 'undefined' || NgxAdvancedImgBitmap.isMimeTypeSupported(type)) &&
+      !(transparent && NgxAdvancedImgBitmap.OPAQUE_TYPES.includes(type))
+    );
+
+    if (!candidates.length) {
+      throw new Error('None of the requested image types can be produced');
+    }
+
+    const formats: INgxAdvancedImgFormatCandidate[] = [];
+    const results: INgxAdvancedImgBitmapOptimization[] = [];
+    let lastError: unknown;
+
+    for (const candidate of candidates) {
+      try {
+        const optimization: INgxAdvancedImgBitmapOptimization = await this.optimize(candidate, quality, resizeFactor, maxDimension, options, signal);
+
+        // canvases silently fall back to png for types they cannot encode
+        if (optimization.report.mimeType !== candidate) {
+          formats.push({ type: candidate, size: undefined, sizeLimitMet: undefined });
+          continue;
+        }
+
+        formats.push({ type: candidate, size: optimization.blob.size, sizeLimitMet: optimization.report.sizeLimitMet });
+        results.push(optimization);
+      } catch (error) {
+        if (NgxAdvancedImgAbortError.isAbortError(error)) {
+          throw error;
+        }
+
+        // strict optimizations reject types that cannot reach the size limit, which leaves the others to compare
+        formats.push({ type: candidate, size: undefined, sizeLimitMet: false });
+        lastError = error;
+      }
+    }
+
+    const fitting: INgxAdvancedImgBitmapOptimization[] = results.filter((result: INgxAdvancedImgBitmapOptimization) => result.report.sizeLimitMet !== false);
+    const eligible: INgxAdvancedImgBitmapOptimization[] = fitting.length || options?.strict ? fitting : results;
+
+    if (!eligible.length) {
+      throw lastError instanceof Error ? lastError : new Error('The requested image optimization cannot be achieved');
+    }
+
+    const winner: INgxAdvancedImgBitmapOptimization = eligible.reduce((smallest: INgxAdvancedImgBitmapOptimization, result: INgxAdvancedImgBitmapOptimization) =>
+      result.blob.size < smallest.blob.size ? result : smallest
+    );
+
+    return {
+      ...winner,
+      report: {
+        ...winner.report,
+        candidates: formats,
+      },
+    };
+  }
+
+  /**
+   * Optimizes the image to fit within the size limit with a bounded number of encodes. Quality is binary searched
+   * first at the requested scale, and only if the minimum quality does not fit is the scale binary searched at the
+   * minimum quality. The largest result that fits is returned, or the smallest result produced if none fit and the
+   * optimization is not strict.
+   *
+   * @param type The type of file output we would like to generate.
+   * @param quality The highest quality to search from.
+   * @param resizeFactor The highest scaling factor to search from.
+   * @param maxDimension If provided, the maximum pixels allowed for x/y dimension in the size of the image.
+   * @param options The optimization options, whose sizeLimit must be set.
+   * @param signal An optional signal that stops the optimization between encodes.
+   */
+  private async _optimizeToSize(
+    type: string,
+    quality: number,
+    resizeFactor: number,
+    maxDimension: number | undefined,
+    options: INgxAdvancedImgOptimizationOptions,
+    signal?: AbortSignal
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    const source: HTMLImageElement | ImageBitmap | undefined = this.image || this._imageBitmap;
+
+    if (!source || !this.loaded) {
+      throw new Error('Image not loaded');
+    }
+
+    const sizeLimit: number = options.sizeLimit as number;
+    const maxIterations: number = typeof options.maxIterations === 'number' && isFinite(options.maxIterations) && options.maxIterations >= 1 ?
+      Math.floor(options.maxIterations) : NgxAdvancedImgBitmap.MAX_ITERATIONS;
+    const qualityFloor: number = Math.min(quality, NgxAdvancedImgBitmap.getFloor(options.minQuality));
+    const orientation: number = this.getPendingOrientation(source);
+    const frame: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(
+      options.transform,
+      orientation >= 5 ? source.height : source.width,
+      orientation >= 5 ? source.width : source.height
+    );
+    const largestDimension: number = Math.max(frame.width, frame.height);
+    let scaleCeiling: number = resizeFactor > 0 ? resizeFactor : 1;
+
+    // the max dimension caps the scale, so searching above it would only repeat the same encode
+    if (typeof maxDimension === 'number' && isFinite(maxDimension) && maxDimension > 0 && largestDimension * scaleCeiling > maxDimension) {
+      scaleCeiling = maxDimension / largestDimension;
+    }
+
+    const scaleFloor: number = Math.min(scaleCeiling, NgxAdvancedImgBitmap.getFloor(options.minScale));
+
+    // each encode is a single pass without a size limit, the search below decides what to try next
+    const encodeOptions: INgxAdvancedImgOptimizationOptions = { ...options, sizeLimit: undefined, mode: undefined };
+    const sizes: number[] = [];
+    let iteration = 0;
+    let best: INgxAdvancedImgBitmapOptimization | undefined;
+    let smallest: INgxAdvancedImgBitmapOptimization | undefined;
+
+    const encode = async (encodeQuality: number, encodeScale: number): Promise<boolean> => {
+      iteration++;
+
+      const optimization: INgxAdvancedImgBitmapOptimization = await this._optimize(type, encodeQuality, encodeScale, maxDimension, encodeOptions, signal, undefined, undefined, iteration);
+      const fits: boolean = optimization.blob.size <= sizeLimit;
+
+      sizes.push(optimization.blob.size);
+
+      if (fits && (!best || optimization.blob.size > best.blob.size)) {
+        best = optimization;
+      }
+
+      if (!smallest || optimization.blob.size < smallest.blob.size) {
+        smallest = optimization;
+      }
+
+      return fits;
+    };
+
+    const hasBudget = (): boolean => iteration < maxIterations;
+
+    // nothing needs to be reduced if the requested quality and scale already fit
+    if (
+      !(await encode(quality, scaleCeiling)) &&
+      !(await NgxAdvancedImgBitmap.searchLargestFit((value: number) => encode(value, scaleCeiling), qualityFloor, quality, NgxAdvancedImgBitmap.QUALITY_TOLERANCE, hasBudget))
+    ) {
+      // the scale search stops once its bounds no longer differ by a whole pixel
+      await NgxAdvancedImgBitmap.searchLargestFit((value: number) => encode(qualityFloor, value), scaleFloor, scaleCeiling, 1 / largestDimension, hasBudget);
+    }
+
+    const result: INgxAdvancedImgBitmapOptimization | undefined = best || (!options.strict ? smallest : undefined);
+
+    if (!result) {
+      throw new Error('The requested image optimization cannot be achieved');
+    }
+
+    // each encode only knows about itself, so describe the search and the floors it clamped at as a whole
+    return {
+      ...result,
+      report: {
+        ...result.report,
+        minQualityReached: result.report.quality <= qualityFloor,
+        minScaleReached: result.report.resizeFactor <= scaleFloor,
+        iterations: sizes.length,
+        sizes,
+        sizeLimit,
+        sizeLimitMet: result.blob.size <= sizeLimit,
+      },
+    };
+  }
+
+  /**
+   * Minifies a loaded svg image, lowering the precision of its coordinates until it fits within the size limit.
+   * The image isn't resized, so the resizing options of the optimization have no effect.
+   *
+   * @param type The type of file output, which is image/svg+xml.
+   * @param options The optimization options, of which the precision, sizeLimit and strict options apply.
+   * @param signal An optional signal that stops the optimization and rejects with an NgxAdvancedImgAbortError.
+   */
+  private async _optimizeSvg(
+    type: string,
+    options: INgxAdvancedImgOptimizationOptions | undefined,
+    signal?: AbortSignal
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+    if (!this.loaded || this._svgMarkup === undefined) {
+      throw new Error('Image not loaded');
+    }
+
+    const sizeLimit: number | undefined =
+      typeof options?.sizeLimit === 'number' && isFinite(options.sizeLimit) && options.sizeLimit > 0 ? options.sizeLimit : undefined;
+    const precision: number =
+      typeof options?.precision === 'number' && isFinite(options.precision) && options.precision >= 0 ? options.precision : NgxAdvancedImgSvgMinifier.DEFAULT_PRECISION;
+    const minification: INgxAdvancedImgSvgMinification = NgxAdvancedImgSvgMinifier.minifyToSize(this._svgMarkup, sizeLimit, precision);
+    const blob: Blob = new Blob([minification.svg], { type });
+
+    minification.sizes.forEach((size: number, i: number) => this.emitProgress('optimize', 'encode', i + 1, undefined, 1, size));
+
+    if (options?.strict && sizeLimit !== undefined && blob.size > sizeLimit) {
+      throw new Error('The requested image optimization cannot be achieved');
+    }
+
+    const report: INgxAdvancedImgOptimizationReport = this.createReport(type, blob, 1, 1, this._svgSize?.width || this.image?.naturalWidth || 0, this._svgSize?.height || this.image?.naturalHeight || 0, options, minification.sizes, false);
+
+    return this.createOptimization(blob, { ...report, precision: minification.precision }, options);
+  }
+
+  /**
+   * Resolves the source of this bitmap into Blob data, converting data URIs and downloading remote urls.
+   *
+   * @param anonymous Whether or not to download remote sources anonymously.
+   * @param signal An optional signal that cancels any download.
+   */
+  private async acquireSourceBlob(anonymous: boolean, signal?: AbortSignal): Promise<{ blob: Blob; fileSize: number }> {
+    if (typeof this.src === 'string' && NgxAdvancedImgBitmap.isDataURI(this.src)) {
+      this.src = NgxAdvancedImgBitmap.dataURItoBlob(this.src);
+    }
+
+    if (typeof this.src === 'string') {
+      // remote sources must be downloaded before we can inspect the bytes
+      return NgxAdvancedImgBitmap.fetchRemoteBlob(this.remoteURL, anonymous, signal);
+    }
+
+    return {
+      blob: this.src,
+      fileSize: this.src.size,
+    };
+  }
+
+  /**
+   * Notifies any progress subscribers of the current state of a load or optimization.
+   *
+   * @param operation The operation that is being performed.
+   * @param phase The phase of the operation that has just completed.
+   * @param iteration The encode iteration of the optimization, 0 while loading.
+   * @param quality The encoding quality used for this phase, if any.
+   * @param resizeFactor The scaling factor used for this phase, if any.
+   * @param size The size in bytes of the data produced by this phase, if any.
+   */
+  private emitProgress(
+    operation: INgxAdvancedImgBitmapProgress['operation'],
+    phase: INgxAdvancedImgBitmapProgress['phase'],
+    iteration: number,
+    quality: number | undefined,
+    resizeFactor: number | undefined,
+    size: number | undefined
+  ): void {
+    this._progress?.next({
+      operation,
+      phase,
+      iteration,
+      quality,
+      resizeFactor,
+      size,
+    });
+  }
+
+  /**
+   * Determines whether the given source holds any transparent pixels. Large images are inspected at a reduced
+   * size, where transparent areas still lower the alpha of the pixels they are blended into.
+   *
+   * @param source The source that will be drawn.
+   */
+  private hasTransparency(source: HTMLImageElement | ImageBitmap): boolean {
+    // jpeg data cannot hold an alpha channel, so there is nothing to inspect
+    if (this.mimeType === 'image/jpeg') {
+      return false;
+    }
+
+    const scale: number = Math.min(1, Math.sqrt(NgxAdvancedImgBitmap.TRANSPARENCY_SAMPLE_PIXELS / (source.width * source.height)));
+    const width: number = Math.max(1, Math.round(source.width * scale));
+    const height: number = Math.max(1, Math.round(source.height * scale));
+    const canvas: NgxAdvancedImgCanvas = NgxAdvancedImgBitmap.createCanvas(width, height);
+    const ctx: NgxAdvancedImgCanvasContext | null = NgxAdvancedImgBitmap.getContext2D(canvas);
+
+    try {
+      if (!ctx) {
+        return false;
+      }
+
+      ctx.drawImage(source, 0, 0, width, height);
+
+      const data: Uint8ClampedArray = ctx.getImageData(0, 0, width, height).data;
+
+      for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) {
+          return true;
+        }
+      }
+
+      return false;
+    } catch {
+      // assume transparency if the pixels cannot be read, so that it is never lost
+      return true;
+    } finally {
+      canvas.width = canvas.height = 0;
+    }
+  }
+
+  /**
+   * Returns the exif orientation that still has to be applied when drawing the given source. Browsers that
+   * orient images themselves, and ImageBitmaps decoded from the image orientation, already hold upright pixels.
+   *
+   * @param source The source that will be drawn.
+   */
+  private getPendingOrientation(source: HTMLImageElement | ImageBitmap): number {
+    if (source !== this.image || !exif.rotateCanvas) {
+      return 1;
+    }
+
+    return this.orientation;
+  }
+
+  /**
+   * Describes an optimized output along with its exif data.
+   *
+   * @param blob The optimized output.
+   * @param report The report of how the output was produced.
+   * @param options The optimization options in use.
+   */
+  private createOptimization(
+    blob: Blob,
+    report: INgxAdvancedImgOptimizationReport,
+    options?: INgxAdvancedImgOptimizationOptions
+  ): INgxAdvancedImgBitmapOptimization {
+    return {
+      blob,
+      ...this.getOptimizedMetadata(report.width, report.height, options),
+      report,
+    };
+  }
+
+  /**
+   * Describes how an encode of the optimization process was produced.
+   *
+   * @param type The mime type that was requested.
+   * @param blob The output of the encode.
+   * @param quality The encoding quality used.
+   * @param resizeFactor The scaling factor used.
+   * @param width The width of the canvas that was encoded.
+   * @param height The height of the canvas that was encoded.
+   * @param options The optimization options in use.
+   * @param sizes The size in bytes of every encode so far, including this one.
+   * @param minDimensionReached Whether the canvas was held at the minDimension floor.
+   */
+  private createReport(
+    type: string,
+    blob: Blob,
+    quality: number,
+    resizeFactor: number,
+    width: number,
+    height: number,
+    options: INgxAdvancedImgOptimizationOptions | undefined,
+    sizes: number[],
+    minDimensionReached: boolean
+  ): INgxAdvancedImgOptimizationReport {
+    const floors: { quality: number; scale: number } = NgxAdvancedImgBitmap.getFloors(options);
+    const sizeLimit: number | undefined =
+      typeof options?.sizeLimit === 'number' && isFinite(options.sizeLimit) && options.sizeLimit > 0 ? options.sizeLimit : undefined;
+
+    return {
+      quality,
+      resizeFactor,
+      // canvases truncate fractional dimensions
+      width: Math.floor(width),
+      height: Math.floor(height),
+      requestedType: type,
+      mimeType: blob.type,
+      iterations: sizes.length,
+      sizes: sizes.slice(),
+      minDimensionReached,
+      // the search clamps at its default floors when no minimum is given, so those count as reached as well, and
+      // the retain modes hold the scale or quality at 1
+      minQualityReached: quality <= floors.quality,
+      minScaleReached: resizeFactor <= floors.scale,
+      sizeLimit,
+      sizeLimitMet: sizeLimit === undefined ? undefined : blob.size <= sizeLimit,
+    };
+  }
+
+  /**
+   * Binary searches the largest quality or scale that fits within a size limit, given a ceiling that is known not to
+   * fit. The floor is encoded first and the search only continues if it fits. Returns whether the floor fit.
+   *
+   * @param encode Encodes the image at a value and resolves whether the output fits.
+   * @param floor The lowest value to search.
+   * @param ceiling The value known not to fit.
+   * @param tolerance The search stops once its bounds are this close.
+   * @param hasBudget Whether another encode may still be performed.
+   */
+  private static async searchLargestFit(
+    encode: (value: number) => Promise<boolean>,
+    floor: number,
+    ceiling: number,
+    tolerance: number,
+    hasBudget: () => boolean
+  ): Promise<boolean> {
+    if (!hasBudget() || floor >= ceiling || !(await encode(floor))) {
+      return false;
+    }
+
+    let low: number = floor; // the largest value known to fit
+    let high: number = ceiling; // the smallest value known not to fit
+
+    while (hasBudget() && high - low > tolerance) {
+      const middle: number = (low + high) / 2;
+
+      if (await encode(middle)) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the quality or scale floor that an optimization clamps at.
+   *
+   * @param min The minQuality or minScale option, if any.
+   */
+  private static getFloor(min: number | undefined): number {
+    return Math.max(0, Math.min(1, min || NgxAdvancedImgBitmap.MIN_FACTOR));
+  }
+
+  /**
+   * Returns the quality and scale floors that an optimization clamps at, where the retain-size and retain-quality
+   * modes never lower the scale or the quality respectively.
+   *
+   * @param options The optimization options in use.
+   */
+  private static getFloors(options: INgxAdvancedImgOptimizationOptions | undefined): { quality: number; scale: number } {
+    return {
+      quality: options?.mode === 'retain-quality' ? 1 : NgxAdvancedImgBitmap.getFloor(options?.minQuality),
+      scale: options?.mode === 'retain-size' ? 1 : NgxAdvancedImgBitmap.getFloor(options?.minScale),
+    };
+  }
+
+  /**
+   * Copies the exif data for an optimized output, redacting it if the optimization options request it.
+   *
+   * @param width The width of the optimized output.
+   * @param height The height of the optimized output.
+   * @param options The optimization options in use.
+   */
+  private getOptimizedMetadata(
+    width: number,
+    height: number,
+    options?: INgxAdvancedImgOptimizationOptions
+  ): { exifData: any; redaction?: INgxAdvancedImgRedactionReport } {
+    const exifData: any = this.getOptimizedExifData(width, height);
+
+    if (!options?.redaction) {
+      return { exifData };
+    }
+
+    const redaction: INgxAdvancedImgRedaction = NgxAdvancedImgExifRedactor.redact(exifData, options.redaction);
+
+    return {
+      exifData: redaction.exifData,
+      redaction: redaction.report,
+    };
+  }
+
+  /**
+   * Copies the exif data for an optimized output, describing its dimensions and its now upright orientation.
+   *
+   * @param width The width of the optimized output.
+   * @param height The height of the optimized output.
+   */
+  private getOptimizedExifData(width: number, height: number): any {
+    const exifData: any = JSON.parse(JSON.stringify(this.exifData));
+
+    exifData['ExifImageWidth'] = width;
+    exifData['ExifImageHeight'] = height;
+
+    // the optimized pixels are always drawn upright, so the orientation is now normal
+    if (exifData['Orientation'] !== undefined) {
+      exifData['Orientation'] = typeof exifData['Orientation'] === 'string' ? 'Horizontal (normal)' : 1;
+    }
+
+    return exifData;
+  }
+
   /**
    * Estimates the new dimensions to use for scaling determinations.
    *
@@ -1225,21 +2827,25 @@ export class NgxAdvancedImgBitmap {
   /**
    * Helper function that adjusts the image based on any exif data indicating
    * a different orientation be performed.
+   *
+   * @param data The image data to read the orientation from, the loaded image by default.
    */
-  protected async adjustForExifOrientation(): Promise<void> {
-    if (!this.image) {
+  protected async adjustForExifOrientation(data?: Blob): Promise<void> {
+    const input: HTMLImageElement | Blob | undefined = data || this.image;
+
+    if (!input) {
       return Promise.reject(new Error('Image not loaded'));
     }
 
     try {
-      this._orientation = (await exif.orientation(this.image)) || 1;
+      this._orientation = (await exif.orientation(input)) || 1;
     } catch (e) {
       // assume normal orientation if none can be found based on exif info
       this._orientation = 1;
     }
 
-    if (this._orientation != null) {
-      // assume normal orientation if none can be found based on exif info
+    if (!this._orientation || this._orientation < 1 || this._orientation > 8) {
+      // assume normal orientation if the exif info holds an invalid value
       this._orientation = 1;
     }
 
@@ -0,0 +1,85 @@
+import { INgxAdvancedImgRedaction, NgxAdvancedImgExifRedactor } from './exif-redactor';
+
+describe('NgxAdvancedImgExifRedactor', () => {
+  const exifData: Record<string, unknown> = {
+    Make: 'Canon',
+    Artist: 'Jane Doe',
+    SerialNumber: '0123456789',
+    LensSerialNumber: '9876543210',
+    OwnerName: 'Jane Doe',
+    MakerNote: { vendor: 'data' },
+    GPSVersionID: '2.2.0.0',
+    GPSLatitudeRef: 'N',
+    GPSLatitude: [52, 22, 30.5],
+    GPSAltitude: 12.5,
+    latitude: 52.375139,
+    longitude: 4.886736,
+  };
+
+  it('should remove gps data, serial numbers, owner names and maker notes by default', () => {
+    const redaction: INgxAdvancedImgRedaction = NgxAdvancedImgExifRedactor.redact(exifData);
+
+    expect(redaction.exifData).toEqual({ Make: 'Canon', Artist: 'Jane Doe' });
+    expect(redaction.report.removed.sort()).toEqual(
+      [
+        'GPSAltitude',
+        'GPSLatitude',
+        'GPSLatitudeRef',
+        'GPSVersionID',
+        'LensSerialNumber',
+        'MakerNote',
+        'OwnerName',
+        'SerialNumber',
+        'latitude',
+        'longitude',
+      ].sort()
+    );
+    expect(redaction.report.coarsened).toEqual([]);
+  });
+
+  it('should leave the original exif data untouched', () => {
+    NgxAdvancedImgExifRedactor.redact(exifData);
+
+    expect(exifData['SerialNumber']).toBe('0123456789');
+    expect(exifData['latitude']).toBe(52.375139);
+  });
+
+  it('should coarsen the position and remove every other gps tag', () => {
+    const redaction: INgxAdvancedImgRedaction = NgxAdvancedImgExifRedactor.redact(exifData, {
+      gps: 'coarsen',
+      gpsPrecision: 1,
+    });
+    const redacted: Record<string, unknown> = redaction.exifData as Record<string, unknown>;
+
+    expect(redacted['latitude']).toBe(52.4);
+    expect(redacted['longitude']).toBe(4.9);
+    expect(redacted['GPSLatitude']).toEqual([52, 24, 0]);
+    expect(redacted['GPSLatitudeRef']).toBe('N');
+    expect(redacted['GPSAltitude']).toBeUndefined();
+    expect(redaction.report.coarsened.sort()).toEqual(['GPSLatitude', 'latitude', 'longitude']);
+    expect(redaction.report.removed).toContain('GPSAltitude');
+  });
+
+  it('should keep what the policy opts out of and remove additional tags', () => {
+    const redacted: Record<string, unknown> = NgxAdvancedImgExifRedactor.redact(exifData, {
+      gps: 'keep',
+      serialNumbers: false,
+      ownerNames: false,
+      makerNotes: false,
+      tags: ['Artist'],
+    }).exifData as Record<string, unknown>;
+
+    expect(redacted['Artist']).toBeUndefined();
+    expect(redacted['SerialNumber']).toBe('0123456789');
+    expect(redacted['OwnerName']).toBe('Jane Doe');
+    expect(redacted['MakerNote']).toEqual({ vendor: 'data' });
+    expect(redacted['GPSLatitude']).toEqual([52, 22, 30.5]);
+  });
+
+  it('should return missing exif data as it is', () => {
+    expect(NgxAdvancedImgExifRedactor.redact(undefined)).toEqual({
+      exifData: undefined,
+      report: { removed: [], coarsened: [] },
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Describes which privacy sensitive exif data should be removed from an image's metadata. Everything is redacted
+ * by default, so an empty policy removes GPS data, serial numbers, owner names and maker notes.
+ */
+export interface INgxAdvancedImgRedactionPolicy {
+  gps?: 'keep' | 'coarsen' | 'remove' | undefined; // 'remove' by default, 'coarsen' keeps only a rounded position
+  gpsPrecision?: number | undefined; // the decimal places of a coarsened position, 2 (roughly 1 km) by default
+  serialNumbers?: boolean | undefined; // if true, true by default, then device serial numbers are removed
+  ownerNames?: boolean | undefined; // if true, true by default, then owner names are removed
+  makerNotes?: boolean | undefined; // if true, true by default, then vendor maker notes are removed
+  tags?: string[] | undefined; // the names of any additional tags to remove
+}
+
+/**
+ * This interface describes which tags a redaction removed or coarsened.
+ */
+export interface INgxAdvancedImgRedactionReport {
+  removed: string[];
+  coarsened: string[];
+}
+
+export interface INgxAdvancedImgRedaction {
+  exifData: Record<string, unknown> | undefined;
+  report: INgxAdvancedImgRedactionReport;
+}
+
+/**
+ * Removes privacy sensitive tags from exif data as it is read by exifr, reporting every tag that was touched.
+ */
+export class NgxAdvancedImgExifRedactor {
+  private static DEFAULT_GPS_PRECISION = 2;
+  private static COARSE_GPS_TAGS: string[] = [
+    'GPSVersionID',
+    'GPSLatitudeRef',
+    'GPSLatitude',
+    'GPSLongitudeRef',
+    'GPSLongitude',
+    'latitude',
+    'longitude',
+  ];
+
+  /**
+   * Returns a redacted copy of the given exif data, leaving the original untouched.
+   *
+   * @param exifData The exif data to redact, as read by exifr.
+   * @param policy The redaction to perform, everything is redacted by default.
+   */
+  public static redact(
+    exifData: Record<string, unknown> | undefined,
+    policy: INgxAdvancedImgRedactionPolicy = {}
+  ): INgxAdvancedImgRedaction {
+    const report: INgxAdvancedImgRedactionReport = { removed: [], coarsened: [] };
+
+    if (!exifData || typeof exifData !== 'object') {
+      return { exifData, report };
+    }
+
+    const redacted: Record<string, unknown> = JSON.parse(JSON.stringify(exifData));
+    const gps: INgxAdvancedImgRedactionPolicy['gps'] = policy.gps || 'remove';
+    const precision: number =
+      typeof policy.gpsPrecision === 'number' && isFinite(policy.gpsPrecision) && policy.gpsPrecision >= 0
+        ? Math.floor(policy.gpsPrecision)
+        : NgxAdvancedImgExifRedactor.DEFAULT_GPS_PRECISION;
+
+    for (const key of Object.keys(redacted)) {
+      if (NgxAdvancedImgExifRedactor.isGpsTag(key) && gps !== 'keep') {
+        if (gps === 'coarsen' && NgxAdvancedImgExifRedactor.COARSE_GPS_TAGS.includes(key)) {
+          if (NgxAdvancedImgExifRedactor.coarsen(redacted, key, precision)) {
+            report.coarsened.push(key);
+          }
+
+          if (redacted[key] !== undefined) {
+            continue;
+          }
+        }
+      } else if (
+        !(policy.serialNumbers !== false && /serial/i.test(key)) &&
+        !(policy.ownerNames !== false && /owner/i.test(key)) &&
+        !(policy.makerNotes !== false && /^makernote$/i.test(key)) &&
+        !policy.tags?.includes(key)
+      ) {
+        continue;
+      }
+
+      delete redacted[key];
+      report.removed.push(key);
+    }
+
+    return { exifData: redacted, report };
+  }
+
+  /**
+   * Determines whether a tag holds GPS data, including the decimal position exifr computes.
+   *
+   * @param key The name of the tag.
+   */
+  private static isGpsTag(key: string): boolean {
+    return /^GPS/.test(key) || key === 'latitude' || key === 'longitude';
+  }
+
+  /**
+   * Rounds a GPS position tag in place to the given number of decimal places. Tags that cannot be rounded are
+   * removed from the data instead. Returns whether the tag was rounded.
+   *
+   * @param exifData The exif data holding the tag.
+   * @param key The name of the tag.
+   * @param precision The decimal places to keep.
+   */
+  private static coarsen(exifData: Record<string, unknown>, key: string, precision: number): boolean {
+    const value: unknown = exifData[key];
+    const factor: number = Math.pow(10, precision);
+
+    // references and versions hold no position, so they are kept as they are
+    if (key === 'GPSVersionID' || key === 'GPSLatitudeRef' || key === 'GPSLongitudeRef') {
+      return false;
+    }
+
+    if (typeof value === 'number' && isFinite(value)) {
+      exifData[key] = Math.round(value * factor) / factor;
+
+      return true;
+    }
+
+    // degrees, minutes and seconds are rounded as a decimal value, then split back up
+    if (Array.isArray(value) && value.length === 3 && value.every((part: unknown) => typeof part === 'number')) {
+      const decimal: number = Math.round((value[0] + value[1] / 60 + value[2] / 3600) * factor) / factor;
+
+      // split whole milliseconds of arc so that rounding errors cannot produce 60 seconds or minutes
+      const milliseconds: number = Math.round(decimal * 3600000);
+      const degrees: number = Math.floor(milliseconds / 3600000);
+      const minutes: number = Math.floor((milliseconds % 3600000) / 60000);
+      const seconds: number = (milliseconds % 60000) / 1000;
+
+      exifData[key] = [degrees, minutes, seconds];
+
+      return true;
+    }
+
+    delete exifData[key];
+
+    return false;
+  }
+}
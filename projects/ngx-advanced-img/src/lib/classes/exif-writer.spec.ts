@@ -0,0 +1,130 @@
+import * as exif from 'exifr';
+
+import { NgxAdvancedImgExifWriter } from './exif-writer';
+
+// a start of image marker, a JFIF header and an end of image marker, which is enough for exif to be written into
+const JFIF: number[] = [
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00,
+  0x00,
+];
+const EOI: number[] = [0xff, 0xd9];
+
+function createJpeg(...segments: Uint8Array[]): Blob {
+  return new Blob([new Uint8Array(JFIF), ...segments, new Uint8Array(EOI)], { type: 'image/jpeg' });
+}
+
+async function readExif(blob: Blob, options: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+  return (await exif.parse(new Uint8Array(await blob.arrayBuffer()), { gps: true, ...options })) || {};
+}
+
+function countExifSegments(bytes: Uint8Array): number {
+  let count = 0;
+
+  for (let i = 0; i + 9 < bytes.length; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === 0xe1 && String.fromCharCode(...bytes.subarray(i + 4, i + 8)) === 'Exif') {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+describe('NgxAdvancedImgExifWriter', () => {
+  const exifData: Record<string, unknown> = {
+    Make: 'Canon',
+    Model: 'EOS R5',
+    Orientation: 6,
+    FNumber: 2.8,
+    ExposureTime: 0.004,
+    ExposureCompensation: -0.7,
+    ISO: 400,
+    DateTimeOriginal: '2024:05:01 12:30:45',
+    SerialNumber: '0123456789',
+    GPSLatitudeRef: 'N',
+    GPSLatitude: [52, 22, 30.5],
+    GPSLongitudeRef: 'E',
+    GPSLongitude: [4, 53, 12.25],
+    MakerNote: new Uint8Array([1, 2, 3]),
+  };
+
+  describe('createSegment', () => {
+    it('should return null when there is nothing to write', () => {
+      expect(NgxAdvancedImgExifWriter.createSegment({})).toBeNull();
+      expect(NgxAdvancedImgExifWriter.createSegment({ Unknown: 'value' })).toBeNull();
+      expect(NgxAdvancedImgExifWriter.createSegment(exifData, 'none')).toBeNull();
+    });
+
+    it('should create an APP1 segment with an exif identifier and a big endian tiff header', () => {
+      const segment: Uint8Array = NgxAdvancedImgExifWriter.createSegment(exifData) as Uint8Array;
+
+      expect(Array.from(segment.subarray(0, 2))).toEqual([0xff, 0xe1]);
+      expect((segment[2] << 8) | segment[3]).toBe(segment.length - 2);
+      expect(String.fromCharCode(...segment.subarray(4, 10))).toBe('Exif\0\0');
+      expect(String.fromCharCode(...segment.subarray(10, 12))).toBe('MM');
+    });
+  });
+
+  describe('embed', () => {
+    it('should write tags that read back to the same values', async () => {
+      const result: Record<string, unknown> = await readExif(
+        await NgxAdvancedImgExifWriter.embed(createJpeg(), exifData),
+        { translateValues: false, reviveValues: false }
+      );
+
+      expect(result['Make']).toBe('Canon');
+      expect(result['Model']).toBe('EOS R5');
+      expect(result['Orientation']).toBe(6);
+      expect(result['FNumber']).toBeCloseTo(2.8, 6);
+      expect(result['ExposureTime']).toBeCloseTo(0.004, 6);
+      expect(result['ExposureCompensation']).toBeCloseTo(-0.7, 6);
+      expect(result['ISO']).toBe(400);
+      expect(result['DateTimeOriginal']).toBe('2024:05:01 12:30:45');
+      expect(result['SerialNumber']).toBe('0123456789');
+      expect(result['GPSLatitudeRef']).toBe('N');
+      expect((result['GPSLatitude'] as number[])[2]).toBeCloseTo(30.5, 6);
+      expect(result['MakerNote']).toBeUndefined();
+    });
+
+    it('should leave out gps data and device identifiers with the safe policy', async () => {
+      const result: Record<string, unknown> = await readExif(
+        await NgxAdvancedImgExifWriter.embed(createJpeg(), exifData, 'safe')
+      );
+
+      expect(result['Make']).toBe('Canon');
+      expect(result['SerialNumber']).toBeUndefined();
+      expect(result['GPSLatitude']).toBeUndefined();
+      expect(result['latitude']).toBeUndefined();
+    });
+
+    it('should write translated and revived values back as raw values', async () => {
+      const result: Record<string, unknown> = await readExif(
+        await NgxAdvancedImgExifWriter.embed(createJpeg(), {
+          Orientation: 'Rotate 90 CW',
+          DateTimeOriginal: new Date(2024, 4, 1, 12, 30, 45),
+        }),
+        { translateValues: false, reviveValues: false }
+      );
+
+      expect(result['Orientation']).toBe(6);
+      expect(result['DateTimeOriginal']).toBe('2024:05:01 12:30:45');
+    });
+
+    it('should replace an existing exif segment and keep the JFIF header first', async () => {
+      const existing: Uint8Array = NgxAdvancedImgExifWriter.createSegment({ Make: 'Nikon' }) as Uint8Array;
+      const blob: Blob = await NgxAdvancedImgExifWriter.embed(createJpeg(existing), { Make: 'Canon' });
+      const bytes: Uint8Array = new Uint8Array(await blob.arrayBuffer());
+
+      expect(Array.from(bytes.subarray(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+      expect(countExifSegments(bytes)).toBe(1);
+      expect((await readExif(blob))['Make']).toBe('Canon');
+    });
+
+    it('should return data that is not a jpeg untouched', async () => {
+      const png: Blob = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/png' });
+      const mislabeled: Blob = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/jpeg' });
+
+      expect(await NgxAdvancedImgExifWriter.embed(png, exifData)).toBe(png);
+      expect(await NgxAdvancedImgExifWriter.embed(mislabeled, exifData)).toBe(mislabeled);
+    });
+  });
+});
@@ -0,0 +1,494 @@
+import * as exif from 'exifr';
+
+/**
+ * Which metadata is written back into optimized output. `safe` keeps descriptive tags such as capture dates,
+ * camera, copyright and orientation, but leaves out GPS coordinates and anything that identifies a device or owner.
+ */
+export type NgxAdvancedImgMetadataPolicy = 'all' | 'safe' | 'none';
+
+type ExifBlock = 'ifd0' | 'exif' | 'gps';
+
+interface IExifTag {
+  block: ExifBlock;
+  id: number;
+  name: string;
+  type: number;
+  safe: boolean;
+}
+
+interface IExifEntry {
+  id: number;
+  type: number;
+  count: number;
+  data: Uint8Array;
+}
+
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+const SRATIONAL = 10;
+
+const TYPE_SIZES: Record<number, number> = {
+  [BYTE]: 1,
+  [ASCII]: 1,
+  [SHORT]: 2,
+  [LONG]: 4,
+  [RATIONAL]: 8,
+  [UNDEFINED]: 1,
+  [SRATIONAL]: 8,
+};
+
+/**
+ * Serializes exif data, as it is read by exifr, into an APP1 segment and embeds it in JPEG data. Only a known set
+ * of tags is written so that the output never carries offsets or maker notes that no longer match the image.
+ */
+export class NgxAdvancedImgExifWriter {
+  private static EXIF_POINTER = 0x8769;
+  private static GPS_POINTER = 0x8825;
+  private static MAX_SEGMENT_LENGTH = 0xffff;
+  private static DATE_TAGS: number[] = [0x0132, 0x9003, 0x9004];
+
+  // prettier-ignore
+  private static TAGS: IExifTag[] = [
+    { block: 'ifd0', id: 0x010e, name: 'ImageDescription', type: ASCII, safe: true },
+    { block: 'ifd0', id: 0x010f, name: 'Make', type: ASCII, safe: true },
+    { block: 'ifd0', id: 0x0110, name: 'Model', type: ASCII, safe: true },
+    { block: 'ifd0', id: 0x0112, name: 'Orientation', type: SHORT, safe: true },
+    { block: 'ifd0', id: 0x011a, name: 'XResolution', type: RATIONAL, safe: true },
+    { block: 'ifd0', id: 0x011b, name: 'YResolution', type: RATIONAL, safe: true },
+    { block: 'ifd0', id: 0x0128, name: 'ResolutionUnit', type: SHORT, safe: true },
+    { block: 'ifd0', id: 0x0131, name: 'Software', type: ASCII, safe: true },
+    { block: 'ifd0', id: 0x0132, name: 'ModifyDate', type: ASCII, safe: true },
+    { block: 'ifd0', id: 0x013b, name: 'Artist', type: ASCII, safe: true },
+    { block: 'ifd0', id: 0x8298, name: 'Copyright', type: ASCII, safe: true },
+    { block: 'exif', id: 0x829a, name: 'ExposureTime', type: RATIONAL, safe: true },
+    { block: 'exif', id: 0x829d, name: 'FNumber', type: RATIONAL, safe: true },
+    { block: 'exif', id: 0x8822, name: 'ExposureProgram', type: SHORT, safe: true },
+    { block: 'exif', id: 0x8827, name: 'ISO', type: SHORT, safe: true },
+    { block: 'exif', id: 0x9003, name: 'DateTimeOriginal', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9004, name: 'CreateDate', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9010, name: 'OffsetTime', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9011, name: 'OffsetTimeOriginal', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9012, name: 'OffsetTimeDigitized', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9201, name: 'ShutterSpeedValue', type: SRATIONAL, safe: true },
+    { block: 'exif', id: 0x9202, name: 'ApertureValue', type: RATIONAL, safe: true },
+    { block: 'exif', id: 0x9204, name: 'ExposureCompensation', type: SRATIONAL, safe: true },
+    { block: 'exif', id: 0x9205, name: 'MaxApertureValue', type: RATIONAL, safe: true },
+    { block: 'exif', id: 0x9207, name: 'MeteringMode', type: SHORT, safe: true },
+    { block: 'exif', id: 0x9208, name: 'LightSource', type: SHORT, safe: true },
+    { block: 'exif', id: 0x9209, name: 'Flash', type: SHORT, safe: true },
+    { block: 'exif', id: 0x920a, name: 'FocalLength', type: RATIONAL, safe: true },
+    { block: 'exif', id: 0x9290, name: 'SubSecTime', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9291, name: 'SubSecTimeOriginal', type: ASCII, safe: true },
+    { block: 'exif', id: 0x9292, name: 'SubSecTimeDigitized', type: ASCII, safe: true },
+    { block: 'exif', id: 0xa001, name: 'ColorSpace', type: SHORT, safe: true },
+    { block: 'exif', id: 0xa002, name: 'ExifImageWidth', type: LONG, safe: true },
+    { block: 'exif', id: 0xa003, name: 'ExifImageHeight', type: LONG, safe: true },
+    { block: 'exif', id: 0xa402, name: 'ExposureMode', type: SHORT, safe: true },
+    { block: 'exif', id: 0xa403, name: 'WhiteBalance', type: SHORT, safe: true },
+    { block: 'exif', id: 0xa404, name: 'DigitalZoomRatio', type: RATIONAL, safe: true },
+    { block: 'exif', id: 0xa405, name: 'FocalLengthIn35mmFormat', type: SHORT, safe: true },
+    { block: 'exif', id: 0xa406, name: 'SceneCaptureType', type: SHORT, safe: true },
+    { block: 'exif', id: 0xa420, name: 'ImageUniqueID', type: ASCII, safe: false },
+    { block: 'exif', id: 0xa430, name: 'OwnerName', type: ASCII, safe: false },
+    { block: 'exif', id: 0xa431, name: 'SerialNumber', type: ASCII, safe: false },
+    { block: 'exif', id: 0xa433, name: 'LensMake', type: ASCII, safe: true },
+    { block: 'exif', id: 0xa434, name: 'LensModel', type: ASCII, safe: true },
+    { block: 'exif', id: 0xa435, name: 'LensSerialNumber', type: ASCII, safe: false },
+    { block: 'gps', id: 0x0000, name: 'GPSVersionID', type: BYTE, safe: false },
+    { block: 'gps', id: 0x0001, name: 'GPSLatitudeRef', type: ASCII, safe: false },
+    { block: 'gps', id: 0x0002, name: 'GPSLatitude', type: RATIONAL, safe: false },
+    { block: 'gps', id: 0x0003, name: 'GPSLongitudeRef', type: ASCII, safe: false },
+    { block: 'gps', id: 0x0004, name: 'GPSLongitude', type: RATIONAL, safe: false },
+    { block: 'gps', id: 0x0005, name: 'GPSAltitudeRef', type: BYTE, safe: false },
+    { block: 'gps', id: 0x0006, name: 'GPSAltitude', type: RATIONAL, safe: false },
+    { block: 'gps', id: 0x0007, name: 'GPSTimeStamp', type: RATIONAL, safe: false },
+    { block: 'gps', id: 0x000c, name: 'GPSSpeedRef', type: ASCII, safe: false },
+    { block: 'gps', id: 0x000d, name: 'GPSSpeed', type: RATIONAL, safe: false },
+    { block: 'gps', id: 0x0010, name: 'GPSImgDirectionRef', type: ASCII, safe: false },
+    { block: 'gps', id: 0x0011, name: 'GPSImgDirection', type: RATIONAL, safe: false },
+    { block: 'gps', id: 0x001d, name: 'GPSDateStamp', type: ASCII, safe: false },
+  ];
+
+  /**
+   * Writes the given exif data into JPEG data, replacing any exif segment it already holds. Data of any other
+   * type, or an empty policy, is returned untouched.
+   *
+   * @param blob The JPEG data to write into.
+   * @param exifData The exif data to write, as read by exifr.
+   * @param policy Which tags to write.
+   */
+  public static async embed(
+    blob: Blob,
+    exifData: Record<string, unknown>,
+    policy: NgxAdvancedImgMetadataPolicy = 'all'
+  ): Promise<Blob> {
+    if (!blob || blob.type !== 'image/jpeg' || policy === 'none' || !exifData) {
+      return blob;
+    }
+
+    const segment: Uint8Array | null = NgxAdvancedImgExifWriter.createSegment(exifData, policy);
+
+    if (!segment) {
+      return blob;
+    }
+
+    const bytes: Uint8Array = new Uint8Array(await blob.arrayBuffer());
+
+    // not a jpeg after all, we cannot safely write into it
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+      return blob;
+    }
+
+    const parts: BlobPart[] = [bytes.subarray(0, 2)];
+    let offset = 2;
+    let inserted = false;
+
+    // walk the leading application segments, keeping a JFIF header ahead of ours and dropping any existing exif
+    while (
+      offset + 4 <= bytes.length &&
+      bytes[offset] === 0xff &&
+      bytes[offset + 1] >= 0xe0 &&
+      bytes[offset + 1] <= 0xef
+    ) {
+      const marker: number = bytes[offset + 1];
+      const end: number = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+
+      if (marker !== 0xe0 && !inserted) {
+        parts.push(segment);
+        inserted = true;
+      }
+
+      if (!(marker === 0xe1 && NgxAdvancedImgExifWriter.isExifSegment(bytes, offset))) {
+        parts.push(bytes.subarray(offset, end));
+      }
+
+      offset = end;
+    }
+
+    if (!inserted) {
+      parts.push(segment);
+    }
+
+    parts.push(bytes.subarray(offset));
+
+    return new Blob(parts, { type: blob.type });
+  }
+
+  /**
+   * Serializes the given exif data into a complete APP1 segment, including its marker. Returns null when there
+   * is nothing to write or the data would not fit into a single segment.
+   *
+   * @param exifData The exif data to write, as read by exifr.
+   * @param policy Which tags to write.
+   */
+  public static createSegment(
+    exifData: Record<string, unknown>,
+    policy: NgxAdvancedImgMetadataPolicy = 'all'
+  ): Uint8Array | null {
+    if (!exifData || policy === 'none') {
+      return null;
+    }
+
+    const blocks: Record<ExifBlock, IExifEntry[]> = { ifd0: [], exif: [], gps: [] };
+
+    for (const tag of NgxAdvancedImgExifWriter.TAGS) {
+      if (policy === 'safe' && !tag.safe) {
+        continue;
+      }
+
+      const entry: IExifEntry | null = NgxAdvancedImgExifWriter.createEntry(tag, exifData[tag.name]);
+
+      if (entry) {
+        blocks[tag.block].push(entry);
+      }
+    }
+
+    if (!blocks.ifd0.length && !blocks.exif.length && !blocks.gps.length) {
+      return null;
+    }
+
+    // the exif version is required whenever an exif ifd is present, and we only write tags of exif 2.32
+    blocks.exif.push({ id: 0x9000, type: UNDEFINED, count: 4, data: new Uint8Array([0x30, 0x32, 0x33, 0x32]) });
+
+    const pointers: IExifEntry[] = [NgxAdvancedImgExifWriter.createPointer(NgxAdvancedImgExifWriter.EXIF_POINTER)];
+
+    if (blocks.gps.length) {
+      pointers.push(NgxAdvancedImgExifWriter.createPointer(NgxAdvancedImgExifWriter.GPS_POINTER));
+    }
+
+    const ifd0: IExifEntry[] = blocks.ifd0.concat(pointers);
+    const ifd0Offset = 8;
+    const exifOffset: number = ifd0Offset + NgxAdvancedImgExifWriter.getIfdLength(ifd0);
+    const gpsOffset: number = exifOffset + NgxAdvancedImgExifWriter.getIfdLength(blocks.exif);
+
+    NgxAdvancedImgExifWriter.writeLong(pointers[0].data, 0, exifOffset);
+
+    if (pointers[1]) {
+      NgxAdvancedImgExifWriter.writeLong(pointers[1].data, 0, gpsOffset);
+    }
+
+    const tiff: Uint8Array[] = [
+      new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, ifd0Offset]), // big endian header
+      NgxAdvancedImgExifWriter.encodeIfd(ifd0, ifd0Offset),
+      NgxAdvancedImgExifWriter.encodeIfd(blocks.exif, exifOffset),
+    ];
+
+    if (blocks.gps.length) {
+      tiff.push(NgxAdvancedImgExifWriter.encodeIfd(blocks.gps, gpsOffset));
+    }
+
+    const tiffLength: number = tiff.reduce((length: number, part: Uint8Array) => length + part.length, 0);
+    const segmentLength: number = 2 + 6 + tiffLength; // length field, exif identifier and tiff data
+
+    if (segmentLength > NgxAdvancedImgExifWriter.MAX_SEGMENT_LENGTH) {
+      return null;
+    }
+
+    const segment: Uint8Array = new Uint8Array(2 + segmentLength);
+    segment.set([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00]);
+
+    let offset = 10;
+
+    for (const part of tiff) {
+      segment.set(part, offset);
+      offset += part.length;
+    }
+
+    return segment;
+  }
+
+  /**
+   * Determines whether the APP1 segment at the given offset holds exif rather than, for example, XMP data.
+   *
+   * @param bytes The JPEG data.
+   * @param offset The offset of the segment marker.
+   */
+  private static isExifSegment(bytes: Uint8Array, offset: number): boolean {
+    return (
+      bytes[offset + 4] === 0x45 &&
+      bytes[offset + 5] === 0x78 &&
+      bytes[offset + 6] === 0x69 &&
+      bytes[offset + 7] === 0x66 &&
+      bytes[offset + 8] === 0x00
+    );
+  }
+
+  /**
+   * Converts a value read by exifr back into the raw data of a tag, or null if the value cannot be represented.
+   *
+   * @param tag The tag to write.
+   * @param value The value read by exifr, which may have been translated or revived.
+   */
+  private static createEntry(tag: IExifTag, value: unknown): IExifEntry | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    if (tag.type === ASCII) {
+      const text: string = NgxAdvancedImgExifWriter.DATE_TAGS.includes(tag.id)
+        ? NgxAdvancedImgExifWriter.formatDate(value)
+        : String(value);
+      const encoded: Uint8Array = new TextEncoder().encode(text);
+      const data: Uint8Array = new Uint8Array(encoded.length + 1); // null terminated
+
+      data.set(encoded);
+
+      return { id: tag.id, type: tag.type, count: data.length, data };
+    }
+
+    // revived versions and timestamps are joined strings, e.g. '2.2.0.0' and '12:30:5'
+    if (typeof value === 'string' && (tag.name === 'GPSVersionID' || tag.name === 'GPSTimeStamp')) {
+      value = value.split(/[.:]/).map(Number);
+    }
+
+    const values: number[] = (Array.isArray(value) ? value : [value]).map((item: unknown) =>
+      typeof item === 'string' ? NgxAdvancedImgExifWriter.untranslate(tag, item) : Number(item)
+    );
+
+    if (!values.length || values.some((item: number) => typeof item !== 'number' || !isFinite(item))) {
+      return null;
+    }
+
+    const size: number = TYPE_SIZES[tag.type];
+    const data: Uint8Array = new Uint8Array(values.length * size);
+
+    values.forEach((item: number, index: number) => {
+      const offset: number = index * size;
+
+      switch (tag.type) {
+        case BYTE:
+          data[offset] = Math.max(0, Math.min(0xff, Math.round(item)));
+          break;
+
+        case SHORT:
+          NgxAdvancedImgExifWriter.writeShort(data, offset, Math.max(0, Math.min(0xffff, Math.round(item))));
+          break;
+
+        case LONG:
+          NgxAdvancedImgExifWriter.writeLong(data, offset, Math.max(0, Math.min(0xffffffff, Math.round(item))));
+          break;
+
+        case RATIONAL:
+        case SRATIONAL: {
+          const [numerator, denominator] = NgxAdvancedImgExifWriter.toRational(
+            tag.type === RATIONAL ? Math.max(0, item) : item
+          );
+
+          NgxAdvancedImgExifWriter.writeLong(data, offset, numerator);
+          NgxAdvancedImgExifWriter.writeLong(data, offset + 4, denominator);
+          break;
+        }
+      }
+    });
+
+    return { id: tag.id, type: tag.type, count: values.length, data };
+  }
+
+  /**
+   * Creates an entry that points to a sub ifd, whose offset is filled in once the layout is known.
+   *
+   * @param id The id of the pointer tag.
+   */
+  private static createPointer(id: number): IExifEntry {
+    return { id, type: LONG, count: 1, data: new Uint8Array(4) };
+  }
+
+  /**
+   * Looks up the raw value of a translated tag value, e.g. 'Horizontal (normal)' for an orientation of 1.
+   *
+   * @param tag The tag the value belongs to.
+   * @param value The translated value.
+   */
+  private static untranslate(tag: IExifTag, value: string): number {
+    const dictionary: Record<string, unknown> | undefined = exif.tagValues?.get(tag.block)?.get(tag.id);
+
+    if (dictionary) {
+      for (const key of Object.keys(dictionary)) {
+        if (dictionary[key] === value) {
+          return Number(key);
+        }
+      }
+    }
+
+    return Number(value);
+  }
+
+  /**
+   * Formats a revived date, or its JSON representation, as an exif date string.
+   *
+   * @param value The date to format.
+   */
+  private static formatDate(value: unknown): string {
+    // values that were never revived are already in the exif format
+    if (typeof value === 'string' && /^\d{4}:\d{2}:\d{2}/.test(value)) {
+      return value;
+    }
+
+    const date: Date = value instanceof Date ? value : new Date(value as string | number);
+
+    if (isNaN(date.getTime())) {
+      return String(value);
+    }
+
+    const pad = (part: number): string => `${part}`.padStart(2, '0');
+
+    // exifr revives dates in local time, so they are written back the same way
+    return (
+      `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+    );
+  }
+
+  /**
+   * Approximates a number with a fraction using continued fractions. Negative values are stored in two's
+   * complement so they may be written as signed rationals.
+   *
+   * @param value The value to approximate.
+   */
+  private static toRational(value: number): [number, number] {
+    const sign: number = value < 0 ? -1 : 1;
+    const target: number = Math.abs(value);
+    let [numerator, previousNumerator] = [Math.floor(target), 1];
+    let [denominator, previousDenominator] = [1, 0];
+    let remainder: number = target - Math.floor(target);
+
+    while (remainder > 1e-9 && Math.abs(target - numerator / denominator) > 1e-9) {
+      const inverse: number = 1 / remainder;
+      const term: number = Math.floor(inverse);
+      const nextNumerator: number = term * numerator + previousNumerator;
+      const nextDenominator: number = term * denominator + previousDenominator;
+
+      if (nextNumerator > 0x7fffffff || nextDenominator > 0x7fffffff) {
+        break;
+      }
+
+      [numerator, previousNumerator] = [nextNumerator, numerator];
+      [denominator, previousDenominator] = [nextDenominator, denominator];
+      remainder = inverse - term;
+    }
+
+    return [(Math.min(numerator, 0x7fffffff) * sign) >>> 0, denominator];
+  }
+
+  /**
+   * Returns the number of bytes an ifd occupies, including the values that do not fit within its entries.
+   *
+   * @param entries The entries of the ifd.
+   */
+  private static getIfdLength(entries: IExifEntry[]): number {
+    return entries.reduce(
+      (length: number, entry: IExifEntry) =>
+        length + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0),
+      2 + entries.length * 12 + 4
+    );
+  }
+
+  /**
+   * Encodes an ifd, followed by the values that do not fit within its entries.
+   *
+   * @param entries The entries of the ifd.
+   * @param offset The offset of the ifd from the start of the tiff header.
+   */
+  private static encodeIfd(entries: IExifEntry[], offset: number): Uint8Array {
+    const sorted: IExifEntry[] = entries.slice().sort((a: IExifEntry, b: IExifEntry) => a.id - b.id);
+    const bytes: Uint8Array = new Uint8Array(NgxAdvancedImgExifWriter.getIfdLength(sorted));
+    let dataOffset: number = 2 + sorted.length * 12 + 4;
+
+    NgxAdvancedImgExifWriter.writeShort(bytes, 0, sorted.length);
+
+    sorted.forEach((entry: IExifEntry, index: number) => {
+      const position: number = 2 + index * 12;
+
+      NgxAdvancedImgExifWriter.writeShort(bytes, position, entry.id);
+      NgxAdvancedImgExifWriter.writeShort(bytes, position + 2, entry.type);
+      NgxAdvancedImgExifWriter.writeLong(bytes, position + 4, entry.count);
+
+      if (entry.data.length <= 4) {
+        bytes.set(entry.data, position + 8);
+      } else {
+        NgxAdvancedImgExifWriter.writeLong(bytes, position + 8, offset + dataOffset);
+        bytes.set(entry.data, dataOffset);
+        dataOffset += entry.data.length + (entry.data.length % 2); // values start on word boundaries
+      }
+    });
+
+    // the offset of the next ifd is left at zero, we never write a thumbnail ifd
+    return bytes;
+  }
+
+  private static writeShort(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = (value >> 8) & 0xff;
+    bytes[offset + 1] = value & 0xff;
+  }
+
+  private static writeLong(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = (value >>> 24) & 0xff;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+  }
+}
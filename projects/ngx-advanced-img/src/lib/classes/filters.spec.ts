@@ -0,0 +1,125 @@
+import { NgxAdvancedImgFilter } from './filters';
+
+// creates pixel data from a list of rgba pixels laid out in a single row
+function createImageData(pixels: number[][]): ImageData {
+  const imageData: ImageData = new ImageData(pixels.length, 1);
+
+  pixels.forEach((pixel: number[], i: number) => imageData.data.set(pixel, i * 4));
+
+  return imageData;
+}
+
+function getPixels(imageData: ImageData): number[][] {
+  const pixels: number[][] = [];
+
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    pixels.push(Array.from(imageData.data.subarray(i, i + 4)));
+  }
+
+  return pixels;
+}
+
+describe('NgxAdvancedImgFilter', () => {
+  describe('isActive', () => {
+    it('should only report filters that change an image', () => {
+      expect(NgxAdvancedImgFilter.isActive(undefined)).toBeFalse();
+      expect(NgxAdvancedImgFilter.isActive({})).toBeFalse();
+      expect(NgxAdvancedImgFilter.isActive({ brightness: 0, contrast: 0, gamma: 1, saturation: 0 })).toBeFalse();
+      expect(NgxAdvancedImgFilter.isActive({ sharpen: { amount: 0 } })).toBeFalse();
+      expect(NgxAdvancedImgFilter.isActive({ gamma: 2 })).toBeTrue();
+      expect(NgxAdvancedImgFilter.isActive({ sepia: true })).toBeTrue();
+      expect(NgxAdvancedImgFilter.isActive({ sharpen: {} })).toBeTrue();
+      expect(NgxAdvancedImgFilter.isActive({ autoLevels: { clip: 0.01 } })).toBeTrue();
+    });
+  });
+
+  describe('apply', () => {
+    it('should leave an image untouched without any active filter', () => {
+      const pixels: number[][] = [
+        [0, 64, 128, 255],
+        [200, 100, 50, 128],
+      ];
+
+      expect(getPixels(NgxAdvancedImgFilter.apply(createImageData(pixels), {}))).toEqual(pixels);
+    });
+
+    it('should adjust brightness, contrast and gamma without touching alpha', () => {
+      const brightened: number[][] = getPixels(
+        NgxAdvancedImgFilter.apply(createImageData([[0, 0, 0, 100]]), { brightness: 0.5 })
+      );
+      const contrasted: number[][] = getPixels(
+        NgxAdvancedImgFilter.apply(
+          createImageData([
+            [96, 96, 96, 255],
+            [160, 160, 160, 255],
+          ]),
+          { contrast: 0.5 }
+        )
+      );
+      const corrected: number[][] = getPixels(
+        NgxAdvancedImgFilter.apply(createImageData([[64, 64, 64, 255]]), { gamma: 2 })
+      );
+
+      expect(brightened).toEqual([[128, 128, 128, 100]]);
+      expect(contrasted[0][0]).toBe(65);
+      expect(contrasted[1][0]).toBe(193);
+      expect(corrected[0][0]).toBe(128);
+    });
+
+    it('should stretch every channel to the full range with auto-levels, ignoring transparent pixels', () => {
+      const leveled: number[][] = getPixels(
+        NgxAdvancedImgFilter.apply(
+          createImageData([
+            [50, 50, 50, 255],
+            [125, 125, 125, 255],
+            [200, 200, 200, 255],
+            [0, 255, 0, 0],
+          ]),
+          { autoLevels: true }
+        )
+      );
+
+      expect(leveled[0]).toEqual([0, 0, 0, 255]);
+      expect(leveled[1]).toEqual([128, 128, 128, 255]);
+      expect(leveled[2]).toEqual([255, 255, 255, 255]);
+    });
+
+    it('should remove color with grayscale or no saturation and tint with sepia', () => {
+      const red: number[][] = [[255, 0, 0, 255]];
+
+      expect(getPixels(NgxAdvancedImgFilter.apply(createImageData(red), { grayscale: true }))).toEqual([
+        [54, 54, 54, 255],
+      ]);
+      expect(getPixels(NgxAdvancedImgFilter.apply(createImageData(red), { saturation: -1 }))).toEqual([
+        [54, 54, 54, 255],
+      ]);
+      expect(getPixels(NgxAdvancedImgFilter.apply(createImageData([[255, 255, 255, 255]]), { sepia: true }))).toEqual([
+        [255, 255, 239, 255],
+      ]);
+    });
+
+    it('should sharpen edges while leaving flat areas and differences below the threshold untouched', () => {
+      const edge: number[][] = [
+        [100, 100, 100, 255],
+        [100, 100, 100, 255],
+        [100, 100, 100, 255],
+        [150, 150, 150, 255],
+        [150, 150, 150, 255],
+        [150, 150, 150, 255],
+      ];
+      const sharpened: number[][] = getPixels(
+        NgxAdvancedImgFilter.apply(createImageData(edge), { sharpen: { amount: 1, radius: 0.5 } })
+      );
+      const thresholded: number[][] = getPixels(
+        NgxAdvancedImgFilter.apply(createImageData(edge), { sharpen: { amount: 1, radius: 0.5, threshold: 100 } })
+      );
+
+      expect(sharpened[0][0]).toBe(100);
+      expect(sharpened[2][0]).toBeLessThan(100);
+      expect(sharpened[3][0]).toBeGreaterThan(150);
+      expect(sharpened[5][0]).toBe(150);
+      expect(sharpened[3][3]).toBe(255);
+      expect(thresholded).toEqual(edge);
+    });
+  });
+});
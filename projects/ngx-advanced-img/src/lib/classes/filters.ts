@@ -0,0 +1,259 @@
+/**
+ * Describes the pixel filters to run on an image after it is resized and before it is encoded. The filters are
+ * applied in order: auto-levels, brightness, contrast, gamma, saturation, grayscale or sepia, and finally sharpening.
+ */
+export interface INgxAdvancedImgFilters {
+  autoLevels?: boolean | { clip?: number | undefined } | undefined; // stretches every channel to the full range, ignoring the clipped fraction (0.005 by default) of the darkest and brightest pixels
+  brightness?: number | undefined; // from -1 to 1, 0 by default
+  contrast?: number | undefined; // from -1 to 1, 0 by default
+  gamma?: number | undefined; // greater than 0, values above 1 brighten the midtones, 1 by default
+  saturation?: number | undefined; // from -1 (grayscale) to 1, 0 by default
+  grayscale?: boolean | undefined;
+  sepia?: boolean | undefined;
+  sharpen?: INgxAdvancedImgSharpen | undefined;
+}
+
+/**
+ * Describes an unsharp mask, which adds the difference between the image and a blurred copy of it back to the image.
+ */
+export interface INgxAdvancedImgSharpen {
+  amount?: number | undefined; // the strength of the sharpening, 0.5 by default
+  radius?: number | undefined; // the radius of the blur in pixels, 1 by default
+  threshold?: number | undefined; // the smallest difference (0 to 255) that is sharpened, which keeps noise and smooth gradients untouched, 0 by default
+}
+
+/**
+ * Runs pixel filters on image data. Only pixel data is used, so the filters work in web workers as well.
+ */
+export class NgxAdvancedImgFilter {
+  private static DEFAULT_CLIP = 0.005;
+  private static DEFAULT_AMOUNT = 0.5;
+  private static DEFAULT_RADIUS = 1;
+
+  /**
+   * Determines whether any of the given filters would change an image.
+   *
+   * @param filters The filters to inspect.
+   */
+  public static isActive(filters: INgxAdvancedImgFilters | undefined): boolean {
+    return (
+      !!filters &&
+      (!!filters.autoLevels ||
+        !!filters.brightness ||
+        !!filters.contrast ||
+        (NgxAdvancedImgFilter.isValid(filters.gamma) && filters.gamma !== 1) ||
+        !!filters.saturation ||
+        !!filters.grayscale ||
+        !!filters.sepia ||
+        (!!filters.sharpen && filters.sharpen.amount !== 0))
+    );
+  }
+
+  /**
+   * Runs the given filters on image data in place.
+   *
+   * @param imageData The image data to filter.
+   * @param filters The filters to run.
+   */
+  public static apply(imageData: ImageData, filters: INgxAdvancedImgFilters): ImageData {
+    const data: Uint8ClampedArray = imageData.data;
+    const tables: Uint8ClampedArray[] = NgxAdvancedImgFilter.getToneTables(data, filters);
+    const saturation: number = NgxAdvancedImgFilter.isValid(filters.saturation)
+      ? Math.max(-1, Math.min(1, filters.saturation as number))
+      : 0;
+
+    for (let i = 0; i < data.length; i += 4) {
+      let r: number = tables[0][data[i]];
+      let g: number = tables[1][data[i + 1]];
+      let b: number = tables[2][data[i + 2]];
+
+      if (saturation || filters.grayscale || filters.sepia) {
+        const luminance: number = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+        if (filters.grayscale) {
+          r = g = b = luminance;
+        } else if (saturation) {
+          r = luminance + (r - luminance) * (1 + saturation);
+          g = luminance + (g - luminance) * (1 + saturation);
+          b = luminance + (b - luminance) * (1 + saturation);
+        }
+
+        if (filters.sepia) {
+          const red: number = r;
+          const green: number = g;
+          const blue: number = b;
+
+          r = 0.393 * red + 0.769 * green + 0.189 * blue;
+          g = 0.349 * red + 0.686 * green + 0.168 * blue;
+          b = 0.272 * red + 0.534 * green + 0.131 * blue;
+        }
+      }
+
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+
+    if (filters.sharpen && filters.sharpen.amount !== 0) {
+      NgxAdvancedImgFilter.sharpen(imageData, filters.sharpen);
+    }
+
+    return imageData;
+  }
+
+  /**
+   * Combines auto-levels, brightness, contrast and gamma into a lookup table for each color channel.
+   */
+  private static getToneTables(data: Uint8ClampedArray, filters: INgxAdvancedImgFilters): Uint8ClampedArray[] {
+    const levels: [number, number][] = filters.autoLevels
+      ? NgxAdvancedImgFilter.getLevels(
+          data,
+          typeof filters.autoLevels === 'object' && NgxAdvancedImgFilter.isValid(filters.autoLevels.clip)
+            ? Math.max(0, Math.min(0.5, filters.autoLevels.clip as number))
+            : NgxAdvancedImgFilter.DEFAULT_CLIP
+        )
+      : [
+          [0, 255],
+          [0, 255],
+          [0, 255],
+        ];
+    const brightness: number = NgxAdvancedImgFilter.isValid(filters.brightness)
+      ? Math.max(-1, Math.min(1, filters.brightness as number))
+      : 0;
+    const contrast: number = NgxAdvancedImgFilter.isValid(filters.contrast)
+      ? Math.max(-1, Math.min(1, filters.contrast as number))
+      : 0;
+    const gamma: number =
+      NgxAdvancedImgFilter.isValid(filters.gamma) && (filters.gamma as number) > 0 ? (filters.gamma as number) : 1;
+
+    return levels.map(([low, high]: [number, number]) => {
+      const table: Uint8ClampedArray = new Uint8ClampedArray(256);
+
+      for (let i = 0; i < 256; i++) {
+        let value: number = high > low ? (i - low) / (high - low) : i / 255;
+
+        value = Math.max(0, Math.min(1, value)) + brightness;
+        value = (value - 0.5) * (contrast < 0 ? 1 + contrast : 1 / (1 - Math.min(0.99, contrast))) + 0.5;
+        value = Math.pow(Math.max(0, Math.min(1, value)), 1 / gamma);
+
+        table[i] = Math.round(value * 255);
+      }
+
+      return table;
+    });
+  }
+
+  /**
+   * Finds the darkest and brightest value of each color channel from its histogram, ignoring the given fraction of
+   * pixels at either end. Fully transparent pixels are not counted.
+   */
+  private static getLevels(data: Uint8ClampedArray, clip: number): [number, number][] {
+    const histograms: Uint32Array[] = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+    let total = 0;
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3]) {
+        histograms[0][data[i]]++;
+        histograms[1][data[i + 1]]++;
+        histograms[2][data[i + 2]]++;
+        total++;
+      }
+    }
+
+    const clipped: number = Math.floor(total * clip);
+
+    return histograms.map((histogram: Uint32Array) => {
+      let low = 0;
+      let high = 255;
+
+      for (let count = 0; low < 255 && count + histogram[low] <= clipped; low++) {
+        count += histogram[low];
+      }
+
+      for (let count = 0; high > 0 && count + histogram[high] <= clipped; high--) {
+        count += histogram[high];
+      }
+
+      return (high > low ? [low, high] : [0, 255]) as [number, number];
+    });
+  }
+
+  /**
+   * Sharpens image data in place with an unsharp mask, using a separable gaussian blur.
+   */
+  private static sharpen(imageData: ImageData, sharpen: INgxAdvancedImgSharpen): void {
+    const { width, height, data } = imageData;
+    const amount: number = NgxAdvancedImgFilter.isValid(sharpen.amount)
+      ? (sharpen.amount as number)
+      : NgxAdvancedImgFilter.DEFAULT_AMOUNT;
+    const radius: number =
+      NgxAdvancedImgFilter.isValid(sharpen.radius) && (sharpen.radius as number) > 0
+        ? (sharpen.radius as number)
+        : NgxAdvancedImgFilter.DEFAULT_RADIUS;
+    const threshold: number = NgxAdvancedImgFilter.isValid(sharpen.threshold)
+      ? Math.max(0, sharpen.threshold as number)
+      : 0;
+    const kernel: Float32Array = NgxAdvancedImgFilter.getGaussianKernel(radius);
+    const reach: number = (kernel.length - 1) / 2;
+    const horizontal: Float32Array = new Float32Array(width * height * 3);
+    const blurred: Float32Array = new Float32Array(width * height * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const target: number = (y * width + x) * 3;
+
+        for (let k = 0; k < kernel.length; k++) {
+          const index: number = (y * width + Math.max(0, Math.min(width - 1, x + k - reach))) * 4;
+
+          horizontal[target] += data[index] * kernel[k];
+          horizontal[target + 1] += data[index + 1] * kernel[k];
+          horizontal[target + 2] += data[index + 2] * kernel[k];
+        }
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const target: number = (y * width + x) * 3;
+
+        for (let k = 0; k < kernel.length; k++) {
+          const index: number = (Math.max(0, Math.min(height - 1, y + k - reach)) * width + x) * 3;
+
+          blurred[target] += horizontal[index] * kernel[k];
+          blurred[target + 1] += horizontal[index + 1] * kernel[k];
+          blurred[target + 2] += horizontal[index + 2] * kernel[k];
+        }
+      }
+    }
+
+    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+      for (let c = 0; c < 3; c++) {
+        const difference: number = data[i + c] - blurred[j + c];
+
+        if (Math.abs(difference) >= threshold) {
+          data[i + c] = data[i + c] + difference * amount;
+        }
+      }
+    }
+  }
+
+  /**
+   * Computes a normalized gaussian kernel that reaches three standard deviations out from its center.
+   */
+  private static getGaussianKernel(radius: number): Float32Array {
+    const reach: number = Math.max(1, Math.ceil(radius * 3));
+    const kernel: Float32Array = new Float32Array(reach * 2 + 1);
+    let total = 0;
+
+    for (let i = -reach; i <= reach; i++) {
+      kernel[i + reach] = Math.exp(-(i * i) / (2 * radius * radius));
+      total += kernel[i + reach];
+    }
+
+    return kernel.map((weight: number) => weight / total);
+  }
+
+  private static isValid(value: unknown): boolean {
+    return typeof value === 'number' && isFinite(value);
+  }
+}
@@ -0,0 +1,114 @@
+import { INgxAdvancedImgRedactionReport } from './exif-redactor';
+import { NgxAdvancedImgHeicConversionPool } from './heic-conversion-pool';
+import { INgxAdvancedImgHeicConversion, NgxAdvancedImgHeicConverter } from './heic-converter';
+import { INgxAdvancedImgWorkerRequest } from './worker-pool';
+
+/**
+ * A worker that answers requests with the listener of the conversion pool in the same thread, recording the data
+ * that is transferred to it and back.
+ */
+class FakeWorker {
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onerror: ((event: ErrorEvent) => void) | null = null;
+  public received: Transferable[] = [];
+  public returned: Transferable[] = [];
+  public terminated = false;
+  private listeners: ((event: MessageEvent) => void)[] = [];
+
+  public constructor() {
+    NgxAdvancedImgHeicConversionPool.listen({
+      addEventListener: (_type: 'message', listener: (event: MessageEvent) => void) => this.listeners.push(listener),
+      postMessage: (message: unknown, transfer: Transferable[] = []) => {
+        this.returned.push(...transfer);
+        setTimeout(() => this.onmessage?.({ data: message } as MessageEvent));
+      },
+    });
+  }
+
+  public postMessage(request: INgxAdvancedImgWorkerRequest, transfer: Transferable[] = []): void {
+    this.received.push(...transfer);
+    setTimeout(() =>
+      this.listeners.forEach((listener: (event: MessageEvent) => void) => listener({ data: request } as MessageEvent))
+    );
+  }
+
+  public terminate(): void {
+    this.terminated = true;
+  }
+}
+
+describe('NgxAdvancedImgHeicConversionPool', () => {
+  const src: Blob = new Blob([new Uint8Array([1, 2, 3, 4])], { type: 'image/heic' });
+  const redaction: INgxAdvancedImgRedactionReport = { removed: ['SerialNumber'], coarsened: ['latitude'] };
+  let workers: FakeWorker[];
+  let pool: NgxAdvancedImgHeicConversionPool;
+  let convertBuffer: jasmine.Spy;
+
+  beforeEach(() => {
+    workers = [];
+    pool = new NgxAdvancedImgHeicConversionPool(() => {
+      const worker: FakeWorker = new FakeWorker();
+      workers.push(worker);
+
+      return worker as unknown as Worker;
+    });
+    convertBuffer = spyOn(NgxAdvancedImgHeicConverter, 'convertBuffer').and.callFake(
+      async (_buffer: ArrayBuffer, mimeType?: string): Promise<INgxAdvancedImgHeicConversion> => ({
+        blob: new Blob(['converted'], { type: mimeType }),
+        exifData: { Make: 'Apple' },
+        redaction,
+      })
+    );
+  });
+
+  afterEach(() => {
+    pool.terminate();
+  });
+
+  describe('convert', () => {
+    it('should transfer the source data to a worker and the converted data back', async () => {
+      const conversion: INgxAdvancedImgHeicConversion = await pool.convert(src);
+      const [buffer] = convertBuffer.calls.mostRecent().args as [ArrayBuffer];
+
+      expect(pool.usesWorkers).toBeTrue();
+      expect(new Uint8Array(buffer)).toEqual(new Uint8Array([1, 2, 3, 4]));
+      expect(workers[0].received).toEqual([buffer]);
+      expect(workers[0].returned.length).toBe(1);
+      expect((workers[0].returned[0] as ArrayBuffer).byteLength).toBe(9);
+      expect(conversion.blob.type).toBe('image/jpeg');
+      expect(await conversion.blob.text()).toBe('converted');
+      expect(conversion.exifData).toEqual({ Make: 'Apple' });
+    });
+
+    it('should forward the redaction policy and image index and return the redaction report', async () => {
+      const conversion: INgxAdvancedImgHeicConversion = await pool.convert(
+        src,
+        'image/png',
+        undefined,
+        { gps: 'coarsen', tags: ['Artist'] },
+        2
+      );
+
+      expect(convertBuffer).toHaveBeenCalledWith(
+        jasmine.any(ArrayBuffer),
+        'image/png',
+        jasmine.any(AbortSignal),
+        { gps: 'coarsen', tags: ['Artist'] },
+        2
+      );
+      expect(conversion.blob.type).toBe('image/png');
+      expect(conversion.redaction).toEqual(redaction);
+    });
+
+    it('should convert on the main thread without a worker factory', async () => {
+      const conversion = {} as INgxAdvancedImgHeicConversion;
+      const convert: jasmine.Spy = spyOn(NgxAdvancedImgHeicConverter, 'convert').and.resolveTo(conversion);
+      const mainThread: NgxAdvancedImgHeicConversionPool = new NgxAdvancedImgHeicConversionPool();
+
+      expect(mainThread.usesWorkers).toBeFalse();
+      expect(await mainThread.convert(src, 'image/jpeg', undefined, { gps: 'remove' }, 1)).toBe(conversion);
+      expect(convert).toHaveBeenCalledWith(src, 'image/jpeg', undefined, { gps: 'remove' }, 1);
+      expect(convertBuffer).not.toHaveBeenCalled();
+    });
+  });
+});
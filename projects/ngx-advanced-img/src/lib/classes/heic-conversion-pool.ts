@@ -0,0 +1,132 @@
+import { INgxAdvancedImgRedactionPolicy, INgxAdvancedImgRedactionReport } from './exif-redactor';
+import { INgxAdvancedImgHeicConversion, NgxAdvancedImgHeicConverter } from './heic-converter';
+import { INgxAdvancedImgWorkerResult, INgxAdvancedImgWorkerScope, NgxAdvancedImgWorkerPool } from './worker-pool';
+
+/**
+ * The message a HEIC conversion pool sends to its workers. The buffer is transferred rather than copied.
+ */
+export interface INgxAdvancedImgHeicWorkerRequest {
+  buffer: ArrayBuffer;
+  mimeType: string;
+  redaction?: INgxAdvancedImgRedactionPolicy | undefined;
+  index?: number | undefined;
+}
+
+/**
+ * The message a HEIC conversion worker sends back to its pool. The buffer is transferred rather than copied.
+ */
+export interface INgxAdvancedImgHeicWorkerResponse {
+  buffer: ArrayBuffer;
+  mimeType: string;
+  exifData: Record<string, unknown> | undefined;
+  redaction?: INgxAdvancedImgRedactionReport | undefined;
+}
+
+/**
+ * Converts HEIC images on a pool of web workers that are kept alive between conversions, so that libheif only
+ * has to be initialized once per worker rather than once per image. When workers are unavailable, or no worker
+ * factory is given, conversions run on the main thread with `NgxAdvancedImgHeicConverter.convert`.
+ *
+ * The worker script that the factory creates only needs to call `NgxAdvancedImgHeicConversionPool.listen()`.
+ */
+export class NgxAdvancedImgHeicConversionPool {
+  public static REQUEST_TYPE = 'heic-convert';
+
+  private pool: NgxAdvancedImgWorkerPool | undefined;
+
+  /**
+   * Whether or not conversions are performed within web workers.
+   */
+  public get usesWorkers(): boolean {
+    return !!this.pool && !this.pool.terminated;
+  }
+
+  /**
+   * @param factory A function that creates a new worker whose script calls `NgxAdvancedImgHeicConversionPool.listen()`.
+   * @param size The maximum number of workers that will be created.
+   */
+  public constructor(factory?: () => Worker, size?: number) {
+    if (factory && NgxAdvancedImgWorkerPool.isSupported()) {
+      this.pool = new NgxAdvancedImgWorkerPool(factory, size);
+    }
+  }
+
+  /**
+   * Answers HEIC conversion requests from within a worker script.
+   *
+   * @param scope The worker global scope to listen on, `self` by default.
+   */
+  public static listen(scope?: INgxAdvancedImgWorkerScope): void {
+    NgxAdvancedImgWorkerPool.listen(
+      NgxAdvancedImgHeicConversionPool.REQUEST_TYPE,
+      async (request: INgxAdvancedImgHeicWorkerRequest, signal: AbortSignal): Promise<INgxAdvancedImgWorkerResult> => {
+        const conversion: INgxAdvancedImgHeicConversion = await NgxAdvancedImgHeicConverter.convertBuffer(
+          request.buffer,
+          request.mimeType,
+          signal,
+          request.redaction,
+          request.index
+        );
+        const buffer: ArrayBuffer = await conversion.blob.arrayBuffer();
+
+        return {
+          result: {
+            buffer,
+            mimeType: conversion.blob.type,
+            exifData: conversion.exifData,
+            redaction: conversion.redaction,
+          } as INgxAdvancedImgHeicWorkerResponse,
+          transfer: [buffer],
+        };
+      },
+      scope
+    );
+  }
+
+  /**
+   * Converts a Blob containing HEIC data to a Blob of the given mimetype.
+   *
+   * @param src The HEIC data to convert.
+   * @param mimeType The mimetype of the resulting blob.
+   * @param signal An optional signal that cancels the conversion and rejects with an NgxAdvancedImgAbortError.
+   * @param redaction An optional policy for privacy sensitive exif data to remove from the result.
+   * @param index The index of the image to convert, as listed by `NgxAdvancedImgHeicConverter.listImages`, the primary image by default.
+   */
+  public async convert(
+    src: Blob,
+    mimeType = 'image/jpeg',
+    signal?: AbortSignal,
+    redaction?: INgxAdvancedImgRedactionPolicy,
+    index?: number
+  ): Promise<INgxAdvancedImgHeicConversion> {
+    if (!this.pool || this.pool.terminated) {
+      return NgxAdvancedImgHeicConverter.convert(src, mimeType, signal, redaction, index);
+    }
+
+    // if no valid source, then reject the load
+    if (!src) {
+      return Promise.reject(new Error('No valid source provided'));
+    }
+
+    const buffer: ArrayBuffer = await src.arrayBuffer();
+    const response: INgxAdvancedImgHeicWorkerResponse = await this.pool.request<INgxAdvancedImgHeicWorkerResponse>(
+      NgxAdvancedImgHeicConversionPool.REQUEST_TYPE,
+      { buffer, mimeType, redaction, index } as INgxAdvancedImgHeicWorkerRequest,
+      [buffer],
+      signal
+    );
+
+    return {
+      exifData: response.exifData,
+      blob: new Blob([response.buffer], { type: response.mimeType }),
+      redaction: response.redaction,
+    };
+  }
+
+  /**
+   * Terminates all workers. Any later conversions are performed on the main thread.
+   */
+  public terminate(): void {
+    this.pool?.terminate();
+  }
+}
@@ -0,0 +1,113 @@
+import libheif from 'libheif-js/wasm-bundle';
+
+import { NgxAdvancedImgHeicConverter } from './heic-converter';
+
+function u16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function u32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function ascii(value: string): number[] {
+  return Array.from(value, (character: string) => character.charCodeAt(0));
+}
+
+function box(type: string, ...payload: number[][]): number[] {
+  const content: number[] = payload.flat();
+
+  return [...u32(8 + content.length), ...ascii(type), ...content];
+}
+
+function fullBox(type: string, version: number, ...payload: number[][]): number[] {
+  return box(type, [version, 0, 0, 0], ...payload);
+}
+
+// a HEIC container whose primary image, and optionally a thumbnail of it, hold a placeholder HEVC slice that
+// libheif can parse the structure of but cannot decode
+function createHeif(thumbnail: boolean): Uint8Array {
+  const items: number[] = thumbnail ? [1, 2] : [1];
+  const slice: number[] = [...u32(5), 0x26, 0x01, 0xaf, 0x00, 0x00];
+  const hvcC: number[] = [1, 1, 0x60, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x5a, 0xf0, 0, 0xfc, 0xfd, 0xf8, 0xf8, 0, 0, 0x0f, 0];
+  const ftyp: number[] = box('ftyp', ascii('heic'), u32(0), ascii('mif1heic'));
+  const meta = (offset: number): number[] =>
+    fullBox(
+      'meta',
+      0,
+      fullBox('hdlr', 0, u32(0), ascii('pict'), new Array(13).fill(0)),
+      fullBox('pitm', 0, u16(1)),
+      fullBox(
+        'iloc',
+        0,
+        [0x44, 0x00],
+        u16(items.length),
+        ...items.map((item: number, i: number) => [
+          ...u16(item),
+          ...u16(0),
+          ...u16(1),
+          ...u32(offset + i * slice.length),
+          ...u32(slice.length),
+        ])
+      ),
+      fullBox(
+        'iinf',
+        0,
+        u16(items.length),
+        ...items.map((item: number) => fullBox('infe', 2, u16(item), u16(0), ascii('hvc1\0')))
+      ),
+      thumbnail ? fullBox('iref', 0, box('thmb', u16(2), u16(1), u16(1))) : [],
+      box(
+        'iprp',
+        box('ipco', box('hvcC', hvcC), fullBox('ispe', 0, u32(640), u32(480)), fullBox('ispe', 0, u32(96), u32(72))),
+        fullBox('ipma', 0, u32(items.length), [...u16(1), 2, 0x81, 0x02], thumbnail ? [...u16(2), 2, 0x81, 0x03] : [])
+      )
+    );
+  const mdat: number[] = box('mdat', ...items.map(() => slice));
+
+  return new Uint8Array([...ftyp, ...meta(ftyp.length + meta(0).length + 8), ...mdat]);
+}
+
+describe('NgxAdvancedImgHeicConverter', () => {
+  describe('convertBuffer', () => {
+    it('should reject with the decoding error without leaving the exif parsing unhandled', async () => {
+      spyOn(NgxAdvancedImgHeicConverter, 'decodeHeic').and.rejectWith(new Error('Unable to decode'));
+
+      // the data is no image at all, so reading its exif data fails as well
+      await expectAsync(NgxAdvancedImgHeicConverter.convertBuffer(new ArrayBuffer(16))).toBeRejectedWithError(
+        'Unable to decode'
+      );
+
+      // give any unhandled rejection the chance to be reported against this spec
+      await new Promise(resolve => setTimeout(resolve));
+    });
+  });
+
+  describe('decodeThumbnail', () => {
+    it('should return null when the primary image has no thumbnail', () => {
+      expect(NgxAdvancedImgHeicConverter.decodeThumbnail(createHeif(false))).toBeNull();
+    });
+
+    it('should report data that is not HEIC as a libheif error', () => {
+      expect(() => NgxAdvancedImgHeicConverter.decodeThumbnail(new Uint8Array(64))).toThrowError(/^ERR_LIBHEIF/);
+    });
+
+    it('should report a thumbnail that cannot be decoded as a libheif error', () => {
+      expect(() => NgxAdvancedImgHeicConverter.decodeThumbnail(createHeif(true))).toThrowError(/^ERR_LIBHEIF/);
+    });
+
+    it('should release every allocation whether or not the thumbnail could be read', () => {
+      const malloc = spyOn(libheif, '_malloc').and.callThrough();
+      const free = spyOn(libheif, '_free').and.callThrough();
+
+      NgxAdvancedImgHeicConverter.decodeThumbnail(createHeif(false));
+      expect(() => NgxAdvancedImgHeicConverter.decodeThumbnail(createHeif(true))).toThrow();
+
+      const allocated: number[] = malloc.calls.all().map(call => call.returnValue);
+      const freed: number[] = free.calls.allArgs().map(([pointer]) => pointer);
+
+      expect(allocated.length).toBeGreaterThan(0);
+      expect(freed.sort()).toEqual(allocated.sort());
+    });
+  });
+});
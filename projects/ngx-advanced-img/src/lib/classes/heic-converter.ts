@@ -2,13 +2,32 @@ import * as exif from 'exifr';
 // @ts-ignore
 import libheif from 'libheif-js/wasm-bundle';
 
+import { NgxAdvancedImgAbortError } from './abort-error';
+import {
+  INgxAdvancedImgRedaction,
+  INgxAdvancedImgRedactionPolicy,
+  INgxAdvancedImgRedactionReport,
+  NgxAdvancedImgExifRedactor,
+} from './exif-redactor';
+import { NgxAdvancedImgHeifAbi } from './heif-abi';
+
 export interface INgxAdvancedImgHeicConversion {
 	exifData: any;
 	blob: Blob;
+	redaction?: INgxAdvancedImgRedactionReport | undefined;
 }
 
-export class NgxAdvancedImgHeicConverter {
+/**
+ * This interface describes a single image within a HEIF container, such as a burst shot or the still of a Live Photo.
+ */
+export interface INgxAdvancedImgHeicImage {
+  index: number; // the position of the image within the container, which selects it for decoding
+  width: number;
+  height: number;
+  primary: boolean; // whether this is the image that should be displayed by default, e.g. the edited version
+}
 
+export class NgxAdvancedImgHeicConverter {
   /**
    * Converts the result of a libheif-js HEIC decoding into an ImageData object.
    * Based on a helper function used in the heic2any library.
@@ -70,74 +89,322 @@ export class NgxAdvancedImgHeicConverter {
     });
   }
 
+  /**
+   * Describes the result of a conversion, redacting its exif data if a policy is given.
+   * @param blob The converted image data
+   * @param exifData The exif data of the original HEIC data
+   * @param redaction An optional policy for privacy sensitive exif data to remove
+   * @returns 
+   */
+  public static createConversion(
+    blob: Blob,
+    exifData: any,
+    redaction?: INgxAdvancedImgRedactionPolicy
+  ): INgxAdvancedImgHeicConversion {
+    if (!redaction) {
+      return {
+        exifData,
+        blob
+      };
+    }
+
+    const result: INgxAdvancedImgRedaction = NgxAdvancedImgExifRedactor.redact(exifData, redaction);
+
+    return {
+      exifData: result.exifData,
+      blob,
+      redaction: result.report
+    };
+  }
+
+  /**
+   * Lists the valid images within a buffer containing HEIC data without decoding any of them.
+   * @param buffer The HEIC file data
+   * @returns The images in the order of the container, corrupt images are left out
+   */
+  public static listImages(buffer: Uint8Array): INgxAdvancedImgHeicImage[] {
+    return NgxAdvancedImgHeicConverter.readImages(buffer).map(({ image, index }) => ({
+      index,
+      width: image.get_width(),
+      height: image.get_height(),
+      primary: NgxAdvancedImgHeicConverter.isPrimary(image),
+    }));
+  }
+
   /**
    * Decodes a buffer containing HEIC data into an ImageData object using the libheif-js WebAssembly bundle.
    * @param buffer 
+   * @param index The index of the image to decode, as listed by listImages, the primary image by default
    * @returns ImageData object containg raw pixel data
    */
-	public static async decodeHeic(buffer: Uint8Array): Promise<ImageData> {
+	public static async decodeHeic(buffer: Uint8Array, index?: number): Promise<ImageData> {
+    const images: { image: libheif.DecodeResult; index: number }[] = NgxAdvancedImgHeicConverter.readImages(buffer);
+
+    if (typeof index === 'number') {
+      const selected = images.find((entry) => entry.index === index);
+
+      if (!selected) {
+        return Promise.reject(new Error(`ERR_LIBHEIF Heic doesn't contain a valid image at index ${index}`));
+      }
+
+      return NgxAdvancedImgHeicConverter.processSingleImage(selected.image);
+    }
+
+    // the primary image isn't necessarily the first, edited photos for example keep the original image first
+    const primary = images.find((entry) => NgxAdvancedImgHeicConverter.isPrimary(entry.image)) || images[0];
+
+    return NgxAdvancedImgHeicConverter.processSingleImage(primary.image);
+	}
+
+  /**
+   * Decodes every valid image within a buffer containing HEIC data, such as all frames of a burst.
+   * @param buffer The HEIC file data
+   * @returns ImageData objects in the order of the container, along with the image each was decoded from
+   */
+  public static async decodeHeicFrames(buffer: Uint8Array): Promise<{ image: INgxAdvancedImgHeicImage; imageData: ImageData }[]> {
+    const frames: { image: INgxAdvancedImgHeicImage; imageData: ImageData }[] = [];
+
+    // decode one after another, since every decoded frame holds its full resolution pixels
+    for (const { image, index } of NgxAdvancedImgHeicConverter.readImages(buffer)) {
+      frames.push({
+        image: { index, width: image.get_width(), height: image.get_height(), primary: NgxAdvancedImgHeicConverter.isPrimary(image) },
+        imageData: await NgxAdvancedImgHeicConverter.processSingleImage(image),
+      });
+    }
+
+    return frames;
+  }
+
+  /**
+   * Reads the images within a buffer containing HEIC data, leaving out any that are corrupt.
+   * @param buffer The HEIC file data
+   * @returns The valid images along with their index within the container
+   */
+  private static readImages(buffer: Uint8Array): { image: libheif.DecodeResult; index: number }[] {
 		const decoder = new libheif.HeifDecoder();
-		let imagesArr = decoder.decode(buffer);
+		const imagesArr = decoder.decode(buffer);
 		
     if (!imagesArr || !imagesArr.length) {
-			return Promise.reject(new Error("ERR_LIBHEIF format not supported"));
+			throw new Error("ERR_LIBHEIF format not supported");
 		}
 
-		imagesArr = imagesArr.filter((x: libheif.DecodeResult) => {
-			let valid = true;
-			try {
-        /*
-        sometimes the heic container is valid
-        yet the images themselves are corrupt
-        */
-        x.get_height();
-			} catch (e) {
-			  valid = false;
-			}
-			
-      return valid;
-		});
+		const images = imagesArr
+      .map((image: libheif.DecodeResult, index: number) => ({ image, index }))
+      .filter(({ image }: { image: libheif.DecodeResult }) => {
+        let valid = true;
+        try {
+          /*
+          sometimes the heic container is valid
+          yet the images themselves are corrupt
+          */
+          image.get_height();
+        } catch (e) {
+          valid = false;
+        }
+        
+        return valid;
+      });
 
-		if (!imagesArr.length) {
-			return Promise.reject(new Error("ERR_LIBHEIF Heic doesn't contain valid images"));
+		if (!images.length) {
+			throw new Error("ERR_LIBHEIF Heic doesn't contain valid images");
 		}
-	
-		// use the first frame if heic contains multiple images
-		return NgxAdvancedImgHeicConverter.processSingleImage(imagesArr[0]);
-	}
+
+    return images;
+  }
+
+  /**
+   * Determines whether an image is the primary image of its container. The is_primary method of libheif-js refers
+   * to a function outside of its module, so the module's own binding is used instead.
+   * @param image DecodeResult object from libheif-js
+   */
+  private static isPrimary(image: libheif.DecodeResult): boolean {
+    return !!libheif.heif_image_handle_is_primary_image(image.handle);
+  }
+
+  /**
+   * Decodes the largest thumbnail embedded alongside the primary image of HEIC data, which is far faster than
+   * decoding the image itself. The JavaScript bindings of libheif-js do not expose thumbnails, so the C API of the
+   * WebAssembly module is used directly.
+   * @param buffer The HEIC file data
+   * @returns ImageData object containg the thumbnail, or null if there is none
+   */
+  public static decodeThumbnail(buffer: Uint8Array): ImageData | null {
+    const abi: NgxAdvancedImgHeifAbi = new NgxAdvancedImgHeifAbi('reading the thumbnail');
+    const context: number = libheif._heif_context_alloc();
+    const handles: number[] = [];
+    let image = 0;
+
+    try {
+      const data: number = abi.copy(buffer);
+
+      abi.call((error: number) => libheif._heif_context_read_from_memory_without_copy(error, context, data, buffer.byteLength, 0));
+      handles.push(abi.call((error: number, handle: number) => libheif._heif_context_get_primary_image_handle(error, context, handle)));
+
+      const count: number = libheif._heif_image_handle_get_number_of_thumbnails(handles[0]);
+
+      if (!count) {
+        return null;
+      }
+
+      const ids: number = abi.malloc(count * 4);
+      let thumbnail = 0;
+
+      libheif._heif_image_handle_get_list_of_thumbnail_IDs(handles[0], ids, count);
+
+      for (let i = 0; i < count; i++) {
+        const handle: number = abi.call((error: number, result: number) =>
+          libheif._heif_image_handle_get_thumbnail(error, handles[0], abi.read(ids, i), result)
+        );
+
+        handles.push(handle);
+
+        if (!thumbnail || libheif._heif_image_handle_get_width(handle) > libheif._heif_image_handle_get_width(thumbnail)) {
+          thumbnail = handle;
+        }
+      }
+
+      image = abi.call((error: number, result: number) => libheif._heif_decode_image(
+        error,
+        thumbnail,
+        result,
+        libheif.heif_colorspace.heif_colorspace_RGB.value,
+        libheif.heif_chroma.heif_chroma_interleaved_RGBA.value,
+        0
+      ));
+
+      const channel: number = libheif.heif_channel.heif_channel_interleaved.value;
+      const width: number = libheif._heif_image_get_width(image, channel);
+      const height: number = libheif._heif_image_get_height(image, channel);
+      const stridePointer: number = abi.malloc(4);
+      const plane: number = libheif._heif_image_get_plane_readonly(image, channel, stridePointer);
+      const stride: number = abi.read(stridePointer);
+
+      if (!plane || width <= 0 || height <= 0) {
+        throw new Error('ERR_LIBHEIF Thumbnail could not be decoded');
+      }
+
+      const imageData: ImageData = new ImageData(width, height);
+
+      for (let row = 0; row < height; row++) {
+        imageData.data.set(abi.view(plane + row * stride, width * 4), row * width * 4);
+      }
+
+      return imageData;
+    } finally {
+      if (image) {
+        libheif._heif_image_release(image);
+      }
+
+      handles.forEach((handle: number) => libheif._heif_image_handle_release(handle));
+      libheif._heif_context_free(context);
+      abi.free();
+    }
+  }
+
+  /**
+   * Converts a buffer containing HEIC data to a Blob of the given mimetype without using a FileReader
+   * or any DOM APIs, so that it may be called in a Web Worker.
+   * @param buffer The HEIC file data
+   * @param mimeType The mimetype of the resulting blob
+   * @param signal An optional signal that cancels the conversion and rejects with an NgxAdvancedImgAbortError
+   * @param redaction An optional policy for privacy sensitive exif data to remove from the result
+   * @param index The index of the image to convert, as listed by listImages, the primary image by default
+   * @returns 
+   */
+  public static async convertBuffer(
+    buffer: ArrayBuffer,
+    mimeType: string = 'image/jpeg',
+    signal?: AbortSignal,
+    redaction?: INgxAdvancedImgRedactionPolicy,
+    index?: number
+  ): Promise<INgxAdvancedImgHeicConversion> {
+    NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+    // begin parsing of exif data before loss during conversion, unreadable exif data leaves the result without any
+    const exifPromise = exif.parse(buffer, true).catch(() => undefined);
+
+    try {
+      const imageData = await NgxAdvancedImgHeicConverter.decodeHeic(new Uint8Array(buffer), index);
+
+      // decoding cannot be interrupted, so skip the encode if we were cancelled in the meantime
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+      const blob = await NgxAdvancedImgHeicConverter.imageDataToBlobOffscreen(imageData, mimeType, .92);
+
+      const exifData = await exifPromise;
+
+      NgxAdvancedImgAbortError.throwIfAborted(signal);
+
+      return NgxAdvancedImgHeicConverter.createConversion(blob, exifData, redaction);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error; // Return the original error directly
+      }
+
+      throw new Error(`Failed to convert HEIC to ${mimeType}. Original error: ${JSON.stringify(error)}`);
+    }
+  }
 
   /**
    * Converts a Blob containing HEIC data to a Blob containing JPEG data
    * using the libheif-js WebAssembly bundle.
    * @param src 
+   * @param mimeType The mimetype of the resulting blob
+   * @param signal An optional signal that cancels the conversion and rejects with an NgxAdvancedImgAbortError
+   * @param redaction An optional policy for privacy sensitive exif data to remove from the result
+   * @param index The index of the image to convert, as listed by listImages, the primary image by default
    * @returns 
    */
-	public static async convert(src: Blob, mimeType: string = 'image/jpeg'): Promise<INgxAdvancedImgHeicConversion> {
+	public static async convert(
+    src: Blob,
+    mimeType: string = 'image/jpeg',
+    signal?: AbortSignal,
+    redaction?: INgxAdvancedImgRedactionPolicy,
+    index?: number
+  ): Promise<INgxAdvancedImgHeicConversion> {
 		// if no valid source, then reject the load
 		if (!src) {
 			return Promise.reject(new Error('No valid source provided'));
 		}
+
+    if (signal?.aborted) {
+      return Promise.reject(new NgxAdvancedImgAbortError());
+    }
+
+    let onabort: (() => void) | undefined;
 		
-		return new Promise((resolve, reject) => {
-      // begin parsing of exif data before loss during conversion
-      const exifPromise = exif.parse(src, true);
+		return new Promise<INgxAdvancedImgHeicConversion>((resolve, reject) => {
+      // begin parsing of exif data before loss during conversion, unreadable exif data leaves the result without any
+      const exifPromise = exif.parse(src, true).catch(() => undefined);
 
 			const fileReader: FileReader = new FileReader();
 
+      // stop reading the file and reject right away when cancelled
+      onabort = () => {
+        fileReader.onload = fileReader.onerror = null;
+        fileReader.abort();
+
+        reject(new NgxAdvancedImgAbortError());
+      };
+
+      signal?.addEventListener('abort', onabort, { once: true });
+
 			fileReader.onload = async (event: Event) => {
         try {
           const buffer: Uint8Array = new Uint8Array((event.target as any).result);
 
-          const imageData = await NgxAdvancedImgHeicConverter.decodeHeic(buffer);
+          const imageData = await NgxAdvancedImgHeicConverter.decodeHeic(buffer, index);
+
+          // decoding cannot be interrupted, so skip the encode if we were cancelled in the meantime
+          NgxAdvancedImgAbortError.throwIfAborted(signal);
           
           const blob = await NgxAdvancedImgHeicConverter.imageDataToBlobOffscreen(imageData, mimeType, .92);
   
           const exifData = await exifPromise;
+
+          NgxAdvancedImgAbortError.throwIfAborted(signal);
   
-          resolve({
-            exifData,
-            blob
-          });
+          resolve(NgxAdvancedImgHeicConverter.createConversion(blob, exifData, redaction));
         } catch (error) {
           if (error instanceof Error) {
             reject(error); // Return the original error directly
@@ -154,6 +421,10 @@ export class NgxAdvancedImgHeicConverter {
 	
 			// load the file data array buffer once we have the blob
 			fileReader.readAsArrayBuffer(src);
-		});
+		}).finally(() => {
+      if (onabort) {
+        signal?.removeEventListener('abort', onabort);
+      }
+    });
 	}
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import libheif from 'libheif-js/wasm-bundle';
+
+/**
+ * Calls into the C API of the libheif-js WebAssembly module, which its JavaScript bindings only partly expose.
+ * Every block of memory it allocates is tracked, so that a single call to free releases all of them.
+ */
+export class NgxAdvancedImgHeifAbi {
+  private static HEIF_ERROR_SIZE = 12; // the code, subcode and message pointer of a heif_error
+  private static POINTER_SIZE = 4;
+
+  private allocations: number[];
+  private errorPointer: number;
+  private resultPointer: number;
+
+  /**
+   * @param action A description of what the calls do, which is included in their errors.
+   */
+  public constructor(private action: string) {
+    this.allocations = [];
+    this.errorPointer = this.malloc(NgxAdvancedImgHeifAbi.HEIF_ERROR_SIZE);
+    this.resultPointer = this.malloc(NgxAdvancedImgHeifAbi.POINTER_SIZE);
+  }
+
+  /**
+   * Allocates memory within the module that is released by free.
+   *
+   * @param size The number of bytes to allocate.
+   */
+  public malloc(size: number): number {
+    const pointer: number = libheif._malloc(size);
+
+    if (!pointer) {
+      throw new Error(`ERR_LIBHEIF Out of memory while ${this.action}`);
+    }
+
+    this.allocations.push(pointer);
+
+    return pointer;
+  }
+
+  /**
+   * Copies data into newly allocated memory within the module, returning its address.
+   *
+   * @param data The data to copy.
+   */
+  public copy(data: Uint8Array): number {
+    const pointer: number = this.malloc(data.byteLength);
+
+    libheif.HEAPU8.set(data, pointer);
+
+    return pointer;
+  }
+
+  /**
+   * Reads an unsigned 32 bit value, such as a pointer or an id, from an array in the memory of the module.
+   *
+   * @param pointer The address of the array.
+   * @param index The index of the value within the array.
+   */
+  public read(pointer: number, index = 0): number {
+    return libheif.HEAPU32[(pointer >> 2) + index];
+  }
+
+  /**
+   * Returns a view of the memory of the module, which is only valid until the memory of the module grows.
+   *
+   * @param pointer The address of the data.
+   * @param length The number of bytes to view.
+   */
+  public view(pointer: number, length: number): Uint8Array {
+    return libheif.HEAPU8.subarray(pointer, pointer + length);
+  }
+
+  /**
+   * Calls a libheif function that returns its heif_error through the pointer passed as its first argument and any
+   * result through the pointer passed as its last, throwing if the call failed. Returns the result.
+   *
+   * @param fn Calls the libheif function with the error and result pointers.
+   */
+  public call(fn: (error: number, result: number) => void): number {
+    fn(this.errorPointer, this.resultPointer);
+
+    const code: number = libheif.HEAP32[this.errorPointer >> 2];
+
+    if (code !== 0) {
+      throw new Error(
+        `ERR_LIBHEIF Error code ${code} (${libheif.HEAP32[(this.errorPointer >> 2) + 1]}) while ${this.action}`
+      );
+    }
+
+    return this.read(this.resultPointer);
+  }
+
+  /**
+   * Releases all memory allocated through this instance.
+   */
+  public free(): void {
+    this.allocations.forEach((pointer: number) => libheif._free(pointer));
+    this.allocations = [];
+  }
+}
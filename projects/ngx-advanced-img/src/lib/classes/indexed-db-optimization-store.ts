@@ -0,0 +1,177 @@
+import {
+  INgxAdvancedImgOptimizationCacheEntry,
+  INgxAdvancedImgOptimizationCacheRecord,
+  INgxAdvancedImgOptimizationStore,
+} from './optimization-cache';
+
+/**
+ * Keeps cached optimizations in IndexedDB so that they persist across page loads. The entries are kept apart from
+ * the records so that listing them for eviction does not read any blob.
+ */
+export class NgxAdvancedImgIndexedDbOptimizationStore implements INgxAdvancedImgOptimizationStore {
+  private static DB_VERSION = 1;
+  private static RECORDS = 'records';
+  private static ENTRIES = 'entries';
+
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | undefined;
+
+  /**
+   * @param databaseName The name of the database, 'ngx-advanced-img-optimizations' by default.
+   */
+  public constructor(databaseName = 'ngx-advanced-img-optimizations') {
+    this.databaseName = databaseName;
+  }
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async get(key: string): Promise<INgxAdvancedImgOptimizationCacheRecord | undefined> {
+    const transaction: IDBTransaction = await this.transaction(
+      [NgxAdvancedImgIndexedDbOptimizationStore.RECORDS],
+      'readonly'
+    );
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.request<INgxAdvancedImgOptimizationCacheRecord | undefined>(
+      transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.RECORDS).get(key)
+    );
+  }
+
+  public async put(record: INgxAdvancedImgOptimizationCacheRecord): Promise<void> {
+    const { key, version, size, usedAt } = record;
+    const transaction: IDBTransaction = await this.transaction(
+      [NgxAdvancedImgIndexedDbOptimizationStore.RECORDS, NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES],
+      'readwrite'
+    );
+
+    transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.RECORDS).put(record);
+    transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES).put({ key, version, size, usedAt });
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.complete(transaction);
+  }
+
+  public async touch(key: string, usedAt: number): Promise<void> {
+    const transaction: IDBTransaction = await this.transaction(
+      [NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES],
+      'readwrite'
+    );
+    const entries: IDBObjectStore = transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES);
+    const entry: INgxAdvancedImgOptimizationCacheEntry | undefined =
+      await NgxAdvancedImgIndexedDbOptimizationStore.request<INgxAdvancedImgOptimizationCacheEntry | undefined>(
+        entries.get(key)
+      );
+
+    // only the entry is updated, since the recency of a record is never read
+    if (entry) {
+      entries.put({ ...entry, usedAt });
+    }
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.complete(transaction);
+  }
+
+  public async delete(keys: string[]): Promise<void> {
+    const transaction: IDBTransaction = await this.transaction(
+      [NgxAdvancedImgIndexedDbOptimizationStore.RECORDS, NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES],
+      'readwrite'
+    );
+
+    for (const key of keys) {
+      transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.RECORDS).delete(key);
+      transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES).delete(key);
+    }
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.complete(transaction);
+  }
+
+  public async entries(): Promise<INgxAdvancedImgOptimizationCacheEntry[]> {
+    const transaction: IDBTransaction = await this.transaction(
+      [NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES],
+      'readonly'
+    );
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.request<INgxAdvancedImgOptimizationCacheEntry[]>(
+      transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES).getAll()
+    );
+  }
+
+  public async clear(): Promise<void> {
+    const transaction: IDBTransaction = await this.transaction(
+      [NgxAdvancedImgIndexedDbOptimizationStore.RECORDS, NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES],
+      'readwrite'
+    );
+
+    transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.RECORDS).clear();
+    transaction.objectStore(NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES).clear();
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.complete(transaction);
+  }
+
+  /**
+   * Closes the database, which is opened again by the next operation.
+   */
+  public async close(): Promise<void> {
+    const database: Promise<IDBDatabase> | undefined = this.database;
+
+    this.database = undefined;
+    (await database)?.close();
+  }
+
+  private async transaction(stores: string[], mode: IDBTransactionMode): Promise<IDBTransaction> {
+    if (!this.database) {
+      this.database = this.open().catch((error: unknown) => {
+        // let the next operation try again
+        this.database = undefined;
+
+        return Promise.reject(error);
+      });
+    }
+
+    return (await this.database).transaction(stores, mode);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    const request: IDBOpenDBRequest = indexedDB.open(
+      this.databaseName,
+      NgxAdvancedImgIndexedDbOptimizationStore.DB_VERSION
+    );
+
+    request.onupgradeneeded = () => {
+      const database: IDBDatabase = request.result;
+
+      for (const name of [
+        NgxAdvancedImgIndexedDbOptimizationStore.RECORDS,
+        NgxAdvancedImgIndexedDbOptimizationStore.ENTRIES,
+      ]) {
+        if (!database.objectStoreNames.contains(name)) {
+          database.createObjectStore(name, { keyPath: 'key' });
+        }
+      }
+    };
+
+    return NgxAdvancedImgIndexedDbOptimizationStore.request<IDBDatabase>(request).then((database: IDBDatabase) => {
+      // give way to other tabs that upgrade the database
+      database.onversionchange = () => {
+        database.close();
+        this.database = undefined;
+      };
+
+      return database;
+    });
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('The transaction was aborted'));
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { NgxAdvancedImgJxon } from './jxon';
+import { INgxAdvancedImgXmlBackend, NgxAdvancedImgXmlBackend } from './xml-backend';
+
+// the browser DOM can only be tested where it is available
+const backends: INgxAdvancedImgXmlBackend[] = NgxAdvancedImgXmlBackend.isDomAvailable()
+  ? [NgxAdvancedImgXmlBackend.DOM, NgxAdvancedImgXmlBackend.XMLDOM]
+  : [NgxAdvancedImgXmlBackend.XMLDOM];
+
+describe('NgxAdvancedImgJxon', () => {
+  const xml = '<root a="1"><item>one</item><item id="2">two</item><empty/><![CDATA[x<y]]></root>';
+
+  describe('constructor', () => {
+    it('should use the default backend when not given one', () => {
+      const parse = spyOn(NgxAdvancedImgXmlBackend.XMLDOM, 'parse').and.callThrough();
+
+      NgxAdvancedImgXmlBackend.setDefault(NgxAdvancedImgXmlBackend.XMLDOM);
+
+      try {
+        new NgxAdvancedImgJxon().stringToXml('<root/>');
+      } finally {
+        NgxAdvancedImgXmlBackend.setDefault(undefined);
+      }
+
+      expect(parse).toHaveBeenCalledWith('<root/>');
+    });
+  });
+
+  for (const backend of backends) {
+    describe(backend.name, () => {
+      let jxon: NgxAdvancedImgJxon;
+
+      beforeEach(() => {
+        jxon = new NgxAdvancedImgJxon(backend);
+      });
+
+      describe('stringToJs', () => {
+        it('should convert elements, repeated elements, attributes and text', () => {
+          expect(jxon.stringToJs(xml)).toEqual({
+            root: { item: ['one', { $id: '2', _: 'two' }], empty: '', $a: '1', _: 'x<y' },
+          });
+        });
+
+        it('should parse values and lowercase names when configured to', () => {
+          jxon.config({ parseValues: true, lowerCaseTags: true });
+
+          expect(jxon.stringToJs('<Root Size="2"><N>1.5</N><B>TRUE</B><S>x</S></Root>')).toEqual({
+            root: { n: 1.5, b: true, s: 'x', $size: 2 },
+          });
+        });
+      });
+
+      describe('xmlToJs', () => {
+        it('should nest values and attributes at higher verbosity', () => {
+          const parsed: Document = jxon.stringToXml(xml);
+
+          expect(jxon.xmlToJs(parsed, 2)).toEqual({
+            root: { item: [{ _: 'one' }, { $id: '2', _: 'two' }], empty: {}, $a: '1', _: 'x<y' },
+          });
+          expect(jxon.xmlToJs(parsed, 3).root).toEqual({
+            item: [{ _: 'one' }, { $: { id: '2' }, _: 'two' }],
+            empty: { _: '' },
+            $: { a: '1' },
+            _: 'x<y',
+          });
+        });
+      });
+
+      describe('jsToString', () => {
+        it('should convert objects back into XML, leaving out undefined values', () => {
+          expect(
+            jxon.jsToString({ root: { $a: 1, item: ['one', { $id: 2, _: 'two' }], empty: null, skipped: undefined } })
+          ).toBe('<root a="1"><item>one</item><item id="2">two</item><empty/></root>');
+        });
+
+        it('should create the root element in the given namespace', () => {
+          // backends differ in where they put the namespace declaration, so the markup is compared once parsed
+          const root: Element = jxon.stringToXml(
+            jxon.jsToString({ $version: '1.1', rect: { $width: 1 } }, 'http://www.w3.org/2000/svg', 'svg')
+          ).documentElement;
+          const rect: Element = root.firstChild as Element;
+
+          expect(root.namespaceURI).toBe('http://www.w3.org/2000/svg');
+          expect(root.localName).toBe('svg');
+          expect(root.getAttribute('version')).toBe('1.1');
+          expect(rect.namespaceURI).toBe('http://www.w3.org/2000/svg');
+          expect(rect.getAttribute('width')).toBe('1');
+        });
+
+        it('should round trip what it converted', () => {
+          const markup = '<root a="1"><item>one</item><item id="2">two</item></root>';
+
+          expect(jxon.jsToString(jxon.stringToJs(markup))).toBe(markup);
+        });
+      });
+
+      describe('xmlToString', () => {
+        it('should prefer the markup a document already carries', () => {
+          const parsed = jxon.stringToXml('<root/>') as XMLDocument & { xml?: string };
+
+          parsed.xml = '<other/>';
+
+          expect(jxon.xmlToString(parsed)).toBe('<other/>');
+        });
+      });
+    });
+  }
+});
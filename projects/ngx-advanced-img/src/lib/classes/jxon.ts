@@ -2,9 +2,8 @@
 /* eslint-disable @typescript-eslint/no-unsafe-return */
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 /* eslint-disable guard-for-in */
-import { DOMImplementation, DOMParser, DocumentType, XMLSerializer } from '@xmldom/xmldom';
-
 import { NgxAdvancedImgEmptyTree } from './empty-tree';
+import { INgxAdvancedImgXmlBackend, NgxAdvancedImgXmlBackend } from './xml-backend';
 
 interface IXMLObj extends XMLDocument {
   xml?: string;
@@ -13,6 +12,9 @@ interface IXMLObj extends XMLDocument {
 /**
  * A simple TypeScript port of jxon, a bi-directional lossless XML/JSON converter library. This has
  * been packaged in order to provide the latest security updates in accordance with the use of @xmldom/xmldom.
+ *
+ * XML is parsed, built and serialized by a pluggable backend, which is the browser DOM where it is available and
+ * @xmldom/xmldom where it isn't, such as within Web Workers and server side rendering.
  */
 export class NgxAdvancedImgJxon {
   private opts: any = {
@@ -28,7 +30,14 @@ export class NgxAdvancedImgJxon {
   private aCache: HTMLElement[] = [];
   private rIsNull = /^\s*$/;
   private rIsBool = /^(?:true|false)$/i;
-  private parser: DOMParser = new DOMParser();
+  private backend: INgxAdvancedImgXmlBackend;
+
+  /**
+   * @param backend The XML backend to use, NgxAdvancedImgXmlBackend.getDefault() by default.
+   */
+  public constructor(backend?: INgxAdvancedImgXmlBackend) {
+    this.backend = backend || NgxAdvancedImgXmlBackend.getDefault();
+  }
 
   public config(cfg: any) {
     for (const k in cfg) {
@@ -62,22 +71,17 @@ export class NgxAdvancedImgJxon {
     sQualifiedName?: string,
     oDocumentType?: DocumentType | null | undefined
   ): XMLDocument {
-    const documentImplementation: DOMImplementation = new DOMImplementation();
-    const oNewDoc = documentImplementation.createDocument(
+    const oNewDoc: XMLDocument = this.backend.createDocument(
       sNamespaceURI || null,
       sQualifiedName || '',
-      oDocumentType as DocumentType | null | undefined
-    ) as unknown as XMLDocument;
+      oDocumentType
+    );
     this.loadObjTree(oNewDoc, oNewDoc.documentElement || oNewDoc, oObjTree);
     return oNewDoc;
   }
 
   public stringToXml(xmlStr: string): Document {
-    if (!this.parser) {
-      this.parser = new DOMParser();
-    }
-
-    return this.parser.parseFromString(xmlStr, 'application/xml') as unknown as Document;
+    return this.backend.parse(xmlStr);
   }
 
   public xmlToString(xmlObj: IXMLObj): string {
@@ -85,7 +89,7 @@ export class NgxAdvancedImgJxon {
       return xmlObj.xml;
     } else {
       try {
-        return new XMLSerializer().serializeToString(xmlObj as any);
+        return this.backend.serialize(xmlObj);
       } catch (e) {
         try {
           return xmlObj.toString();
@@ -151,7 +155,11 @@ export class NgxAdvancedImgJxon {
     const ELEMENT = 1;
     const nLevelStart: number = this.aCache.length;
     const bChildren: boolean = oParentNode.hasChildNodes();
-    const bAttributes: boolean = oParentNode.nodeType === oParentNode.ELEMENT_NODE && oParentNode.hasAttributes();
+    // @xmldom/xmldom elements have no hasAttributes(), so check the attributes of elements on every backend
+    const bAttributes: boolean =
+      oParentNode.nodeType === oParentNode.ELEMENT_NODE &&
+      !!oParentNode.attributes &&
+      oParentNode.attributes.length > 0;
     const bHighVerb = Boolean(nVerb & 2);
     let nLength = 0;
     let sCollectedTxt = '';
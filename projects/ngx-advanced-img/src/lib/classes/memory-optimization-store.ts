@@ -0,0 +1,45 @@
+import {
+  INgxAdvancedImgOptimizationCacheEntry,
+  INgxAdvancedImgOptimizationCacheRecord,
+  INgxAdvancedImgOptimizationStore,
+} from './optimization-cache';
+
+/**
+ * Keeps cached optimizations in memory for as long as the store exists. It stands in for the IndexedDB store where
+ * IndexedDB is unavailable, such as within tests and server side rendering.
+ */
+export class NgxAdvancedImgMemoryOptimizationStore implements INgxAdvancedImgOptimizationStore {
+  private records: Map<string, INgxAdvancedImgOptimizationCacheRecord>;
+
+  public constructor() {
+    this.records = new Map<string, INgxAdvancedImgOptimizationCacheRecord>();
+  }
+
+  public async get(key: string): Promise<INgxAdvancedImgOptimizationCacheRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  public async put(record: INgxAdvancedImgOptimizationCacheRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  public async touch(key: string, usedAt: number): Promise<void> {
+    const record: INgxAdvancedImgOptimizationCacheRecord | undefined = this.records.get(key);
+
+    if (record) {
+      record.usedAt = usedAt;
+    }
+  }
+
+  public async delete(keys: string[]): Promise<void> {
+    keys.forEach((key: string) => this.records.delete(key));
+  }
+
+  public async entries(): Promise<INgxAdvancedImgOptimizationCacheEntry[]> {
+    return Array.from(this.records.values()).map(({ key, version, size, usedAt }) => ({ key, version, size, usedAt }));
+  }
+
+  public async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,164 @@
+import { INgxAdvancedImgMimeTypeDetection, NgxAdvancedImgMimeSniffer } from './mime-sniffer';
+
+function ascii(value: string): number[] {
+  return Array.from(value, (character: string) => character.charCodeAt(0));
+}
+
+// pads the leading bytes of a file with zeros, so that signatures are not rejected for the data being too short
+function bytes(...leading: number[]): Uint8Array {
+  const buffer: Uint8Array = new Uint8Array(Math.max(64, leading.length));
+
+  buffer.set(leading);
+
+  return buffer;
+}
+
+// an ftyp box with the given major brand and compatible brands
+function ftyp(major: string, ...compatible: string[]): Uint8Array {
+  const size: number = 16 + compatible.length * 4;
+
+  return bytes(0, 0, 0, size, ...ascii('ftyp'), ...ascii(major), 0, 0, 0, 0, ...ascii(compatible.join('')));
+}
+
+// a bitmap file header followed by a DIB header of the given size
+function bmp(dibSize: number): Uint8Array {
+  return bytes(...ascii('BM'), 0, 0, 0, 0, 0, 0, 0, 0, 0x36, 0, 0, 0, dibSize, 0, 0, 0);
+}
+
+function sniffType(buffer: Uint8Array, declaredType = 'application/octet-stream'): string {
+  return NgxAdvancedImgMimeSniffer.sniff(buffer, declaredType).mimeType;
+}
+
+describe('NgxAdvancedImgMimeSniffer', () => {
+  describe('sniff', () => {
+    it('should recognize every signature', () => {
+      expect(sniffType(bytes(0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a))).toBe('image/png');
+      expect(sniffType(bytes(...ascii('GIF87a')))).toBe('image/gif');
+      expect(sniffType(bytes(...ascii('GIF89a')))).toBe('image/gif');
+      expect(sniffType(bytes(...ascii('RIFF'), 0x24, 0, 0, 0, ...ascii('WEBP')))).toBe('image/webp');
+      expect(sniffType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg');
+      expect(sniffType(bytes(0xff, 0xd8, 0xff, 0xdb))).toBe('image/jpeg');
+      expect(sniffType(bytes(0x49, 0x49, 0x2a, 0x00))).toBe('image/tiff');
+      expect(sniffType(bytes(0x4d, 0x4d, 0x00, 0x2a))).toBe('image/tiff');
+      expect(sniffType(bytes(0x49, 0x49, 0x2b, 0x00))).toBe('image/tiff');
+      expect(sniffType(bytes(0x4d, 0x4d, 0x00, 0x2b))).toBe('image/tiff');
+      expect(sniffType(bytes(0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 16, 16, 0, 0))).toBe('image/vnd.microsoft.icon');
+      expect(sniffType(bytes(0x00, 0x00, 0x02, 0x00, 0x01, 0x00, 32, 32, 0, 0))).toBe('image/x-win-bitmap');
+      expect(sniffType(bytes(0, 0, 0, 0x0c, ...ascii('JXL '), 0x0d, 0x0a, 0x87, 0x0a))).toBe('image/jxl');
+      expect(sniffType(bytes(0xff, 0x0a))).toBe('image/jxl');
+      expect(sniffType(bytes(...ascii('%PDF-1.7')))).toBe('application/pdf');
+      expect(sniffType(bytes(0x75, 0xab, 0x5a, 0x6a))).toBe('application/pdf');
+      expect(sniffType(bytes(0x45, 0xe7, 0x1e, 0x8a))).toBe('application/pdf');
+    });
+
+    it('should report how distinctive the recognized signature is', () => {
+      const png: INgxAdvancedImgMimeTypeDetection = NgxAdvancedImgMimeSniffer.sniff(
+        bytes(0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a),
+        'image/jpeg'
+      );
+
+      expect(png).toEqual({ mimeType: 'image/png', declaredType: 'image/jpeg', sniffed: true, confidence: 'high' });
+      expect(NgxAdvancedImgMimeSniffer.sniff(bmp(40), '').confidence).toBe('medium');
+    });
+
+    it('should reject a jpeg start of image that is not followed by a marker', () => {
+      expect(sniffType(bytes(0xff, 0xd8, 0xff, 0x00), 'text/plain')).toBe('text/plain');
+    });
+
+    it('should only recognize a bitmap by the size of a known DIB header', () => {
+      for (const size of [12, 16, 40, 52, 56, 64, 108, 124]) {
+        expect(sniffType(bmp(size))).toBe('image/bmp');
+      }
+
+      expect(sniffType(bmp(0), 'text/plain')).toBe('text/plain');
+      expect(sniffType(bmp(41), 'text/plain')).toBe('text/plain');
+      expect(sniffType(bytes(...ascii('BM, the text starts like a bitmap')), 'text/plain')).toBe('text/plain');
+    });
+
+    it('should reject an icon directory without images or with a malformed first entry', () => {
+      expect(sniffType(bytes(0x00, 0x00, 0x01, 0x00, 0x00, 0x00), 'text/plain')).toBe('text/plain');
+      expect(sniffType(bytes(0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 16, 16, 0, 1), 'text/plain')).toBe('text/plain');
+      expect(sniffType(new Uint8Array([0x00, 0x00, 0x01, 0x00, 0x01, 0x00]), 'text/plain')).toBe('text/plain');
+    });
+
+    it('should recognize every brand of an ISO base media file', () => {
+      expect(sniffType(ftyp('avif'))).toBe('image/avif');
+      expect(sniffType(ftyp('avis'))).toBe('image/avif');
+
+      for (const brand of ['heic', 'heix', 'heim', 'heis']) {
+        expect(sniffType(ftyp(brand))).toBe('image/heic');
+      }
+
+      for (const brand of ['hevc', 'hevx', 'hevm', 'hevs']) {
+        expect(sniffType(ftyp(brand))).toBe('image/heic-sequence');
+      }
+
+      expect(sniffType(ftyp('mif1'))).toBe('image/heif');
+      expect(sniffType(ftyp('msf1'))).toBe('image/heif-sequence');
+    });
+
+    it('should find brands among the compatible brands and prefer AVIF over the generic HEIF brands', () => {
+      expect(sniffType(ftyp('mif1', 'miaf', 'avif'))).toBe('image/avif');
+      expect(sniffType(ftyp('avif', 'mif1', 'miaf'))).toBe('image/avif');
+      expect(sniffType(ftyp('mif1', 'heic'))).toBe('image/heic');
+      expect(sniffType(ftyp('isom', 'mif1'))).toBe('image/heif');
+    });
+
+    it('should ignore brands past the end of the ftyp box and files of other brands', () => {
+      const truncated: Uint8Array = ftyp('mif1', 'avif');
+
+      truncated[3] = 16;
+
+      expect(sniffType(truncated)).toBe('image/heif');
+      expect(sniffType(ftyp('isom', 'mp41'), 'video/mp4')).toBe('video/mp4');
+    });
+
+    it('should recognize SVG markup after a byte order mark, an xml declaration, comments and a doctype', () => {
+      const markup: string[] = [
+        '<svg xmlns="http://www.w3.org/2000/svg"/>',
+        '  \n<SVG>',
+        '<?xml version="1.0" encoding="UTF-8"?>\n<svg>',
+        '<!-- created by hand -->\n<!-- <html> -->\n<svg>',
+        '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">\n<svg>',
+        '<?xml version="1.0"?>\n<!DOCTYPE svg [\n<!ENTITY color "red">\n]>\n<!-- icon -->\n<svg>',
+      ];
+
+      for (const text of markup) {
+        expect(sniffType(new Uint8Array(ascii(text)), 'text/plain')).toBe('image/svg+xml');
+        expect(sniffType(new Uint8Array([0xef, 0xbb, 0xbf, ...ascii(text)]), 'text/plain')).toBe('image/svg+xml');
+      }
+    });
+
+    it('should not recognize markup whose root element is not SVG', () => {
+      const markup: string[] = ['<html><svg></svg></html>', '<svgx>', 'text <svg>', '<!-- unterminated <svg>'];
+
+      for (const text of markup) {
+        expect(sniffType(new Uint8Array(ascii(text)), 'text/plain')).toBe('text/plain');
+      }
+    });
+
+    it('should fall back to the declared type for data it does not recognize', () => {
+      expect(NgxAdvancedImgMimeSniffer.sniff(new Uint8Array(ascii('plain text')), 'image/png')).toEqual({
+        mimeType: 'image/png',
+        declaredType: 'image/png',
+        sniffed: false,
+        confidence: 'low',
+      });
+      expect(NgxAdvancedImgMimeSniffer.sniff(new Uint8Array(0), '')).toEqual({
+        mimeType: '',
+        declaredType: '',
+        sniffed: false,
+        confidence: 'low',
+      });
+    });
+  });
+
+  describe('isHeif', () => {
+    it('should only accept the types libheif can decode', () => {
+      expect(NgxAdvancedImgMimeSniffer.isHeif('image/heic')).toBeTrue();
+      expect(NgxAdvancedImgMimeSniffer.isHeif('image/heif-sequence')).toBeTrue();
+      expect(NgxAdvancedImgMimeSniffer.isHeif('image/avif')).toBeFalse();
+      expect(NgxAdvancedImgMimeSniffer.isHeif('image/jpeg')).toBeFalse();
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * This interface describes the type of some file data, as recognized from its contents or as declared.
+ */
+export interface INgxAdvancedImgMimeTypeDetection {
+  mimeType: string;
+  declaredType: string; // the type the data was declared as, e.g. the type of its Blob
+  sniffed: boolean; // true when the type was recognized from the data, false when the declared type was used
+  confidence: 'high' | 'medium' | 'low'; // how distinctive the recognized signature is, 'low' when the declared type was used
+}
+
+interface INgxAdvancedImgSignature {
+  mimeType: string;
+  bytes: (number | null)[]; // the leading bytes of the data, null matches any byte
+  confidence: 'high' | 'medium';
+  test?: (buffer: Uint8Array) => boolean; // an additional check of the data
+}
+
+/**
+ * Recognizes the type of file data from its leading bytes. Signatures are matched from a table, ISO base media
+ * files (HEIF, AVIF) by the brands of their ftyp box, and SVG by sniffing the start of its markup.
+ */
+export class NgxAdvancedImgMimeSniffer {
+  public static HEIF_TYPES: string[] = ['image/heic', 'image/heic-sequence', 'image/heif', 'image/heif-sequence'];
+
+  private static SIGNATURES: INgxAdvancedImgSignature[] = [
+    { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], confidence: 'high' },
+    { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38, 0x37, 0x61], confidence: 'high' },
+    { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61], confidence: 'high' },
+    {
+      mimeType: 'image/webp',
+      bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+      confidence: 'high',
+    },
+    {
+      // any marker may follow the start of image, APP0 (JFIF) and APP1 (Exif) are merely the most common
+      mimeType: 'image/jpeg',
+      bytes: [0xff, 0xd8, 0xff],
+      confidence: 'high',
+      test: (buffer: Uint8Array) => buffer[3] >= 0xc0 && buffer[3] <= 0xfe,
+    },
+    {
+      // the size of the DIB header that follows the 14 byte file header tells actual bitmaps apart
+      mimeType: 'image/bmp',
+      bytes: [0x42, 0x4d],
+      confidence: 'medium',
+      test: (buffer: Uint8Array) =>
+        [12, 16, 40, 52, 56, 64, 108, 124].includes(NgxAdvancedImgMimeSniffer.readUint32LE(buffer, 14)),
+    },
+    { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00], confidence: 'high' },
+    { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a], confidence: 'high' },
+    { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2b, 0x00], confidence: 'high' }, // BigTIFF
+    { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2b], confidence: 'high' }, // BigTIFF
+    {
+      mimeType: 'image/vnd.microsoft.icon',
+      bytes: [0x00, 0x00, 0x01, 0x00],
+      confidence: 'medium',
+      test: (buffer: Uint8Array) => NgxAdvancedImgMimeSniffer.isIconDirectory(buffer),
+    },
+    {
+      mimeType: 'image/x-win-bitmap',
+      bytes: [0x00, 0x00, 0x02, 0x00],
+      confidence: 'medium',
+      test: (buffer: Uint8Array) => NgxAdvancedImgMimeSniffer.isIconDirectory(buffer),
+    },
+    {
+      mimeType: 'image/jxl',
+      bytes: [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a],
+      confidence: 'high',
+    },
+    { mimeType: 'image/jxl', bytes: [0xff, 0x0a], confidence: 'medium' }, // bare codestream
+    { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46], confidence: 'high' },
+    { mimeType: 'application/pdf', bytes: [0x75, 0xab, 0x5a, 0x6a], confidence: 'medium' },
+    { mimeType: 'application/pdf', bytes: [0x45, 0xe7, 0x1e, 0x8a], confidence: 'medium' },
+  ];
+
+  // the brands of ISO base media files in order of precedence, since AVIF files also list the generic HEIF brands
+  private static BRANDS: { brand: string; mimeType: string }[] = [
+    { brand: 'avif', mimeType: 'image/avif' },
+    { brand: 'avis', mimeType: 'image/avif' },
+    { brand: 'heic', mimeType: 'image/heic' },
+    { brand: 'heix', mimeType: 'image/heic' },
+    { brand: 'heim', mimeType: 'image/heic' },
+    { brand: 'heis', mimeType: 'image/heic' },
+    { brand: 'hevc', mimeType: 'image/heic-sequence' },
+    { brand: 'hevx', mimeType: 'image/heic-sequence' },
+    { brand: 'hevm', mimeType: 'image/heic-sequence' },
+    { brand: 'hevs', mimeType: 'image/heic-sequence' },
+    { brand: 'mif1', mimeType: 'image/heif' },
+    { brand: 'msf1', mimeType: 'image/heif-sequence' },
+  ];
+
+  private static SVG_SNIFF_LENGTH = 4096;
+
+  /**
+   * Recognizes the type of file data, falling back to the declared type if the data isn't recognized.
+   *
+   * @param buffer The file data, of which only the first few kilobytes are inspected.
+   * @param declaredType The type the data was declared as, e.g. the type of its Blob.
+   */
+  public static sniff(buffer: Uint8Array, declaredType: string): INgxAdvancedImgMimeTypeDetection {
+    const brand: string | null = NgxAdvancedImgMimeSniffer.sniffBrand(buffer);
+
+    if (brand) {
+      return { mimeType: brand, declaredType, sniffed: true, confidence: 'high' };
+    }
+
+    for (const signature of NgxAdvancedImgMimeSniffer.SIGNATURES) {
+      if (
+        buffer.length >= signature.bytes.length &&
+        signature.bytes.every((byte: number | null, i: number) => byte === null || buffer[i] === byte) &&
+        (!signature.test || signature.test(buffer))
+      ) {
+        return { mimeType: signature.mimeType, declaredType, sniffed: true, confidence: signature.confidence };
+      }
+    }
+
+    if (NgxAdvancedImgMimeSniffer.isSvg(buffer)) {
+      return { mimeType: 'image/svg+xml', declaredType, sniffed: true, confidence: 'medium' };
+    }
+
+    return { mimeType: declaredType, declaredType, sniffed: false, confidence: 'low' };
+  }
+
+  /**
+   * Determines whether a type is any kind of HEIF image that libheif can decode.
+   *
+   * @param mimeType The type to check.
+   */
+  public static isHeif(mimeType: string): boolean {
+    return NgxAdvancedImgMimeSniffer.HEIF_TYPES.includes(mimeType);
+  }
+
+  /**
+   * Recognizes ISO base media files by the major and compatible brands of their leading ftyp box.
+   */
+  private static sniffBrand(buffer: Uint8Array): string | null {
+    if (buffer.length < 16 || NgxAdvancedImgMimeSniffer.readString(buffer, 4, 4) !== 'ftyp') {
+      return null;
+    }
+
+    const size: number = Math.min(buffer.length, NgxAdvancedImgMimeSniffer.readUint32BE(buffer, 0));
+    const brands: string[] = [NgxAdvancedImgMimeSniffer.readString(buffer, 8, 4)];
+
+    // the minor version at 12 is followed by the compatible brands
+    for (let offset = 16; offset + 4 <= size; offset += 4) {
+      brands.push(NgxAdvancedImgMimeSniffer.readString(buffer, offset, 4));
+    }
+
+    const match: { brand: string; mimeType: string } | undefined = NgxAdvancedImgMimeSniffer.BRANDS.find(
+      (entry: { brand: string }) => brands.includes(entry.brand)
+    );
+
+    return match ? match.mimeType : null;
+  }
+
+  /**
+   * Sniffs whether data is SVG markup, allowing for a byte order mark, an xml declaration, comments and a doctype
+   * before the root element.
+   */
+  private static isSvg(buffer: Uint8Array): boolean {
+    const text: string = NgxAdvancedImgMimeSniffer.readString(
+      buffer,
+      0,
+      Math.min(buffer.length, NgxAdvancedImgMimeSniffer.SVG_SNIFF_LENGTH)
+    ).replace(/^\xef\xbb\xbf/, '');
+
+    return /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>\s*)*<svg[\s>/]/i.test(text);
+  }
+
+  /**
+   * Checks that an icon or cursor directory holds at least one image and that its first entry is sensible.
+   */
+  private static isIconDirectory(buffer: Uint8Array): boolean {
+    const count: number = buffer[4] | (buffer[5] << 8);
+
+    // the reserved byte of the first directory entry must be zero
+    return count > 0 && buffer.length >= 22 && buffer[9] === 0;
+  }
+
+  private static readString(buffer: Uint8Array, offset: number, length: number): string {
+    let value = '';
+
+    for (let i = offset; i < offset + length && i < buffer.length; i++) {
+      value += String.fromCharCode(buffer[i]);
+    }
+
+    return value;
+  }
+
+  private static readUint32BE(buffer: Uint8Array, offset: number): number {
+    return ((buffer[offset] << 24) | (buffer[offset + 1] << 16) | (buffer[offset + 2] << 8) | buffer[offset + 3]) >>> 0;
+  }
+
+  private static readUint32LE(buffer: Uint8Array, offset: number): number {
+    return (buffer[offset] | (buffer[offset + 1] << 8) | (buffer[offset + 2] << 16) | (buffer[offset + 3] << 24)) >>> 0;
+  }
+}
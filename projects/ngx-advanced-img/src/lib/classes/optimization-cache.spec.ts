@@ -0,0 +1,161 @@
+import { INgxAdvancedImgBitmapOptimization } from './bitmap';
+import { NgxAdvancedImgMemoryOptimizationStore } from './memory-optimization-store';
+import { NgxAdvancedImgOptimizationCache, NgxAdvancedImgOptimizer } from './optimization-cache';
+
+function createOptimization(size: number): INgxAdvancedImgBitmapOptimization {
+  return { blob: new Blob([new Uint8Array(size)], { type: 'image/webp' }) } as INgxAdvancedImgBitmapOptimization;
+}
+
+describe('NgxAdvancedImgOptimizationCache', () => {
+  const source: Blob = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' });
+  let store: NgxAdvancedImgMemoryOptimizationStore;
+
+  beforeEach(() => {
+    store = new NgxAdvancedImgMemoryOptimizationStore();
+  });
+
+  describe('getKey', () => {
+    it('should not depend on the order of the options or on options that are undefined', async () => {
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store });
+      const key: string = await cache.getKey(source, 'image/webp', 0.8, 1, undefined, {
+        sizeLimit: 1000,
+        transform: { rotate: 90, crop: { x: 0, y: 0, width: 10, height: 10 } },
+      });
+
+      expect(
+        await cache.getKey(source, 'image/webp', 0.8, 1, undefined, {
+          transform: { crop: { height: 10, width: 10, y: 0, x: 0 }, rotate: 90 },
+          mode: undefined,
+          sizeLimit: 1000,
+        })
+      ).toBe(key);
+      expect(
+        await cache.getKey(new Blob([new Uint8Array([1, 2, 3])]), 'image/webp', 0.8, 1, undefined, {
+          sizeLimit: 1000,
+          transform: { rotate: 90, crop: { x: 0, y: 0, width: 10, height: 10 } },
+        })
+      ).toBe(key);
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should differ for other data, arguments, options or versions', async () => {
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store });
+      const key: string = await cache.getKey(source, 'image/webp', 0.8, 1, undefined, { sizeLimit: 1000 });
+      const keys: string[] = await Promise.all([
+        cache.getKey(new Blob([new Uint8Array([1, 2, 4])]), 'image/webp', 0.8, 1, undefined, { sizeLimit: 1000 }),
+        cache.getKey(source, ['image/webp'], 0.8, 1, undefined, { sizeLimit: 1000 }),
+        cache.getKey(source, 'image/webp', 0.7, 1, undefined, { sizeLimit: 1000 }),
+        cache.getKey(source, 'image/webp', 0.8, 0.5, undefined, { sizeLimit: 1000 }),
+        cache.getKey(source, 'image/webp', 0.8, 1, 512, { sizeLimit: 1000 }),
+        cache.getKey(source, 'image/webp', 0.8, 1, undefined, { sizeLimit: 1001 }),
+        new NgxAdvancedImgOptimizationCache({ store, version: '2' }).getKey(source, 'image/webp', 0.8, 1, undefined, {
+          sizeLimit: 1000,
+        }),
+      ]);
+
+      expect(new Set([key, ...keys]).size).toBe(keys.length + 1);
+    });
+  });
+
+  describe('optimize', () => {
+    it('should only optimize the same data the same way once', async () => {
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store });
+      const optimization: INgxAdvancedImgBitmapOptimization = createOptimization(10);
+      const optimizer = jasmine.createSpy<NgxAdvancedImgOptimizer>('optimizer').and.resolveTo(optimization);
+
+      expect(await cache.optimize(source, 'image/webp', 0.8, 1, undefined, {}, undefined, optimizer)).toBe(
+        optimization
+      );
+      expect(await cache.optimize(source, 'image/webp', 0.8, 1, undefined, {}, undefined, optimizer)).toBe(
+        optimization
+      );
+      expect(optimizer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache optimizations that stamp a watermark image', async () => {
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store });
+      const optimizer = jasmine.createSpy<NgxAdvancedImgOptimizer>('optimizer').and.resolveTo(createOptimization(10));
+      const options = { watermark: { image: {} as ImageBitmap } };
+
+      await cache.optimize(source, 'image/webp', 0.8, 1, undefined, options, undefined, optimizer);
+      await cache.optimize(source, 'image/webp', 0.8, 1, undefined, options, undefined, optimizer);
+
+      expect(optimizer).toHaveBeenCalledTimes(2);
+      expect(await store.entries()).toEqual([]);
+    });
+
+    it('should optimize as if nothing was cached when the store fails', async () => {
+      spyOn(store, 'get').and.rejectWith(new Error('Unable to read'));
+      spyOn(store, 'put').and.rejectWith(new Error('Unable to write'));
+
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store });
+      const optimization: INgxAdvancedImgBitmapOptimization = createOptimization(10);
+      const optimizer = jasmine.createSpy<NgxAdvancedImgOptimizer>('optimizer').and.resolveTo(optimization);
+
+      expect(await cache.optimize(source, 'image/webp', 0.8, 1, undefined, {}, undefined, optimizer)).toBe(
+        optimization
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('should discard optimizations stored by another version', async () => {
+      await new NgxAdvancedImgOptimizationCache({ store, version: '1' }).put('key', createOptimization(10));
+
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store, version: '2' });
+
+      expect(await cache.get('key')).toBeUndefined();
+      expect(await store.get('key')).toBeUndefined();
+    });
+
+    it('should return optimizations stored by the same version', async () => {
+      const optimization: INgxAdvancedImgBitmapOptimization = createOptimization(10);
+
+      await new NgxAdvancedImgOptimizationCache({ store, version: '1' }).put('key', optimization);
+
+      expect(await new NgxAdvancedImgOptimizationCache({ store, version: '1' }).get('key')).toBe(optimization);
+    });
+  });
+
+  describe('put', () => {
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(2024, 0, 1));
+    });
+
+    afterEach(() => {
+      jasmine.clock().uninstall();
+    });
+
+    it('should remove the least recently used optimizations once the budget is exceeded', async () => {
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({ store, maxBytes: 25 });
+
+      await cache.put('a', createOptimization(10));
+      jasmine.clock().tick(1);
+      await cache.put('b', createOptimization(10));
+      jasmine.clock().tick(1);
+
+      // reading a makes b the least recently used
+      await cache.get('a');
+      jasmine.clock().tick(1);
+      await cache.put('c', createOptimization(10));
+
+      expect((await store.entries()).map(entry => entry.key).sort()).toEqual(['a', 'c']);
+    });
+
+    it('should remove optimizations of other versions and not cache optimizations that exceed the budget', async () => {
+      await new NgxAdvancedImgOptimizationCache({ store, version: '1' }).put('old', createOptimization(10));
+
+      const cache: NgxAdvancedImgOptimizationCache = new NgxAdvancedImgOptimizationCache({
+        store,
+        maxBytes: 25,
+        version: '2',
+      });
+
+      await cache.put('large', createOptimization(30));
+      await cache.put('new', createOptimization(10));
+
+      expect((await store.entries()).map(entry => entry.key)).toEqual(['new']);
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { INgxAdvancedImgBitmapOptimization, INgxAdvancedImgOptimizationOptions } from './bitmap';
+import { NgxAdvancedImgIndexedDbOptimizationStore } from './indexed-db-optimization-store';
+import { NgxAdvancedImgMemoryOptimizationStore } from './memory-optimization-store';
+import { NgxAdvancedImgOptimizationPool } from './optimization-pool';
+
+/**
+ * This interface describes a cached optimization without its data, so that a store can be evicted cheaply.
+ */
+export interface INgxAdvancedImgOptimizationCacheEntry {
+  key: string;
+  version: string; // the version of the cache that stored the optimization
+  size: number; // the size in bytes of the optimized blob
+  usedAt: number; // the time the optimization was last stored or read, in milliseconds since the epoch
+}
+
+/**
+ * This interface describes a cached optimization along with its data.
+ */
+export interface INgxAdvancedImgOptimizationCacheRecord extends INgxAdvancedImgOptimizationCacheEntry {
+  optimization: INgxAdvancedImgBitmapOptimization;
+}
+
+/**
+ * This interface describes where cached optimizations are kept.
+ */
+export interface INgxAdvancedImgOptimizationStore {
+  get(key: string): Promise<INgxAdvancedImgOptimizationCacheRecord | undefined>;
+  put(record: INgxAdvancedImgOptimizationCacheRecord): Promise<void>;
+  touch(key: string, usedAt: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  entries(): Promise<INgxAdvancedImgOptimizationCacheEntry[]>;
+  clear(): Promise<void>;
+}
+
+export interface INgxAdvancedImgOptimizationCacheOptions {
+  store?: INgxAdvancedImgOptimizationStore | undefined; // IndexedDB where it is available and memory otherwise by default
+  maxBytes?: number | undefined; // the total size in bytes of the cached blobs, 50 MB by default
+  version?: string | undefined; // an application version to invalidate results by along with the version of the library
+}
+
+/**
+ * The signature of NgxAdvancedImgOptimizationPool.optimize, which produces the optimizations that are not cached.
+ */
+export type NgxAdvancedImgOptimizer = (
+  blob: Blob,
+  type: string | string[],
+  quality: number,
+  resizeFactor: number,
+  maxDimension: number | undefined,
+  options: INgxAdvancedImgOptimizationOptions | undefined,
+  signal: AbortSignal | undefined
+) => Promise<INgxAdvancedImgBitmapOptimization>;
+
+/**
+ * Caches optimized outputs by the SHA-256 of their source data along with the arguments of the optimization, so
+ * that optimizing the same data the same way again, even after a reload, returns the previous result right away.
+ * The least recently used results are removed once the cached blobs exceed their size budget.
+ *
+ * Results are stored along with a version, and results of any other version are discarded rather than returned, so
+ * that they never outlive a change to the optimization algorithm.
+ */
+export class NgxAdvancedImgOptimizationCache {
+  public static VERSION = '1'; // increased whenever the output of an optimization changes
+
+  private static DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+  private store: INgxAdvancedImgOptimizationStore;
+  private maxBytes: number;
+  private version: string;
+
+  /**
+   * @param options The store, budget and version of the cache.
+   */
+  public constructor(options?: INgxAdvancedImgOptimizationCacheOptions) {
+    this.store =
+      options?.store ||
+      (NgxAdvancedImgIndexedDbOptimizationStore.isSupported()
+        ? new NgxAdvancedImgIndexedDbOptimizationStore()
+        : new NgxAdvancedImgMemoryOptimizationStore());
+    this.maxBytes =
+      typeof options?.maxBytes === 'number' && isFinite(options.maxBytes) && options.maxBytes > 0
+        ? options.maxBytes
+        : NgxAdvancedImgOptimizationCache.DEFAULT_MAX_BYTES;
+    this.version = `${NgxAdvancedImgOptimizationCache.VERSION}:${options?.version ?? ''}`;
+  }
+
+  /**
+   * Determines whether keys can be computed, which requires the Web Crypto API of a secure context.
+   */
+  public static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle && typeof TextEncoder !== 'undefined';
+  }
+
+  /**
+   * Determines whether an optimization can be cached. A watermark image has no data to key by, so optimizations
+   * that stamp one are never cached.
+   *
+   * @param options The optimization options.
+   */
+  public static isCacheable(options?: INgxAdvancedImgOptimizationOptions): boolean {
+    return !options?.watermark?.image;
+  }
+
+  /**
+   * Optimizes image data, returning the cached result of the same optimization when there is one.
+   *
+   * @param blob The image data to optimize.
+   * @param type The type of file output we would like to generate, 'auto' or a ranked list of types to pick the smallest from.
+   * @param quality The quality of the image optimization.
+   * @param resizeFactor The scaling factor to reduce the size of the image.
+   * @param maxDimension If provided, the maximum pixels allowed for x/y dimension in the size of the image.
+   * @param options The optimization options to use when we want to optimize the image to a specified byte size.
+   * @param signal An optional signal that cancels the optimization and rejects with an NgxAdvancedImgAbortError.
+   * @param optimizer What optimizes data that is not cached, such as an NgxAdvancedImgOptimizationPool. The data is
+   * optimized in the current thread by default.
+   */
+  public async optimize(
+    blob: Blob,
+    type: string | string[],
+    quality: number,
+    resizeFactor = 1,
+    maxDimension?: number | undefined,
+    options?: INgxAdvancedImgOptimizationOptions,
+    signal?: AbortSignal,
+    optimizer: NgxAdvancedImgOptimizer = NgxAdvancedImgOptimizationCache.optimizeBlob
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    if (!NgxAdvancedImgOptimizationCache.isSupported() || !NgxAdvancedImgOptimizationCache.isCacheable(options)) {
+      return optimizer(blob, type, quality, resizeFactor, maxDimension, options, signal);
+    }
+
+    const key: string = await this.getKey(blob, type, quality, resizeFactor, maxDimension, options);
+    // the cache only saves time, so a failing store is treated as an empty one
+    const cached: INgxAdvancedImgBitmapOptimization | undefined = await this.get(key).catch(() => undefined);
+
+    if (cached) {
+      return cached;
+    }
+
+    const optimization: INgxAdvancedImgBitmapOptimization = await optimizer(
+      blob,
+      type,
+      quality,
+      resizeFactor,
+      maxDimension,
+      options,
+      signal
+    );
+
+    await this.put(key, optimization).catch(() => undefined);
+
+    return optimization;
+  }
+
+  /**
+   * Computes the key of an optimization from the SHA-256 of the data and a canonical serialization of the arguments,
+   * which does not depend on the order of the options or on options that are undefined.
+   *
+   * @param blob The image data to optimize.
+   * @param type The type of file output.
+   * @param quality The quality of the image optimization.
+   * @param resizeFactor The scaling factor to reduce the size of the image.
+   * @param maxDimension The maximum pixels allowed for x/y dimension in the size of the image.
+   * @param options The optimization options.
+   */
+  public async getKey(
+    blob: Blob,
+    type: string | string[],
+    quality: number,
+    resizeFactor = 1,
+    maxDimension?: number | undefined,
+    options?: INgxAdvancedImgOptimizationOptions
+  ): Promise<string> {
+    const source: string = await NgxAdvancedImgOptimizationCache.sha256(await blob.arrayBuffer());
+    const args: string = NgxAdvancedImgOptimizationCache.canonicalize({
+      version: this.version,
+      source,
+      type,
+      quality,
+      resizeFactor,
+      maxDimension,
+      options,
+    });
+
+    return NgxAdvancedImgOptimizationCache.sha256(new TextEncoder().encode(args));
+  }
+
+  /**
+   * Gets a cached optimization, discarding it if it was stored by another version.
+   *
+   * @param key The key of the optimization.
+   */
+  public async get(key: string): Promise<INgxAdvancedImgBitmapOptimization | undefined> {
+    const record: INgxAdvancedImgOptimizationCacheRecord | undefined = await this.store.get(key);
+
+    if (!record) {
+      return undefined;
+    }
+
+    if (record.version !== this.version) {
+      await this.store.delete([key]);
+
+      return undefined;
+    }
+
+    await this.store.touch(key, Date.now());
+
+    return record.optimization;
+  }
+
+  /**
+   * Caches an optimization, then removes the least recently used optimizations until the cache is within its budget.
+   * An optimization that exceeds the budget on its own is not cached.
+   *
+   * @param key The key of the optimization.
+   * @param optimization The optimization to cache.
+   */
+  public async put(key: string, optimization: INgxAdvancedImgBitmapOptimization): Promise<void> {
+    const size: number = optimization.blob.size;
+
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    await this.store.put({ key, version: this.version, size, usedAt: Date.now(), optimization });
+    await this.evict();
+  }
+
+  /**
+   * Removes the optimizations stored by other versions, then the least recently used optimizations until the cache
+   * is within its budget.
+   */
+  public async evict(): Promise<void> {
+    const entries: INgxAdvancedImgOptimizationCacheEntry[] = await this.store.entries();
+    const current: INgxAdvancedImgOptimizationCacheEntry[] = entries
+      .filter((entry: INgxAdvancedImgOptimizationCacheEntry) => entry.version === this.version)
+      .sort(
+        (a: INgxAdvancedImgOptimizationCacheEntry, b: INgxAdvancedImgOptimizationCacheEntry) => a.usedAt - b.usedAt
+      );
+    const expired: string[] = entries
+      .filter((entry: INgxAdvancedImgOptimizationCacheEntry) => entry.version !== this.version)
+      .map((entry: INgxAdvancedImgOptimizationCacheEntry) => entry.key);
+    let total: number = current.reduce(
+      (sum: number, entry: INgxAdvancedImgOptimizationCacheEntry) => sum + entry.size,
+      0
+    );
+
+    for (const entry of current) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+
+      expired.push(entry.key);
+      total -= entry.size;
+    }
+
+    if (expired.length) {
+      await this.store.delete(expired);
+    }
+  }
+
+  /**
+   * Removes every cached optimization.
+   */
+  public clear(): Promise<void> {
+    return this.store.clear();
+  }
+
+  private static optimizeBlob(
+    blob: Blob,
+    type: string | string[],
+    quality: number,
+    resizeFactor: number,
+    maxDimension: number | undefined,
+    options: INgxAdvancedImgOptimizationOptions | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    return NgxAdvancedImgOptimizationPool.optimizeBlob(
+      { blob, type, quality, resizeFactor, maxDimension, options },
+      signal
+    );
+  }
+
+  private static async sha256(data: BufferSource): Promise<string> {
+    const digest: Uint8Array = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+    return Array.from(digest)
+      .map((byte: number) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Serializes a value to JSON with the keys of objects sorted and undefined values left out.
+   */
+  private static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item: unknown) => NgxAdvancedImgOptimizationCache.canonicalize(item ?? null)).join(',')}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const record: Record<string, unknown> = value as Record<string, unknown>;
+
+      return `{${Object.keys(record)
+        .filter((key: string) => record[key] !== undefined)
+        .sort()
+        .map((key: string) => `${JSON.stringify(key)}:${NgxAdvancedImgOptimizationCache.canonicalize(record[key])}`)
+        .join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+}
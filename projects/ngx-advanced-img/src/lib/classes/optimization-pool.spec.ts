@@ -0,0 +1,72 @@
+import { INgxAdvancedImgBitmapOptimization, INgxAdvancedImgOptimizationOptions } from './bitmap';
+import { INgxAdvancedImgOptimizationRequest, NgxAdvancedImgOptimizationPool } from './optimization-pool';
+import { NgxAdvancedImgWorkerPool } from './worker-pool';
+
+describe('NgxAdvancedImgOptimizationPool', () => {
+  const blob: Blob = new Blob([new Uint8Array(8)], { type: 'image/png' });
+  const optimization = {} as INgxAdvancedImgBitmapOptimization;
+  let pool: NgxAdvancedImgOptimizationPool;
+  let request: jasmine.Spy;
+  let optimizeBlob: jasmine.Spy;
+
+  beforeEach(() => {
+    pool = new NgxAdvancedImgOptimizationPool(() => ({}) as Worker);
+    request = spyOn(NgxAdvancedImgWorkerPool.prototype, 'request').and.resolveTo(optimization);
+    optimizeBlob = spyOn(NgxAdvancedImgOptimizationPool, 'optimizeBlob').and.resolveTo(optimization);
+  });
+
+  it('should post options without a watermark image as they are', async () => {
+    const options: INgxAdvancedImgOptimizationOptions = { sizeLimit: 1000, watermark: { text: 'Sample' } };
+
+    expect(pool.usesWorkers).toBeTrue();
+    expect(await pool.optimize(blob, 'image/webp', 0.8, 1, undefined, options)).toBe(optimization);
+    expect(request).toHaveBeenCalledWith(
+      NgxAdvancedImgOptimizationPool.REQUEST_TYPE,
+      jasmine.objectContaining({ blob, options }),
+      [],
+      undefined
+    );
+    expect(optimizeBlob).not.toHaveBeenCalled();
+  });
+
+  it('should transfer a copy of a watermark image that cannot be posted to a worker', async () => {
+    const image = {} as HTMLImageElement;
+    const copy: ImageBitmap = new ImageBitmap();
+    const options: INgxAdvancedImgOptimizationOptions = { watermark: { image, opacity: 1 } };
+
+    spyOn(globalThis, 'createImageBitmap').and.resolveTo(copy);
+
+    await pool.optimize(blob, 'image/webp', 0.8, 1, undefined, options);
+
+    const [, payload, transfer] = request.calls.mostRecent().args as [
+      string,
+      INgxAdvancedImgOptimizationRequest,
+      Transferable[],
+    ];
+
+    expect(payload.options?.watermark?.image).toBe(copy);
+    expect(payload.options?.watermark?.opacity).toBe(1);
+    expect(transfer).toEqual([copy]);
+    expect(options.watermark?.image).toBe(image);
+  });
+
+  it('should optimize svg images on the main thread whatever type they declare', async () => {
+    const markup = '<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>';
+
+    await pool.optimize(new Blob([markup], { type: 'image/svg+xml' }), 'image/webp', 0.8);
+    await pool.optimize(new Blob([markup]), 'image/webp', 0.8);
+    await pool.optimize(new Blob([markup], { type: 'image/png' }), 'image/webp', 0.8);
+
+    expect(optimizeBlob).toHaveBeenCalledTimes(3);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should optimize on the main thread when the watermark image cannot be copied', async () => {
+    spyOn(globalThis, 'createImageBitmap').and.rejectWith(new Error('The source image could not be decoded'));
+
+    await pool.optimize(blob, 'image/webp', 0.8, 1, undefined, { watermark: { image: {} as HTMLImageElement } });
+
+    expect(optimizeBlob).toHaveBeenCalled();
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+import { INgxAdvancedImgBitmapOptimization, INgxAdvancedImgOptimizationOptions, NgxAdvancedImgBitmap } from './bitmap';
+import { NgxAdvancedImgMimeSniffer } from './mime-sniffer';
+import { INgxAdvancedImgWatermark } from './watermark';
+import { INgxAdvancedImgWorkerResult, INgxAdvancedImgWorkerScope, NgxAdvancedImgWorkerPool } from './worker-pool';
+
+/**
+ * The payload of an optimization request, mirroring the arguments of `NgxAdvancedImgBitmap.optimize`.
+ */
+export interface INgxAdvancedImgOptimizationRequest {
+  blob: Blob;
+  type: string | string[];
+  quality: number;
+  resizeFactor: number;
+  maxDimension?: number | undefined;
+  options?: INgxAdvancedImgOptimizationOptions | undefined;
+}
+
+/**
+ * Optimizes images on a pool of reusable web workers using OffscreenCanvas and ImageBitmap so that large images
+ * do not block the main thread. When workers or OffscreenCanvas are unavailable, or no worker factory is given,
+ * optimizations run on the main thread exactly as `NgxAdvancedImgBitmap.optimize` would.
+ *
+ * The worker script that the factory creates only needs to call `NgxAdvancedImgOptimizationPool.listen()`.
+ */
+export class NgxAdvancedImgOptimizationPool {
+  public static REQUEST_TYPE = 'optimize';
+
+  // the number of leading bytes that are read to recognize svg data
+  private static SNIFF_LENGTH = 4096;
+
+  private pool: NgxAdvancedImgWorkerPool | undefined;
+
+  /**
+   * Whether or not optimizations are performed within web workers.
+   */
+  public get usesWorkers(): boolean {
+    return !!this.pool && !this.pool.terminated;
+  }
+
+  /**
+   * @param factory A function that creates a new worker whose script calls `NgxAdvancedImgOptimizationPool.listen()`.
+   * @param size The maximum number of workers that will be created.
+   */
+  public constructor(factory?: () => Worker, size?: number) {
+    if (factory && NgxAdvancedImgWorkerPool.isSupported() && NgxAdvancedImgBitmap.isOffscreenSupported()) {
+      this.pool = new NgxAdvancedImgWorkerPool(factory, size);
+    }
+  }
+
+  /**
+   * Answers optimization requests from within a worker script.
+   *
+   * @param scope The worker global scope to listen on, `self` by default.
+   */
+  public static listen(scope?: INgxAdvancedImgWorkerScope): void {
+    NgxAdvancedImgWorkerPool.listen(
+      NgxAdvancedImgOptimizationPool.REQUEST_TYPE,
+      async (
+        request: INgxAdvancedImgOptimizationRequest,
+        signal: AbortSignal
+      ): Promise<INgxAdvancedImgWorkerResult> => ({
+        result: await NgxAdvancedImgOptimizationPool.optimizeBlob(request, signal),
+      }),
+      scope
+    );
+  }
+
+  /**
+   * Loads and optimizes a blob in the current thread, using OffscreenCanvas when no document is available.
+   *
+   * @param request The optimization to perform.
+   * @param signal An optional signal that cancels the optimization.
+   */
+  public static async optimizeBlob(
+    request: INgxAdvancedImgOptimizationRequest,
+    signal?: AbortSignal
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap(request.blob, '', 0, 0);
+
+    try {
+      if (typeof document === 'undefined') {
+        await bitmap.loadOffscreen(signal);
+      } else {
+        await bitmap.load(true, true, false, signal);
+      }
+
+      return await bitmap.optimize(
+        request.type,
+        request.quality,
+        request.resizeFactor,
+        request.maxDimension,
+        request.options,
+        signal
+      );
+    } finally {
+      bitmap.destroy();
+    }
+  }
+
+  /**
+   * Optimizes the given image data to the desired quality and type.
+   *
+   * @param blob The image data to optimize.
+   * @param type The type of file output we would like to generate, 'auto' or a ranked list of types to pick the smallest from.
+   * @param quality The quality of the image optimization.
+   * @param resizeFactor The scaling factor to reduce the size of the image.
+   * @param maxDimension If provided, the maximum pixels allowed for x/y dimension in the size of the image.
+   * @param options The optimization options to use when we want to optimize the image to a specified byte size.
+   * @param signal An optional signal that cancels the optimization and rejects with an NgxAdvancedImgAbortError.
+   */
+  public async optimize(
+    blob: Blob,
+    type: string | string[],
+    quality: number,
+    resizeFactor = 1,
+    maxDimension?: number | undefined,
+    options?: INgxAdvancedImgOptimizationOptions,
+    signal?: AbortSignal
+  ): Promise<INgxAdvancedImgBitmapOptimization> {
+    const request: INgxAdvancedImgOptimizationRequest = { blob, type, quality, resizeFactor, maxDimension, options };
+
+    // svg data can only be rasterized with a document, so it always stays on the main thread
+    if (!this.pool || this.pool.terminated || (await NgxAdvancedImgOptimizationPool.isSvg(blob))) {
+      return NgxAdvancedImgOptimizationPool.optimizeBlob(request, signal);
+    }
+
+    const prepared: { options: INgxAdvancedImgOptimizationOptions | undefined; transfer: Transferable[] } | undefined =
+      await NgxAdvancedImgOptimizationPool.prepareOptions(options);
+
+    if (!prepared) {
+      return NgxAdvancedImgOptimizationPool.optimizeBlob(request, signal);
+    }
+
+    return this.pool.request<INgxAdvancedImgBitmapOptimization>(
+      NgxAdvancedImgOptimizationPool.REQUEST_TYPE,
+      { ...request, options: prepared.options },
+      prepared.transfer,
+      signal
+    );
+  }
+
+  /**
+   * Determines whether image data is an svg image by its content, since its declared type may be missing or wrong.
+   *
+   * @param blob The image data to inspect.
+   */
+  private static async isSvg(blob: Blob): Promise<boolean> {
+    const buffer: Uint8Array = new Uint8Array(
+      await blob.slice(0, NgxAdvancedImgOptimizationPool.SNIFF_LENGTH).arrayBuffer()
+    );
+
+    return NgxAdvancedImgMimeSniffer.sniff(buffer, blob.type).mimeType === 'image/svg+xml';
+  }
+
+  /**
+   * Copies a watermark image that cannot be posted to a worker, such as an image element, into an ImageBitmap that
+   * is transferred along with the request. Resolves undefined when the image cannot be copied, which leaves the
+   * optimization to the main thread.
+   *
+   * @param options The optimization options to post.
+   */
+  private static async prepareOptions(
+    options: INgxAdvancedImgOptimizationOptions | undefined
+  ): Promise<{ options: INgxAdvancedImgOptimizationOptions | undefined; transfer: Transferable[] } | undefined> {
+    const watermark: INgxAdvancedImgWatermark | undefined = options?.watermark;
+
+    if (!watermark?.image || watermark.image instanceof ImageBitmap) {
+      return { options, transfer: [] };
+    }
+
+    const source: ImageBitmapSource | undefined =
+      watermark.image instanceof NgxAdvancedImgBitmap ? watermark.image.image : watermark.image;
+
+    if (!source) {
+      return undefined;
+    }
+
+    try {
+      const image: ImageBitmap = await createImageBitmap(source);
+
+      return { options: { ...options, watermark: { ...watermark, image } }, transfer: [image] };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Terminates all workers. Any later optimizations are performed on the main thread.
+   */
+  public terminate(): void {
+    this.pool?.terminate();
+  }
+}
@@ -0,0 +1,96 @@
+import { NgxAdvancedImgResampler } from './resampler';
+
+// creates pixel data where every pixel is computed from its position
+function createImageData(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number]
+): ImageData {
+  const imageData: ImageData = new ImageData(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      imageData.data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+
+  return imageData;
+}
+
+function getPixel(imageData: ImageData, x: number, y: number): number[] {
+  const index: number = (y * imageData.width + x) * 4;
+
+  return Array.from(imageData.data.subarray(index, index + 4));
+}
+
+describe('NgxAdvancedImgResampler', () => {
+  const checkerboard: ImageData = createImageData(16, 16, (x: number, y: number) =>
+    (x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]
+  );
+
+  describe('resample', () => {
+    it('should produce the requested dimensions', () => {
+      const result: ImageData = NgxAdvancedImgResampler.resample(checkerboard, 5, 3, 'lanczos3');
+
+      expect(result.width).toBe(5);
+      expect(result.height).toBe(3);
+      expect(result.data.length).toBe(5 * 3 * 4);
+    });
+
+    it('should keep a solid color unchanged', () => {
+      const solid: ImageData = createImageData(9, 7, () => [200, 100, 50, 255]);
+
+      for (const filter of ['lanczos3', 'bicubic'] as const) {
+        const result: ImageData = NgxAdvancedImgResampler.resample(solid, 4, 3, filter);
+
+        expect(getPixel(result, 0, 0)).toEqual([200, 100, 50, 255]);
+        expect(getPixel(result, 3, 2)).toEqual([200, 100, 50, 255]);
+      }
+    });
+
+    it('should average a fine pattern to gray rather than aliasing it', () => {
+      const result: ImageData = NgxAdvancedImgResampler.resample(checkerboard, 4, 4, 'bicubic');
+
+      for (let i = 0; i < result.data.length; i += 4) {
+        expect(result.data[i]).toBeGreaterThan(117);
+        expect(result.data[i]).toBeLessThan(138);
+      }
+    });
+
+    it('should average in linear light when asked to', () => {
+      const srgb: number[] = getPixel(NgxAdvancedImgResampler.resample(checkerboard, 1, 1, 'bicubic'), 0, 0);
+      const linear: number[] = getPixel(NgxAdvancedImgResampler.resample(checkerboard, 1, 1, 'bicubic', true), 0, 0);
+
+      expect(srgb[0]).toBeCloseTo(128, -1);
+      expect(linear[0]).toBeCloseTo(188, -1);
+    });
+
+    it('should not bleed the color of transparent pixels into their neighbours', () => {
+      const half: ImageData = createImageData(8, 8, (x: number) => (x < 4 ? [255, 0, 0, 0] : [0, 0, 255, 255]));
+      const result: ImageData = NgxAdvancedImgResampler.resample(half, 2, 2, 'lanczos3');
+      const pixel: number[] = getPixel(result, 0, 0);
+
+      expect(pixel[0]).toBe(0);
+      expect(pixel[2]).toBe(255);
+      expect(pixel[3]).toBeLessThan(255);
+    });
+  });
+
+  describe('halve', () => {
+    it('should average every two by two block', () => {
+      const result: ImageData = NgxAdvancedImgResampler.halve(checkerboard);
+
+      expect(result.width).toBe(8);
+      expect(result.height).toBe(8);
+      expect(getPixel(result, 3, 5)).toEqual([128, 128, 128, 255]);
+    });
+
+    it('should never produce empty dimensions', () => {
+      const result: ImageData = NgxAdvancedImgResampler.halve(createImageData(1, 3, () => [10, 20, 30, 255]));
+
+      expect(result.width).toBe(1);
+      expect(result.height).toBe(1);
+      expect(getPixel(result, 0, 0)).toEqual([10, 20, 30, 255]);
+    });
+  });
+});
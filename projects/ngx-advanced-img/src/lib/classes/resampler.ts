@@ -0,0 +1,294 @@
+/**
+ * The filter used to resize images. 'browser' leaves resizing to a single canvas draw, 'stepped' halves the image
+ * until it is within a factor of two of its target, and 'lanczos3' and 'bicubic' are computed on the pixel data.
+ */
+export type NgxAdvancedImgResampling = 'browser' | 'stepped' | 'lanczos3' | 'bicubic';
+
+interface INgxAdvancedImgResamplingWeights {
+  starts: Int32Array; // the first source pixel of each destination pixel
+  counts: Int32Array; // the number of source pixels of each destination pixel
+  weights: Float32Array; // the normalized weights of every source pixel, in order, for every destination pixel
+  offsets: Int32Array; // the index of the first weight of each destination pixel
+}
+
+/**
+ * Resizes pixel data with separable convolution filters, which keeps fine patterns free of the aliasing a single
+ * browser draw produces at large downscale factors. Colors are averaged with premultiplied alpha so transparent
+ * pixels don't bleed into their neighbours, and optionally in linear light.
+ */
+export class NgxAdvancedImgResampler {
+  private static LANCZOS_SUPPORT = 3;
+  private static BICUBIC_SUPPORT = 2;
+  private static BICUBIC_A = -0.5; // Catmull-Rom
+
+  private static srgbToLinear: Float32Array | undefined;
+  private static byteToUnit: Float32Array | undefined;
+
+  /**
+   * Resizes pixel data to the given dimensions.
+   *
+   * @param imageData The pixel data to resize.
+   * @param width The width to resize to.
+   * @param height The height to resize to.
+   * @param filter The convolution filter to use.
+   * @param linearLight If true, false by default, then colors are averaged in linear light rather than sRGB.
+   */
+  public static resample(
+    imageData: ImageData,
+    width: number,
+    height: number,
+    filter: 'lanczos3' | 'bicubic',
+    linearLight = false
+  ): ImageData {
+    const sourceWidth: number = imageData.width;
+    const sourceHeight: number = imageData.height;
+    const source: Uint8ClampedArray = imageData.data;
+    const decode: Float32Array = NgxAdvancedImgResampler.getDecodeTable(linearLight);
+    const horizontal: INgxAdvancedImgResamplingWeights = NgxAdvancedImgResampler.getWeights(sourceWidth, width, filter);
+    const vertical: INgxAdvancedImgResamplingWeights = NgxAdvancedImgResampler.getWeights(sourceHeight, height, filter);
+
+    // the horizontal pass reads the bytes directly, so only the narrowed image is ever held as floats
+    const intermediate: Float32Array = new Float32Array(width * sourceHeight * 4);
+
+    for (let y = 0; y < sourceHeight; y++) {
+      const row: number = y * sourceWidth;
+
+      for (let x = 0; x < width; x++) {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        let a = 0;
+
+        for (let i = 0; i < horizontal.counts[x]; i++) {
+          const weight: number = horizontal.weights[horizontal.offsets[x] + i];
+          const index: number = (row + horizontal.starts[x] + i) * 4;
+          const alpha: number = (source[index + 3] / 255) * weight;
+
+          r += decode[source[index]] * alpha;
+          g += decode[source[index + 1]] * alpha;
+          b += decode[source[index + 2]] * alpha;
+          a += alpha;
+        }
+
+        const target: number = (y * width + x) * 4;
+
+        intermediate[target] = r;
+        intermediate[target + 1] = g;
+        intermediate[target + 2] = b;
+        intermediate[target + 3] = a;
+      }
+    }
+
+    const result: ImageData = new ImageData(width, height);
+    const output: Uint8ClampedArray = result.data;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        let a = 0;
+
+        for (let i = 0; i < vertical.counts[y]; i++) {
+          const weight: number = vertical.weights[vertical.offsets[y] + i];
+          const index: number = ((vertical.starts[y] + i) * width + x) * 4;
+
+          r += intermediate[index] * weight;
+          g += intermediate[index + 1] * weight;
+          b += intermediate[index + 2] * weight;
+          a += intermediate[index + 3] * weight;
+        }
+
+        NgxAdvancedImgResampler.writePixel(output, (y * width + x) * 4, r, g, b, a, linearLight);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Halves the dimensions of pixel data by averaging every two by two block of pixels.
+   *
+   * @param imageData The pixel data to halve.
+   * @param linearLight If true, false by default, then colors are averaged in linear light rather than sRGB.
+   */
+  public static halve(imageData: ImageData, linearLight = false): ImageData {
+    const sourceWidth: number = imageData.width;
+    const width: number = Math.max(1, Math.floor(sourceWidth / 2));
+    const height: number = Math.max(1, Math.floor(imageData.height / 2));
+    const source: Uint8ClampedArray = imageData.data;
+    const decode: Float32Array = NgxAdvancedImgResampler.getDecodeTable(linearLight);
+    const result: ImageData = new ImageData(width, height);
+    const output: Uint8ClampedArray = result.data;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        let a = 0;
+
+        for (let i = 0; i < 4; i++) {
+          const sourceX: number = Math.min(sourceWidth - 1, x * 2 + (i & 1));
+          const sourceY: number = Math.min(imageData.height - 1, y * 2 + (i >> 1));
+          const index: number = (sourceY * sourceWidth + sourceX) * 4;
+          const alpha: number = source[index + 3] / 255 / 4;
+
+          r += decode[source[index]] * alpha;
+          g += decode[source[index + 1]] * alpha;
+          b += decode[source[index + 2]] * alpha;
+          a += alpha;
+        }
+
+        NgxAdvancedImgResampler.writePixel(output, (y * width + x) * 4, r, g, b, a, linearLight);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts a premultiplied pixel back into bytes.
+   */
+  private static writePixel(
+    output: Uint8ClampedArray,
+    index: number,
+    r: number,
+    g: number,
+    b: number,
+    a: number,
+    linearLight: boolean
+  ): void {
+    if (a <= 0) {
+      output[index] = output[index + 1] = output[index + 2] = output[index + 3] = 0;
+
+      return;
+    }
+
+    output[index] = NgxAdvancedImgResampler.encode(r / a, linearLight);
+    output[index + 1] = NgxAdvancedImgResampler.encode(g / a, linearLight);
+    output[index + 2] = NgxAdvancedImgResampler.encode(b / a, linearLight);
+    output[index + 3] = Math.round(Math.min(1, a) * 255);
+  }
+
+  /**
+   * Converts a color channel from the 0 to 1 working range back into a byte.
+   */
+  private static encode(value: number, linearLight: boolean): number {
+    const clamped: number = Math.max(0, Math.min(1, value));
+
+    if (!linearLight) {
+      return Math.round(clamped * 255);
+    }
+
+    return Math.round((clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055) * 255);
+  }
+
+  /**
+   * Looks up the working value of every byte, either as is or converted from sRGB to linear light.
+   */
+  private static getDecodeTable(linearLight: boolean): Float32Array {
+    if (!linearLight) {
+      if (!NgxAdvancedImgResampler.byteToUnit) {
+        NgxAdvancedImgResampler.byteToUnit = new Float32Array(256).map((_: number, i: number) => i / 255);
+      }
+
+      return NgxAdvancedImgResampler.byteToUnit;
+    }
+
+    if (!NgxAdvancedImgResampler.srgbToLinear) {
+      NgxAdvancedImgResampler.srgbToLinear = new Float32Array(256).map((_: number, i: number) => {
+        const value: number = i / 255;
+
+        return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+      });
+    }
+
+    return NgxAdvancedImgResampler.srgbToLinear;
+  }
+
+  /**
+   * Computes the normalized filter weights of every destination pixel along one axis. When downscaling, the
+   * filter is stretched over the source pixels that a destination pixel covers.
+   */
+  private static getWeights(
+    sourceSize: number,
+    size: number,
+    filter: 'lanczos3' | 'bicubic'
+  ): INgxAdvancedImgResamplingWeights {
+    const ratio: number = sourceSize / size;
+    const scale: number = Math.max(1, ratio);
+    const support: number =
+      (filter === 'lanczos3' ? NgxAdvancedImgResampler.LANCZOS_SUPPORT : NgxAdvancedImgResampler.BICUBIC_SUPPORT) *
+      scale;
+    const starts: Int32Array = new Int32Array(size);
+    const counts: Int32Array = new Int32Array(size);
+    const offsets: Int32Array = new Int32Array(size);
+    const weights: number[] = [];
+
+    for (let i = 0; i < size; i++) {
+      const center: number = (i + 0.5) * ratio;
+      const start: number = Math.max(0, Math.floor(center - support));
+      const end: number = Math.min(sourceSize, Math.ceil(center + support));
+      let total = 0;
+
+      offsets[i] = weights.length;
+
+      for (let j = start; j < end; j++) {
+        const weight: number = NgxAdvancedImgResampler.kernel((j + 0.5 - center) / scale, filter);
+
+        weights.push(weight);
+        total += weight;
+      }
+
+      for (let j = offsets[i]; j < weights.length; j++) {
+        weights[j] = total ? weights[j] / total : 1 / (end - start);
+      }
+
+      starts[i] = start;
+      counts[i] = end - start;
+    }
+
+    return { starts, counts, weights: new Float32Array(weights), offsets };
+  }
+
+  /**
+   * Evaluates a filter kernel at the given distance from its center.
+   */
+  private static kernel(x: number, filter: 'lanczos3' | 'bicubic'): number {
+    const distance: number = Math.abs(x);
+
+    if (filter === 'lanczos3') {
+      if (distance >= NgxAdvancedImgResampler.LANCZOS_SUPPORT) {
+        return 0;
+      }
+
+      return (
+        NgxAdvancedImgResampler.sinc(distance) *
+        NgxAdvancedImgResampler.sinc(distance / NgxAdvancedImgResampler.LANCZOS_SUPPORT)
+      );
+    }
+
+    const a: number = NgxAdvancedImgResampler.BICUBIC_A;
+
+    if (distance < 1) {
+      return (a + 2) * distance * distance * distance - (a + 3) * distance * distance + 1;
+    }
+
+    if (distance < 2) {
+      return a * distance * distance * distance - 5 * a * distance * distance + 8 * a * distance - 4 * a;
+    }
+
+    return 0;
+  }
+
+  private static sinc(x: number): number {
+    if (x === 0) {
+      return 1;
+    }
+
+    const value: number = Math.PI * x;
+
+    return Math.sin(value) / value;
+  }
+}
@@ -0,0 +1,180 @@
+import { INgxAdvancedImgSvgMinification, NgxAdvancedImgSvgMinifier } from './svg-minifier';
+
+function svg(content: string, attributes = ''): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg"${attributes}>${content}</svg>`;
+}
+
+describe('NgxAdvancedImgSvgMinifier', () => {
+  describe('minify', () => {
+    it('should reject markup that is not an SVG image', () => {
+      expect(() => NgxAdvancedImgSvgMinifier.minify('<html/>')).toThrowError('The data is not an SVG image');
+    });
+
+    it('should remove comments, metadata, editor data and whitespace between elements', () => {
+      const markup: string = svg(
+        '\n  <!-- exported -->\n  <metadata><title>x</title></metadata>\n  <sodipodi:namedview/>\n' +
+          '  <rect inkscape:label="box" width="1"/>\n  <text> spaced </text>\n',
+        ' xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"' +
+          ' xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd"'
+      );
+
+      expect(NgxAdvancedImgSvgMinifier.minify(markup)).toBe(svg('<rect width="1"/><text> spaced </text>'));
+    });
+
+    it('should remove default valued attributes', () => {
+      expect(
+        NgxAdvancedImgSvgMinifier.minify(
+          svg('<rect x="0" y="0px" opacity="1" display="inline" width="1"/><circle cx="0" x="0" r="1"/>')
+        )
+      ).toBe(svg('<rect width="1"/><circle x="0" r="1"/>'));
+    });
+
+    it('should only remove inherited defaults that no ancestor or stylesheet overrides', () => {
+      expect(
+        NgxAdvancedImgSvgMinifier.minify(
+          svg('<g stroke="red"><rect stroke="none" width="1"/></g><rect stroke="none" fill-opacity="1" width="1"/>')
+        )
+      ).toBe(svg('<g stroke="red"><rect stroke="none" width="1"/></g><rect width="1"/>'));
+      expect(
+        NgxAdvancedImgSvgMinifier.minify(svg('<style>rect { stroke: red }</style><rect stroke="none" width="1"/>'))
+      ).toBe(svg('<style>rect { stroke: red }</style><rect stroke="none" width="1"/>'));
+    });
+
+    it('should keep inherited defaults within content that is rendered where it is referenced', () => {
+      const content: string =
+        '<defs><path id="p" stroke="none" d="M0 0"/></defs>' +
+        '<symbol id="s" fill-opacity="1"><rect stroke="none" width="1"/></symbol>' +
+        '<marker id="m"><path stroke="none" d="M0 0"/></marker>' +
+        '<pattern id="f"><rect fill-opacity="1" width="1"/></pattern>' +
+        '<use href="#s" stroke="red"/>';
+
+      expect(NgxAdvancedImgSvgMinifier.minify(svg(content))).toBe(svg(content));
+    });
+
+    it('should keep inherited defaults of elements whose id is referenced', () => {
+      const content: string =
+        '<path id="p" stroke="none" d="M0 0"/><g id="i"><rect stroke="none" width="1"/></g>' +
+        '<clipPath id="c"><rect stroke="none" width="1"/></clipPath>' +
+        '<use href="#p" stroke="red"/><use xlink:href="#i" stroke="red"/><rect clip-path="url(\'#c\')" width="1"/>';
+      const namespace = ' xmlns:xlink="http://www.w3.org/1999/xlink"';
+
+      expect(NgxAdvancedImgSvgMinifier.minify(svg(content, namespace))).toBe(svg(content, namespace));
+      expect(NgxAdvancedImgSvgMinifier.minify(svg('<rect id="free" stroke="none" width="1"/>'))).toBe(
+        svg('<rect id="free" width="1"/>')
+      );
+    });
+
+    it('should collapse groups that have no effect', () => {
+      expect(
+        NgxAdvancedImgSvgMinifier.minify(
+          svg(
+            '<g><rect width="1"/><rect width="2"/></g><g fill="red"><rect width="3"/></g>' +
+              '<g transform="scale(2)"><rect transform="rotate(45)" width="4"/></g><g/><g id="empty"/>'
+          )
+        )
+      ).toBe(
+        svg(
+          '<rect width="1"/><rect width="2"/><rect width="3" fill="red"/>' +
+            '<rect transform="scale(2) rotate(45)" width="4"/><g id="empty"/>'
+        )
+      );
+    });
+
+    it('should keep groups whose attributes the child already has or cannot take', () => {
+      const content: string =
+        '<g fill="red"><rect fill="blue" width="1"/></g><g id="group"><rect width="1"/></g>' +
+        '<g fill="red"><rect width="1"/><rect width="2"/></g><g fill="red"><rect id="r" width="1"/></g><use href="#r"/>';
+
+      expect(NgxAdvancedImgSvgMinifier.minify(svg(content))).toBe(svg(content));
+    });
+
+    it('should round coordinates, lists and transforms', () => {
+      expect(
+        NgxAdvancedImgSvgMinifier.minify(
+          svg(
+            '<rect x="0.12345" width="10.00001" stroke-width="0.5555px"/>' +
+              '<polygon points="0.12345,1.98765 2.5 -0.0004"/>' +
+              '<g transform="translate(0.1234567 2)"><rect width="1"/><rect width="2"/></g>',
+            ' viewBox="0 0 10.12345 10"'
+          ),
+          2
+        )
+      ).toBe(
+        svg(
+          '<rect x=".12" width="10" stroke-width=".56px"/><polygon points=".12 1.99 2.5 0"/>' +
+            '<g transform="translate(.12346 2)"><rect width="1"/><rect width="2"/></g>',
+          ' viewBox="0 0 10.12 10"'
+        )
+      );
+    });
+
+    it('should not round coordinates that are fractions of a bounding box', () => {
+      const content: string =
+        '<clipPath clipPathUnits="objectBoundingBox"><rect x="0.12345" width="0.5555"/></clipPath>' +
+        '<linearGradient x1="0.12345"/><linearGradient gradientUnits="userSpaceOnUse" x1="0.12345"/>';
+
+      expect(NgxAdvancedImgSvgMinifier.minify(svg(content), 1)).toBe(
+        svg(
+          '<clipPath clipPathUnits="objectBoundingBox"><rect x="0.12345" width="0.5555"/></clipPath>' +
+            '<linearGradient x1="0.12345"/><linearGradient gradientUnits="userSpaceOnUse" x1=".1"/>'
+        )
+      );
+    });
+
+    it('should round relative path coordinates to rounded absolute positions and leave out repeated commands', () => {
+      expect(
+        NgxAdvancedImgSvgMinifier.minify(
+          svg('<path d="M0.12345 0.5 l1.0004 0 1.0004 0 1.0004 0 z m1 1 h2.5555 v-0.3333 M1 1 2 2"/>')
+        )
+      ).toBe(svg('<path d="M.123.5l1.001 0 1 0 1.001 0zm1 1h2.556v-.333M1 1L2 2"/>'));
+    });
+
+    it('should round relative arcs without rounding or shifting their flags', () => {
+      expect(NgxAdvancedImgSvgMinifier.minify(svg('<path d="M63.5875 10 a5 5 0 0 1 10 0"/>'))).toBe(
+        svg('<path d="M63.587 10a5 5 0 0 1 10.001 0"/>')
+      );
+      expect(NgxAdvancedImgSvgMinifier.minify(svg('<path d="M0 0a5.00049 5 30.12345 1 0 10.12345 0"/>'), 2)).toBe(
+        svg('<path d="M0 0a5 5 30.12 1 0 10.12 0"/>')
+      );
+    });
+
+    it('should round absolute arcs without rounding or shifting their flags', () => {
+      expect(NgxAdvancedImgSvgMinifier.minify(svg('<path d="M0 0 A5.00049 5 30.12345 1 0 10.12345 0"/>'))).toBe(
+        svg('<path d="M0 0A5 5 30.123 1 0 10.123 0"/>')
+      );
+      expect(NgxAdvancedImgSvgMinifier.minify(svg('<path d="M0 0A5 5 0 1110 0"/>'))).toBe(
+        svg('<path d="M0 0A5 5 0 1 1 10 0"/>')
+      );
+    });
+
+    it('should leave invalid path data as is', () => {
+      expect(NgxAdvancedImgSvgMinifier.minify(svg('<path d="M0.12345 0 L1"/>'))).toBe(svg('<path d="M0.12345 0 L1"/>'));
+    });
+  });
+
+  describe('minifyToSize', () => {
+    it('should lower the precision until the output fits', () => {
+      const markup: string = svg('<path d="M0.12345 0.12345 L1.12345 1.12345"/>');
+      const result: INgxAdvancedImgSvgMinification = NgxAdvancedImgSvgMinifier.minifyToSize(markup, 72);
+
+      expect(result.precision).toBe(1);
+      expect(result.svg).toBe(svg('<path d="M.1.1L1.1 1.1"/>'));
+      expect(result.sizes).toEqual([79, 75, 71]);
+    });
+
+    it('should stop at no decimals and not lower the precision without a size limit', () => {
+      const markup: string = svg('<path d="M0.12345 0.12345 L1.12345 1.12345"/>');
+
+      expect(NgxAdvancedImgSvgMinifier.minifyToSize(markup, 1).precision).toBe(0);
+      expect(NgxAdvancedImgSvgMinifier.minifyToSize(markup, undefined).sizes.length).toBe(1);
+    });
+
+    it('should never round the viewBox to whole units', () => {
+      const markup: string = svg('<path d="M0.12345 0.12345 L1.12345 1.12345"/>', ' viewBox="0 0 2.4567 1.4567"');
+      const result: INgxAdvancedImgSvgMinification = NgxAdvancedImgSvgMinifier.minifyToSize(markup, 1);
+
+      expect(result.precision).toBe(0);
+      expect(result.svg).toBe(svg('<path d="M0 0L1 1"/>', ' viewBox="0 0 2.5 1.5"'));
+    });
+  });
+});
@@ -0,0 +1,652 @@
+import { NgxAdvancedImgJxon } from './jxon';
+
+/**
+ * This interface describes the output of minifying an SVG image to fit within a size limit.
+ */
+export interface INgxAdvancedImgSvgMinification {
+  svg: string;
+  precision: number; // the number of decimals coordinates were rounded to
+  sizes: number[]; // the size in bytes of every attempt, in order
+}
+
+interface INgxAdvancedImgPathSegment {
+  command: string;
+  values: number[];
+}
+
+interface INgxAdvancedImgSvgMinifierContext {
+  precision: number;
+  inherited: Set<string>; // the inherited properties that ancestors set
+  styled: boolean; // whether stylesheets or style attributes may set inherited properties
+  boundingBoxUnits: boolean; // whether coordinates are fractions of a bounding box, which rounding would destroy
+  referenced: boolean; // whether the content is rendered where it is referenced, which decides what it inherits
+  references: Set<string>; // the ids that use elements and url() references point to
+}
+
+/**
+ * Minifies SVG images by removing what doesn't affect how they render: comments, metadata, editor data, redundant
+ * groups and default valued attributes. Coordinates are rounded to a given number of decimals.
+ */
+export class NgxAdvancedImgSvgMinifier {
+  public static DEFAULT_PRECISION = 3;
+
+  private static TRANSFORM_PRECISION = 5;
+
+  // a viewBox scales the whole image, so it is never rounded to whole units
+  private static VIEWBOX_PRECISION = 1;
+
+  private static EDITOR_NAMESPACES: Set<string> = new Set<string>([
+    'http://www.inkscape.org/namespaces/inkscape',
+    'http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd',
+    'http://www.bohemiancoding.com/sketch/ns',
+    'http://ns.adobe.com/AdobeIllustrator/10.0/',
+    'http://ns.adobe.com/AdobeSVGViewerExtensions/3.0/',
+    'http://ns.adobe.com/Extensibility/1.0/',
+    'http://ns.adobe.com/Flows/1.0/',
+    'http://ns.adobe.com/GenericCustomNamespace/1.0/',
+    'http://ns.adobe.com/Graphs/1.0/',
+    'http://ns.adobe.com/ImageReplacement/1.0/',
+    'http://ns.adobe.com/SaveForWeb/1.0/',
+    'http://ns.adobe.com/Variables/1.0/',
+    'http://ns.adobe.com/XPath/1.0/',
+    'http://www.serif.com/',
+    'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    'http://creativecommons.org/ns#',
+    'http://purl.org/dc/elements/1.1/',
+  ]);
+
+  // elements whose whitespace is rendered or meaningful
+  private static TEXT_ELEMENTS: Set<string> = new Set<string>(['text', 'tspan', 'textPath', 'title', 'desc', 'style']);
+
+  // elements whose coordinates are in user space, unless an ancestor uses bounding box units
+  private static ROUNDED_ELEMENTS: Set<string> = new Set<string>([
+    'path',
+    'rect',
+    'circle',
+    'ellipse',
+    'line',
+    'polyline',
+    'polygon',
+    'text',
+    'tspan',
+    'textPath',
+    'use',
+    'image',
+    'svg',
+    'symbol',
+  ]);
+
+  private static ROUNDED_ATTRIBUTES: Set<string> = new Set<string>([
+    'x',
+    'y',
+    'x1',
+    'y1',
+    'x2',
+    'y2',
+    'cx',
+    'cy',
+    'r',
+    'rx',
+    'ry',
+    'width',
+    'height',
+    'dx',
+    'dy',
+    'stroke-width',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+    'font-size',
+    'letter-spacing',
+    'word-spacing',
+    'startOffset',
+    'textLength',
+  ]);
+
+  // elements whose content is rendered wherever it is referenced rather than where it is defined
+  private static REFERENCED_ELEMENTS: Set<string> = new Set<string>(['defs', 'marker', 'pattern', 'symbol']);
+
+  // the initial values of properties, which inherited properties only keep if no ancestor sets them
+  private static INHERITED_DEFAULTS: Record<string, string> = {
+    'clip-rule': 'nonzero',
+    'fill-opacity': '1',
+    'fill-rule': 'nonzero',
+    'font-style': 'normal',
+    stroke: 'none',
+    'stroke-dasharray': 'none',
+    'stroke-dashoffset': '0',
+    'stroke-linecap': 'butt',
+    'stroke-linejoin': 'miter',
+    'stroke-miterlimit': '4',
+    'stroke-opacity': '1',
+    'stroke-width': '1',
+    'text-anchor': 'start',
+    visibility: 'visible',
+  };
+
+  private static DEFAULTS: Record<string, string> = {
+    display: 'inline',
+    opacity: '1',
+    preserveAspectRatio: 'xMidYMid meet',
+  };
+
+  // the defaults of geometry attributes, which only apply to some elements
+  private static ELEMENT_DEFAULTS: Record<string, Record<string, string>> = {
+    svg: { x: '0', y: '0' },
+    rect: { x: '0', y: '0' },
+    image: { x: '0', y: '0' },
+    use: { x: '0', y: '0' },
+    circle: { cx: '0', cy: '0' },
+    ellipse: { cx: '0', cy: '0' },
+    line: { x1: '0', y1: '0', x2: '0', y2: '0' },
+  };
+
+  // attributes that a group can hand down to its only child without changing how the child renders
+  private static MOVABLE_ATTRIBUTES: Set<string> = new Set<string>([
+    'clip-rule',
+    'color',
+    'display',
+    'fill',
+    'fill-opacity',
+    'fill-rule',
+    'font-family',
+    'font-size',
+    'font-style',
+    'font-weight',
+    'opacity',
+    'stroke',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+    'stroke-linecap',
+    'stroke-linejoin',
+    'stroke-miterlimit',
+    'stroke-opacity',
+    'stroke-width',
+    'text-anchor',
+    'transform',
+    'visibility',
+  ]);
+
+  private static PATH_PARAMETERS: Record<string, number> = {
+    m: 2,
+    l: 2,
+    h: 1,
+    v: 1,
+    c: 6,
+    s: 4,
+    q: 4,
+    t: 2,
+    a: 7,
+    z: 0,
+  };
+
+  /**
+   * Minifies SVG markup, returning the markup of the minified root svg element.
+   *
+   * @param markup The SVG markup to minify.
+   * @param precision The number of decimals to round coordinates to, 3 by default.
+   */
+  public static minify(markup: string, precision: number = NgxAdvancedImgSvgMinifier.DEFAULT_PRECISION): string {
+    const jxon: NgxAdvancedImgJxon = new NgxAdvancedImgJxon();
+    const root: Element | null = jxon.stringToXml(markup).documentElement;
+
+    if (!root || root.localName !== 'svg') {
+      throw new Error('The data is not an SVG image');
+    }
+
+    NgxAdvancedImgSvgMinifier.minifyElement(root, {
+      precision: Math.max(0, Math.floor(precision)),
+      inherited: new Set<string>(),
+      styled: root.getElementsByTagName('style').length > 0,
+      boundingBoxUnits: false,
+      referenced: false,
+      references: NgxAdvancedImgSvgMinifier.collectReferences(root),
+    });
+
+    return jxon.xmlToString(root as unknown as XMLDocument);
+  }
+
+  /**
+   * Minifies SVG markup, lowering the precision of coordinates one decimal at a time until the output fits within
+   * a size limit or all decimals have been dropped. The viewBox keeps at least one decimal.
+   *
+   * @param markup The SVG markup to minify.
+   * @param sizeLimit The maximum size of the output in bytes, if any.
+   * @param precision The number of decimals to start rounding coordinates to, 3 by default.
+   */
+  public static minifyToSize(
+    markup: string,
+    sizeLimit: number | undefined,
+    precision: number = NgxAdvancedImgSvgMinifier.DEFAULT_PRECISION
+  ): INgxAdvancedImgSvgMinification {
+    const encoder: TextEncoder = new TextEncoder();
+    const sizes: number[] = [];
+    let current: number = Math.max(0, Math.floor(precision));
+    let svg: string = NgxAdvancedImgSvgMinifier.minify(markup, current);
+
+    sizes.push(encoder.encode(svg).length);
+
+    while (typeof sizeLimit === 'number' && sizes[sizes.length - 1] > sizeLimit && current > 0) {
+      svg = NgxAdvancedImgSvgMinifier.minify(markup, --current);
+      sizes.push(encoder.encode(svg).length);
+    }
+
+    return { svg, precision: current, sizes };
+  }
+
+  /**
+   * Minifies the content and attributes of an element in place.
+   */
+  private static minifyElement(element: Element, context: INgxAdvancedImgSvgMinifierContext): void {
+    NgxAdvancedImgSvgMinifier.minifyAttributes(element, context);
+
+    const inherited: Set<string> = new Set<string>(context.inherited);
+
+    for (let i = 0; i < element.attributes.length; i++) {
+      const name: string = (element.attributes.item(i) as Attr).name;
+
+      if (NgxAdvancedImgSvgMinifier.INHERITED_DEFAULTS[name] !== undefined) {
+        inherited.add(name);
+      }
+    }
+
+    const childContext: INgxAdvancedImgSvgMinifierContext = {
+      precision: context.precision,
+      inherited,
+      styled: context.styled || element.hasAttribute('style') || element.hasAttribute('class'),
+      boundingBoxUnits:
+        context.boundingBoxUnits ||
+        ['clipPathUnits', 'maskContentUnits', 'patternContentUnits'].some(
+          (name: string) => element.getAttribute(name) === 'objectBoundingBox'
+        ),
+      referenced: context.referenced || NgxAdvancedImgSvgMinifier.isReferenced(element, context),
+      references: context.references,
+    };
+    const children: Node[] = [];
+
+    // take a snapshot first, since removing nodes changes the live list
+    for (let i = 0; i < element.childNodes.length; i++) {
+      children.push(element.childNodes.item(i));
+    }
+
+    for (const child of children) {
+      if (
+        child.nodeType === child.COMMENT_NODE ||
+        child.nodeType === child.PROCESSING_INSTRUCTION_NODE ||
+        (child.nodeType === child.TEXT_NODE &&
+          !(child.nodeValue || '').trim() &&
+          !NgxAdvancedImgSvgMinifier.TEXT_ELEMENTS.has(element.localName))
+      ) {
+        element.removeChild(child);
+      } else if (child.nodeType === child.ELEMENT_NODE) {
+        const childElement: Element = child as Element;
+
+        if (
+          childElement.localName === 'metadata' ||
+          NgxAdvancedImgSvgMinifier.EDITOR_NAMESPACES.has(childElement.namespaceURI || '')
+        ) {
+          element.removeChild(child);
+        } else {
+          NgxAdvancedImgSvgMinifier.minifyElement(childElement, childContext);
+
+          if (!context.styled && element.localName !== 'switch') {
+            NgxAdvancedImgSvgMinifier.collapseGroup(childElement, context.references);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Removes editor data and default valued attributes, and rounds coordinates.
+   */
+  private static minifyAttributes(element: Element, context: INgxAdvancedImgSvgMinifierContext): void {
+    const attributes: Attr[] = [];
+    // the ancestors of referenced content are unknown, so an inherited default may override what it would inherit
+    const inheriting: boolean =
+      !context.styled && !context.referenced && !NgxAdvancedImgSvgMinifier.isReferenced(element, context);
+    const rounded: boolean =
+      !context.boundingBoxUnits &&
+      (NgxAdvancedImgSvgMinifier.ROUNDED_ELEMENTS.has(element.localName) ||
+        element.getAttribute('gradientUnits') === 'userSpaceOnUse');
+
+    for (let i = 0; i < element.attributes.length; i++) {
+      attributes.push(element.attributes.item(i) as Attr);
+    }
+
+    for (const attribute of attributes) {
+      const name: string = attribute.name;
+      const value: string = attribute.value.trim();
+      const inheritedDefault: string | undefined = NgxAdvancedImgSvgMinifier.INHERITED_DEFAULTS[name];
+
+      if (
+        NgxAdvancedImgSvgMinifier.EDITOR_NAMESPACES.has(attribute.namespaceURI || '') ||
+        (/^xmlns:/.test(name) && NgxAdvancedImgSvgMinifier.EDITOR_NAMESPACES.has(value)) ||
+        name === 'enable-background' || // ignored by every browser, yet written by Illustrator
+        value === NgxAdvancedImgSvgMinifier.DEFAULTS[name] ||
+        value.replace(/px$/, '') === NgxAdvancedImgSvgMinifier.ELEMENT_DEFAULTS[element.localName]?.[name] ||
+        (value === inheritedDefault && inheriting && !context.inherited.has(name))
+      ) {
+        element.removeAttribute(name);
+      } else if (name === 'd' && rounded) {
+        element.setAttribute(name, NgxAdvancedImgSvgMinifier.roundPath(value, context.precision));
+      } else if (name === 'points' && rounded) {
+        element.setAttribute(name, NgxAdvancedImgSvgMinifier.roundList(value, context.precision));
+      } else if (name === 'viewBox' && rounded) {
+        element.setAttribute(
+          name,
+          NgxAdvancedImgSvgMinifier.roundList(
+            value,
+            Math.max(context.precision, NgxAdvancedImgSvgMinifier.VIEWBOX_PRECISION)
+          )
+        );
+      } else if (/transform$/i.test(name)) {
+        element.setAttribute(
+          name,
+          NgxAdvancedImgSvgMinifier.roundNumbers(
+            value,
+            Math.max(context.precision, NgxAdvancedImgSvgMinifier.TRANSFORM_PRECISION)
+          )
+        );
+      } else if (NgxAdvancedImgSvgMinifier.ROUNDED_ATTRIBUTES.has(name) && rounded) {
+        element.setAttribute(name, NgxAdvancedImgSvgMinifier.roundNumbers(value, context.precision));
+      }
+    }
+  }
+
+  /**
+   * Collects the ids that use elements and url() references point to, anywhere within the image.
+   */
+  private static collectReferences(root: Element): Set<string> {
+    const references: Set<string> = new Set<string>();
+    const descendants: HTMLCollectionOf<Element> = root.getElementsByTagName('*');
+    const elements: Element[] = [root];
+    const collect = (value: string): void => {
+      for (const match of value.matchAll(/url\(\s*['"]?#([^'")\s]+)/g)) {
+        references.add(match[1]);
+      }
+    };
+
+    for (let i = 0; i < descendants.length; i++) {
+      elements.push(descendants.item(i) as Element);
+    }
+
+    for (const element of elements) {
+      for (let i = 0; i < element.attributes.length; i++) {
+        const attribute: Attr = element.attributes.item(i) as Attr;
+        const value: string = attribute.value.trim();
+
+        if (element.localName === 'use' && attribute.localName === 'href' && value.startsWith('#')) {
+          references.add(value.slice(1));
+        } else {
+          collect(value);
+        }
+      }
+
+      if (element.localName === 'style') {
+        collect(element.textContent || '');
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Whether an element is rendered where it is referenced, either as a container of referenced content or because
+   * its id is referenced.
+   */
+  private static isReferenced(element: Element, context: INgxAdvancedImgSvgMinifierContext): boolean {
+    return (
+      NgxAdvancedImgSvgMinifier.REFERENCED_ELEMENTS.has(element.localName) ||
+      context.references.has(element.getAttribute('id') || '')
+    );
+  }
+
+  /**
+   * Removes a group that has no effect, either because it has no attributes and its children can take its place,
+   * or because its attributes can be handed down to its only child. Attributes are never handed down to a child
+   * whose id is referenced, since its references would render them as well.
+   */
+  private static collapseGroup(group: Element, references: Set<string>): void {
+    const parent: Node | null = group.parentNode;
+
+    if (group.localName !== 'g' || !parent) {
+      return;
+    }
+
+    const children: Node[] = [];
+
+    for (let i = 0; i < group.childNodes.length; i++) {
+      children.push(group.childNodes.item(i));
+    }
+
+    if (!children.length && !group.hasAttribute('id')) {
+      parent.removeChild(group);
+
+      return;
+    }
+
+    if (group.attributes.length) {
+      const child: Element | undefined = children.length === 1 ? (children[0] as Element) : undefined;
+      const attributes: Attr[] = [];
+
+      for (let i = 0; i < group.attributes.length; i++) {
+        attributes.push(group.attributes.item(i) as Attr);
+      }
+
+      // the transform of the group is merged with that of the child, every other attribute must be new to the child
+      if (
+        !child ||
+        child.nodeType !== child.ELEMENT_NODE ||
+        references.has(child.getAttribute('id') || '') ||
+        !attributes.every(
+          (attribute: Attr) =>
+            NgxAdvancedImgSvgMinifier.MOVABLE_ATTRIBUTES.has(attribute.name) &&
+            (attribute.name === 'transform' || !child.hasAttribute(attribute.name))
+        )
+      ) {
+        return;
+      }
+
+      for (const attribute of attributes) {
+        const value: string =
+          attribute.name === 'transform' && child.hasAttribute('transform')
+            ? `${attribute.value} ${child.getAttribute('transform')}`
+            : attribute.value;
+
+        child.setAttribute(attribute.name, value);
+      }
+    }
+
+    for (const child of children) {
+      parent.insertBefore(child, group);
+    }
+
+    parent.removeChild(group);
+  }
+
+  /**
+   * Rounds the coordinates of path data. Relative coordinates are rounded so that the absolute position they lead
+   * to is rounded, which keeps rounding errors from adding up along the path.
+   */
+  private static roundPath(d: string, precision: number): string {
+    const segments: INgxAdvancedImgPathSegment[] | null = NgxAdvancedImgSvgMinifier.parsePath(d);
+
+    if (!segments) {
+      return d;
+    }
+
+    const round = (value: number): number => Number(value.toFixed(precision));
+    let x = 0;
+    let y = 0;
+    let roundedX = 0;
+    let roundedY = 0;
+    let startX = 0;
+    let startY = 0;
+    let roundedStartX = 0;
+    let roundedStartY = 0;
+    let output = '';
+    let last = '';
+
+    for (const segment of segments) {
+      const command: string = segment.command;
+      const lower: string = command.toLowerCase();
+      const relative: boolean = command === lower;
+      const axes: string =
+        lower === 'h' ? 'x' : lower === 'v' ? 'y' : lower === 'a' ? 'oooffxy' : 'xy'.repeat(segment.values.length / 2);
+      const values: number[] = [];
+      let endX: number = x;
+      let endY: number = y;
+      let roundedEndX: number = roundedX;
+      let roundedEndY: number = roundedY;
+
+      for (let i = 0; i < segment.values.length; i++) {
+        const value: number = segment.values[i];
+
+        if (axes[i] === 'x' || axes[i] === 'y') {
+          const exact: number = relative ? value + (axes[i] === 'x' ? x : y) : value;
+          const rounded: number = round(exact);
+
+          values.push(relative ? round(rounded - (axes[i] === 'x' ? roundedX : roundedY)) : rounded);
+
+          if (axes[i] === 'x') {
+            endX = exact;
+            roundedEndX = rounded;
+          } else {
+            endY = exact;
+            roundedEndY = rounded;
+          }
+        } else {
+          values.push(axes[i] === 'f' ? value : round(value));
+        }
+      }
+
+      if (lower === 'z') {
+        endX = startX;
+        endY = startY;
+        roundedEndX = roundedStartX;
+        roundedEndY = roundedStartY;
+      }
+
+      x = endX;
+      y = endY;
+      roundedX = roundedEndX;
+      roundedY = roundedEndY;
+
+      if (lower === 'm') {
+        startX = x;
+        startY = y;
+        roundedStartX = roundedX;
+        roundedStartY = roundedY;
+      }
+
+      // a repeated command can be left out, except for a moveto, whose repetitions would be read as linetos
+      if (command !== last || lower === 'm') {
+        output += command;
+      }
+
+      output = NgxAdvancedImgSvgMinifier.appendNumbers(output, values.map(NgxAdvancedImgSvgMinifier.formatNumber));
+      last = command;
+    }
+
+    return output;
+  }
+
+  /**
+   * Parses path data into its segments, writing out implicitly repeated commands. Returns null for invalid data.
+   */
+  private static parsePath(d: string): INgxAdvancedImgPathSegment[] | null {
+    const segments: INgxAdvancedImgPathSegment[] = [];
+    const number = /^[\s,]*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/;
+    const flag = /^[\s,]*([01])/;
+    let rest: string = d.trim();
+    let command = '';
+
+    while (rest) {
+      const letter: RegExpExecArray | null = /^[\s,]*([MmZzLlHhVvCcSsQqTtAa])/.exec(rest);
+
+      if (letter) {
+        command = letter[1];
+        rest = rest.slice(letter[0].length);
+      } else if (!command || command === 'z' || command === 'Z') {
+        return null;
+      }
+
+      const values: number[] = [];
+      const lower: string = command.toLowerCase();
+
+      for (let i = 0; i < NgxAdvancedImgSvgMinifier.PATH_PARAMETERS[lower]; i++) {
+        const match: RegExpExecArray | null = (lower === 'a' && (i === 3 || i === 4) ? flag : number).exec(rest);
+
+        if (!match) {
+          return null;
+        }
+
+        values.push(parseFloat(match[1]));
+        rest = rest.slice(match[0].length);
+      }
+
+      segments.push({ command, values });
+
+      // the coordinates that follow a moveto without a command of their own are linetos
+      if (lower === 'm') {
+        command = command === 'm' ? 'l' : 'L';
+      }
+
+      rest = rest.replace(/^[\s,]+/, '');
+    }
+
+    return segments;
+  }
+
+  /**
+   * Rounds a list of numbers, such as points or a viewBox, and writes it out compactly.
+   */
+  private static roundList(value: string, precision: number): string {
+    const numbers: string[] | null = value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g);
+
+    if (!numbers) {
+      return value;
+    }
+
+    return NgxAdvancedImgSvgMinifier.appendNumbers(
+      '',
+      numbers.map((number: string) => NgxAdvancedImgSvgMinifier.formatNumber(Number((+number).toFixed(precision))))
+    );
+  }
+
+  /**
+   * Rounds every number within a value, leaving units and everything else as is.
+   */
+  private static roundNumbers(value: string, precision: number): string {
+    return value
+      .replace(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g, (number: string) =>
+        NgxAdvancedImgSvgMinifier.formatNumber(Number((+number).toFixed(precision)))
+      )
+      .replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Writes out a number without a leading zero.
+   */
+  private static formatNumber(value: number): string {
+    return String(value).replace(/^(-?)0\./, '$1.');
+  }
+
+  /**
+   * Appends numbers to path data, only separating them where a sign or decimal point doesn't already.
+   */
+  private static appendNumbers(output: string, numbers: string[]): string {
+    // numbers directly follow a command, otherwise the number that output ends with decides
+    let previous: string | null = /(^|[a-df-z])$/i.test(output) ? null : /[\d.eE+-]*$/.exec(output)?.[0] || null;
+
+    for (const number of numbers) {
+      const separated: boolean =
+        previous === null || number.charAt(0) === '-' || (number.charAt(0) === '.' && /[.eE]/.test(previous));
+
+      output += (separated ? '' : ' ') + number;
+      previous = number;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,129 @@
+import { INgxAdvancedImgSvgSanitizationReport, NgxAdvancedImgSvgSanitizer } from './svg-sanitizer';
+
+function svg(content: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${content}</svg>`;
+}
+
+function sanitize(content: string): { svg: string; report: INgxAdvancedImgSvgSanitizationReport } {
+  return NgxAdvancedImgSvgSanitizer.sanitize(svg(content));
+}
+
+describe('NgxAdvancedImgSvgSanitizer', () => {
+  describe('sanitize', () => {
+    it('should reject markup that is not an SVG image', () => {
+      expect(() => NgxAdvancedImgSvgSanitizer.sanitize('<html xmlns="http://www.w3.org/1999/xhtml"/>')).toThrowError(
+        'The data is not an SVG image'
+      );
+    });
+
+    it('should keep static content untouched', () => {
+      const { svg: markup, report } = sanitize(
+        '<defs><linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient></defs>' +
+          '<rect width="10" height="10" fill="url(#g)" style="stroke: blue; fill: url(\'#g\')"/>'
+      );
+
+      expect(report).toEqual({ removedElements: [], removedAttributes: [] });
+      expect(markup).toContain('fill="url(#g)"');
+      expect(markup).toContain('stop-color="red"');
+    });
+
+    it('should remove scripts, foreign content, event handlers and processing instructions', () => {
+      const { svg: markup, report } = sanitize(
+        '<script>alert(1)</script><foreignObject><div/></foreignObject><?php echo 1; ?>' +
+          '<rect onclick="alert(1)" width="1"/><animate attributeName="href" to="javascript:alert(1)"/>'
+      );
+
+      expect(report.removedElements).toEqual(['script', 'foreignObject', '?php', 'animate']);
+      expect(report.removedAttributes).toEqual(['rect[onclick]']);
+      expect(markup).not.toContain('alert');
+    });
+
+    it('should only keep links to web pages and references within the image', () => {
+      const { report } = sanitize(
+        '<a href="https://example.com"><use href="#shape"/></a>' +
+          '<a href="javascript:alert(1)"/><a xlink:href="java&#9;script:alert(1)"/><a href=" JavaScript:alert(1)"/>' +
+          '<use href="https://evil/sprite.svg#shape"/><use xlink:href="data:image/svg+xml,&lt;svg/&gt;"/>'
+      );
+
+      expect(report.removedAttributes).toEqual(['a[href]', 'a[xlink:href]', 'a[href]', 'use[href]', 'use[xlink:href]']);
+    });
+
+    it('should only keep embedded raster images', () => {
+      const { report } = sanitize(
+        '<image href="data:image/png;base64,AAAA"/><image xlink:href="https://evil/x.png"/>' +
+          '<image href="data:image/svg+xml;base64,AAAA"/><feImage xlink:href="javascript:alert(1)"/>'
+      );
+
+      expect(report.removedAttributes).toEqual(['image[xlink:href]', 'image[href]', 'feImage[xlink:href]']);
+    });
+
+    it('should remove styles and stylesheets that reference external resources', () => {
+      const { report } = sanitize(
+        '<style>@import "https://evil/x.css";</style><style>rect { fill: url(https://evil/x) }</style>' +
+          '<style>rect { fill: url(#g) }</style>' +
+          '<rect style="fill: url( \'https://evil/x\' )" fill="url(https://evil/x)" stroke="url(#g)"/>'
+      );
+
+      expect(report.removedElements).toEqual(['style', 'style']);
+      expect(report.removedAttributes).toEqual(['rect[style]', 'rect[fill]']);
+    });
+
+    it('should decode CSS escapes before checking styles and presentation attributes', () => {
+      const { report } = sanitize(
+        '<rect style="fill:\\75 rl(https://evil/x)"/><rect style="fill:\\000075\\72l(https://evil/x)"/>' +
+          '<rect fill="\\55\\52\\4c(https://evil/x)"/><rect style="fill:u\\rl(https://evil/x)"/>' +
+          '<rect style="background:\\6a avascript\\3a alert(1)"/>'
+      );
+
+      expect(report.removedAttributes).toEqual([
+        'rect[style]',
+        'rect[style]',
+        'rect[fill]',
+        'rect[style]',
+        'rect[style]',
+      ]);
+    });
+
+    it('should decode CSS escapes before checking stylesheets', () => {
+      const { report } = sanitize(
+        '<style>@\\69mport "https://evil/x.css";</style><style>@\\49 MPORT "https://evil/x.css";</style>' +
+          '<style>rect { fill: \\75\\72\\6c("https://evil/x") }</style>'
+      );
+
+      expect(report.removedElements).toEqual(['style', 'style', 'style']);
+    });
+
+    it('should check the urls of image sets, whether escaped or not', () => {
+      const { svg: markup, report } = sanitize(
+        '<rect style="fill: image-set(\'https://evil/x.png\' 1x)"/>' +
+          '<rect style="fill: -webkit-image-set(url(https://evil/x.png) 1x)"/>' +
+          '<rect style="fill: \\69mage-set(&quot;https://evil/x.png&quot; 1x)"/>' +
+          "<rect style=\"fill: image-\\73 et(type('image/png') 'https://evil/x.png' 1x)\"/>" +
+          '<rect style="fill: image-set(\'data:image/png;base64,AAAA\' 1x, url(#g) 2x)"/>'
+      );
+
+      expect(report.removedAttributes).toEqual(['rect[style]', 'rect[style]', 'rect[style]', 'rect[style]']);
+      expect(markup).toContain('data:image/png;base64,AAAA');
+    });
+
+    it('should report doctypes and stylesheet declarations outside of the root element', () => {
+      const { report } = NgxAdvancedImgSvgSanitizer.sanitize(
+        '<?xml version="1.0"?><?xml-stylesheet href="https://evil/x.css"?><!DOCTYPE svg>' + svg('')
+      );
+
+      expect(report.removedElements).toEqual(['?xml-stylesheet', '!DOCTYPE']);
+    });
+  });
+
+  describe('sanitizeSvg', () => {
+    it('should return the sanitized image as an SVG blob', async () => {
+      const { blob, report } = await NgxAdvancedImgSvgSanitizer.sanitizeSvg(
+        new Blob([svg('<script>alert(1)</script><rect width="1"/>')], { type: 'image/svg+xml' })
+      );
+
+      expect(blob.type).toBe('image/svg+xml;charset=utf-8');
+      expect(await blob.text()).not.toContain('script');
+      expect(report.removedElements).toEqual(['script']);
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { NgxAdvancedImgJxon } from './jxon';
+
+/**
+ * This interface lists everything that was removed from an SVG image while sanitizing it.
+ */
+export interface INgxAdvancedImgSvgSanitizationReport {
+  removedElements: string[]; // the names of the removed elements, along with their content, e.g. 'script'
+  removedAttributes: string[]; // the removed attributes along with the element they were on, e.g. 'rect[onclick]'
+}
+
+export interface INgxAdvancedImgSvgSanitization {
+  blob: Blob;
+  report: INgxAdvancedImgSvgSanitizationReport;
+}
+
+/**
+ * Sanitizes SVG images so that user supplied images can be displayed safely. Only an allowlist of static SVG elements
+ * and attributes is kept, which drops scripts, event handlers, foreign content and animations. References to
+ * anything outside of the image are removed as well, except for links and embedded raster images.
+ */
+export class NgxAdvancedImgSvgSanitizer {
+  private static SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+  private static ELEMENTS: Set<string> = new Set<string>([
+    'a',
+    'circle',
+    'clipPath',
+    'defs',
+    'desc',
+    'ellipse',
+    'feBlend',
+    'feColorMatrix',
+    'feComponentTransfer',
+    'feComposite',
+    'feConvolveMatrix',
+    'feDiffuseLighting',
+    'feDisplacementMap',
+    'feDistantLight',
+    'feDropShadow',
+    'feFlood',
+    'feFuncA',
+    'feFuncB',
+    'feFuncG',
+    'feFuncR',
+    'feGaussianBlur',
+    'feImage',
+    'feMerge',
+    'feMergeNode',
+    'feMorphology',
+    'feOffset',
+    'fePointLight',
+    'feSpecularLighting',
+    'feSpotLight',
+    'feTile',
+    'feTurbulence',
+    'filter',
+    'g',
+    'image',
+    'line',
+    'linearGradient',
+    'marker',
+    'mask',
+    'path',
+    'pattern',
+    'polygon',
+    'polyline',
+    'radialGradient',
+    'rect',
+    'stop',
+    'style',
+    'svg',
+    'switch',
+    'symbol',
+    'text',
+    'textPath',
+    'title',
+    'tspan',
+    'use',
+    'view',
+  ]);
+
+  private static ATTRIBUTES: Set<string> = new Set<string>([
+    // core and document structure
+    'id',
+    'class',
+    'style',
+    'lang',
+    'tabindex',
+    'role',
+    'xml:space',
+    'xml:lang',
+    'xmlns',
+    'xmlns:xlink',
+    'href',
+    'xlink:href',
+    'xlink:title',
+    'version',
+    'baseProfile',
+    'viewBox',
+    'preserveAspectRatio',
+    'requiredFeatures',
+    'requiredExtensions',
+    'systemLanguage',
+    'type',
+    'media',
+
+    // geometry
+    'x',
+    'y',
+    'x1',
+    'y1',
+    'x2',
+    'y2',
+    'cx',
+    'cy',
+    'r',
+    'rx',
+    'ry',
+    'fx',
+    'fy',
+    'fr',
+    'width',
+    'height',
+    'd',
+    'points',
+    'pathLength',
+    'transform',
+    'transform-origin',
+
+    // text
+    'dx',
+    'dy',
+    'rotate',
+    'textLength',
+    'lengthAdjust',
+    'startOffset',
+    'method',
+    'spacing',
+    'side',
+
+    // paint servers, clipping, masking and markers
+    'gradientUnits',
+    'gradientTransform',
+    'spreadMethod',
+    'offset',
+    'patternUnits',
+    'patternContentUnits',
+    'patternTransform',
+    'clipPathUnits',
+    'maskUnits',
+    'maskContentUnits',
+    'markerUnits',
+    'markerWidth',
+    'markerHeight',
+    'refX',
+    'refY',
+    'orient',
+
+    // presentation
+    'alignment-baseline',
+    'baseline-shift',
+    'clip',
+    'clip-path',
+    'clip-rule',
+    'color',
+    'color-interpolation',
+    'color-interpolation-filters',
+    'color-rendering',
+    'direction',
+    'display',
+    'dominant-baseline',
+    'enable-background',
+    'fill',
+    'fill-opacity',
+    'fill-rule',
+    'filter',
+    'flood-color',
+    'flood-opacity',
+    'font-family',
+    'font-size',
+    'font-size-adjust',
+    'font-stretch',
+    'font-style',
+    'font-variant',
+    'font-weight',
+    'image-rendering',
+    'isolation',
+    'letter-spacing',
+    'lighting-color',
+    'marker-end',
+    'marker-mid',
+    'marker-start',
+    'mask',
+    'mix-blend-mode',
+    'opacity',
+    'overflow',
+    'paint-order',
+    'shape-rendering',
+    'stop-color',
+    'stop-opacity',
+    'stroke',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+    'stroke-linecap',
+    'stroke-linejoin',
+    'stroke-miterlimit',
+    'stroke-opacity',
+    'stroke-width',
+    'text-anchor',
+    'text-decoration',
+    'text-rendering',
+    'unicode-bidi',
+    'vector-effect',
+    'visibility',
+    'word-spacing',
+    'writing-mode',
+
+    // filter primitives
+    'filterUnits',
+    'primitiveUnits',
+    'in',
+    'in2',
+    'result',
+    'stdDeviation',
+    'mode',
+    'values',
+    'operator',
+    'k1',
+    'k2',
+    'k3',
+    'k4',
+    'scale',
+    'xChannelSelector',
+    'yChannelSelector',
+    'order',
+    'kernelMatrix',
+    'divisor',
+    'bias',
+    'targetX',
+    'targetY',
+    'edgeMode',
+    'kernelUnitLength',
+    'preserveAlpha',
+    'surfaceScale',
+    'diffuseConstant',
+    'specularConstant',
+    'specularExponent',
+    'azimuth',
+    'elevation',
+    'pointsAtX',
+    'pointsAtY',
+    'pointsAtZ',
+    'limitingConeAngle',
+    'radius',
+    'baseFrequency',
+    'numOctaves',
+    'seed',
+    'stitchTiles',
+    'tableValues',
+    'slope',
+    'intercept',
+    'amplitude',
+    'exponent',
+  ]);
+
+  // embedded raster images are the only data that may be referenced from outside of the image itself
+  private static RASTER_DATA_URL = /^data:image\/(png|jpe?g|gif|webp|avif|bmp);/;
+  private static LINK_URL = /^(https?:|mailto:|#)/;
+
+  /**
+   * Sanitizes an SVG image.
+   *
+   * @param blob The SVG image to sanitize.
+   */
+  public static async sanitizeSvg(blob: Blob): Promise<INgxAdvancedImgSvgSanitization> {
+    const { svg, report } = NgxAdvancedImgSvgSanitizer.sanitize(await blob.text());
+
+    return { blob: new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), report };
+  }
+
+  /**
+   * Sanitizes SVG markup, returning the markup of the sanitized root svg element.
+   *
+   * @param markup The SVG markup to sanitize.
+   */
+  public static sanitize(markup: string): { svg: string; report: INgxAdvancedImgSvgSanitizationReport } {
+    const jxon: NgxAdvancedImgJxon = new NgxAdvancedImgJxon();
+    const document: Document = jxon.stringToXml(markup);
+    const report: INgxAdvancedImgSvgSanitizationReport = { removedElements: [], removedAttributes: [] };
+    const root: Element | null = document.documentElement;
+
+    if (!root || root.localName !== 'svg' || !NgxAdvancedImgSvgSanitizer.isSvgElement(root)) {
+      throw new Error('The data is not an SVG image');
+    }
+
+    // stylesheets and entities declared outside of the root element are never serialized
+    for (let i = 0; i < document.childNodes.length; i++) {
+      const node: Node = document.childNodes.item(i);
+
+      if (node.nodeType === node.PROCESSING_INSTRUCTION_NODE && node.nodeName !== 'xml') {
+        report.removedElements.push(`?${node.nodeName}`);
+      } else if (node.nodeType === node.DOCUMENT_TYPE_NODE) {
+        report.removedElements.push('!DOCTYPE');
+      }
+    }
+
+    NgxAdvancedImgSvgSanitizer.sanitizeElement(root, report);
+
+    return { svg: jxon.xmlToString(root as unknown as XMLDocument), report };
+  }
+
+  /**
+   * Sanitizes an element and its content in place.
+   *
+   * @param element The element to sanitize, which is expected to be allowed itself.
+   * @param report The report to add everything that was removed to.
+   */
+  public static sanitizeElement(element: Element, report: INgxAdvancedImgSvgSanitizationReport): void {
+    const attributes: Attr[] = [];
+    const children: Node[] = [];
+
+    // take snapshots first, since removing nodes changes the live lists
+    for (let i = 0; i < element.attributes.length; i++) {
+      attributes.push(element.attributes.item(i) as Attr);
+    }
+
+    for (let i = 0; i < element.childNodes.length; i++) {
+      children.push(element.childNodes.item(i));
+    }
+
+    for (const attribute of attributes) {
+      if (!NgxAdvancedImgSvgSanitizer.isAllowedAttribute(element, attribute)) {
+        report.removedAttributes.push(`${element.nodeName}[${attribute.name}]`);
+        element.removeAttribute(attribute.name);
+      }
+    }
+
+    for (const child of children) {
+      if (child.nodeType === child.ELEMENT_NODE) {
+        if (NgxAdvancedImgSvgSanitizer.isAllowedElement(child as Element)) {
+          NgxAdvancedImgSvgSanitizer.sanitizeElement(child as Element, report);
+        } else {
+          report.removedElements.push(child.nodeName);
+          element.removeChild(child);
+        }
+      } else if (child.nodeType === child.PROCESSING_INSTRUCTION_NODE) {
+        report.removedElements.push(`?${child.nodeName}`);
+        element.removeChild(child);
+      }
+    }
+  }
+
+  private static isSvgElement(element: Element): boolean {
+    return !element.namespaceURI || element.namespaceURI === NgxAdvancedImgSvgSanitizer.SVG_NAMESPACE;
+  }
+
+  private static isAllowedElement(element: Element): boolean {
+    if (
+      !NgxAdvancedImgSvgSanitizer.isSvgElement(element) ||
+      !NgxAdvancedImgSvgSanitizer.ELEMENTS.has(element.localName)
+    ) {
+      return false;
+    }
+
+    // stylesheets can import other stylesheets and reference external resources from any property
+    return element.localName !== 'style' || NgxAdvancedImgSvgSanitizer.isSafeStyle(element.textContent || '');
+  }
+
+  private static isAllowedAttribute(element: Element, attribute: Attr): boolean {
+    const name: string = attribute.name;
+
+    if (!NgxAdvancedImgSvgSanitizer.ATTRIBUTES.has(name) && !/^aria-[a-z]+$/.test(name)) {
+      return false;
+    }
+
+    if (name === 'href' || name === 'xlink:href') {
+      const url: string = NgxAdvancedImgSvgSanitizer.normalize(attribute.value);
+
+      if (element.localName === 'a') {
+        return NgxAdvancedImgSvgSanitizer.LINK_URL.test(url);
+      }
+
+      if (element.localName === 'image' || element.localName === 'feImage') {
+        return NgxAdvancedImgSvgSanitizer.isLocalUrl(url);
+      }
+
+      return url.charAt(0) === '#';
+    }
+
+    // styles and presentation attributes are both parsed as CSS
+    return name === 'style'
+      ? NgxAdvancedImgSvgSanitizer.isSafeStyle(attribute.value)
+      : NgxAdvancedImgSvgSanitizer.isSafeValue(
+          NgxAdvancedImgSvgSanitizer.normalize(NgxAdvancedImgSvgSanitizer.decodeCss(attribute.value))
+        );
+  }
+
+  /**
+   * Determines whether CSS only references resources within the image itself.
+   */
+  private static isSafeStyle(css: string): boolean {
+    const value: string = NgxAdvancedImgSvgSanitizer.normalize(NgxAdvancedImgSvgSanitizer.decodeCss(css));
+
+    return !/@import|expression\(|behavior:|-moz-binding/.test(value) && NgxAdvancedImgSvgSanitizer.isSafeValue(value);
+  }
+
+  /**
+   * Determines whether a normalized CSS value only references resources within the image itself, such as a fill of
+   * 'url(#gradient)'.
+   */
+  private static isSafeValue(value: string): boolean {
+    if (/javascript:|vbscript:/.test(value)) {
+      return false;
+    }
+
+    const urls = /(url|src)\((['"]?)(.*?)\2\)/g;
+    const sets = /image-set\(((?:[^()]|\([^()]*\))*)\)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = urls.exec(value))) {
+      if (!NgxAdvancedImgSvgSanitizer.isLocalUrl(match[3])) {
+        return false;
+      }
+    }
+
+    // image sets also take their urls as plain strings
+    while ((match = sets.exec(value))) {
+      const strings = /(['"])(.*?)\1/g;
+      let string: RegExpExecArray | null;
+
+      while ((string = strings.exec(match[1]))) {
+        if (!NgxAdvancedImgSvgSanitizer.isLocalUrl(string[2])) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  private static isLocalUrl(url: string): boolean {
+    return url.charAt(0) === '#' || NgxAdvancedImgSvgSanitizer.RASTER_DATA_URL.test(url);
+  }
+
+  /**
+   * Decodes the escapes of CSS, with which any character of a keyword or function name can be written, e.g. '\75rl('
+   * for 'url('.
+   */
+  private static decodeCss(css: string): string {
+    return css.replace(
+      /\\(?:([0-9a-fA-F]{1,6})(?:\r\n|[ \t\r\n\f])?|([\s\S]))/g,
+      (escape: string, hex: string | undefined, character: string | undefined) => {
+        if (character !== undefined) {
+          return character;
+        }
+
+        const codePoint: number = parseInt(hex as string, 16);
+
+        // like browsers, replace null, surrogates and anything past the last code point
+        return codePoint === 0 || (codePoint >= 0xd800 && codePoint <= 0xdfff) || codePoint > 0x10ffff
+          ? '\ufffd'
+          : String.fromCodePoint(codePoint);
+      }
+    );
+  }
+
+  /**
+   * Lowercases a value and strips the whitespace and control characters browsers ignore within urls.
+   */
+  private static normalize(value: string): string {
+    return Array.from(value)
+      .filter((character: string) => character.charCodeAt(0) > 0x20 && character.charCodeAt(0) !== 0x7f)
+      .join('')
+      .toLowerCase();
+  }
+}
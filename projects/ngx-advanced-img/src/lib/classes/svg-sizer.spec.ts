@@ -0,0 +1,86 @@
+import { INgxAdvancedImgSvgSize, INgxAdvancedImgSvgSizeOptions, NgxAdvancedImgSvgSizer } from './svg-sizer';
+
+function resolve(attributes: string, options?: INgxAdvancedImgSvgSizeOptions): INgxAdvancedImgSvgSize {
+  return NgxAdvancedImgSvgSizer.resolveMarkup(`<svg xmlns="http://www.w3.org/2000/svg" ${attributes}/>`, options);
+}
+
+describe('NgxAdvancedImgSvgSizer', () => {
+  describe('resolveMarkup', () => {
+    it('should reject markup that is not an SVG image', () => {
+      expect(() => NgxAdvancedImgSvgSizer.resolveMarkup('<html/>')).toThrowError('The data is not an SVG image');
+    });
+
+    it('should take an absolute width and height as they are', () => {
+      expect(resolve('width="120" height="80px" viewBox="0 0 10 10"')).toEqual({
+        width: 120,
+        height: 80,
+        viewBox: { x: 0, y: 0, width: 10, height: 10 },
+        preserveAspectRatio: 'xMidYMid meet',
+        fallback: false,
+      });
+    });
+
+    it('should convert absolute and font relative units into pixels', () => {
+      expect(resolve('width="1in" height="72pt"')).toEqual(jasmine.objectContaining({ width: 96, height: 96 }));
+      expect(resolve('width="2.54cm" height="25.4mm"')).toEqual(jasmine.objectContaining({ width: 96, height: 96 }));
+      expect(resolve('width="1pc" height="101.6Q"')).toEqual(jasmine.objectContaining({ width: 16, height: 96 }));
+      expect(resolve('width="2em" height="2ex"')).toEqual(jasmine.objectContaining({ width: 32, height: 16 }));
+      expect(resolve('width="2rem" height="1e2"', { fontSize: 10 })).toEqual(
+        jasmine.objectContaining({ width: 20, height: 100 })
+      );
+    });
+
+    it('should take the size of the viewBox when both width and height are missing or relative', () => {
+      expect(resolve('viewBox="-5,-5 200,100"')).toEqual(
+        jasmine.objectContaining({ width: 200, height: 100, viewBox: { x: -5, y: -5, width: 200, height: 100 } })
+      );
+      expect(resolve('width="100%" height="50%" viewBox="0 0 200 100"')).toEqual(
+        jasmine.objectContaining({ width: 200, height: 100, fallback: false })
+      );
+    });
+
+    it('should derive a missing dimension from the other and the aspect ratio of the viewBox', () => {
+      expect(resolve('width="50" viewBox="0 0 200 100"')).toEqual(jasmine.objectContaining({ width: 50, height: 25 }));
+      expect(resolve('height="50%" width="50" viewBox="0 0 200 100"')).toEqual(
+        jasmine.objectContaining({ width: 50, height: 25 })
+      );
+      expect(resolve('height="50" viewBox="0 0 200 100"')).toEqual(
+        jasmine.objectContaining({ width: 100, height: 50 })
+      );
+    });
+
+    it('should fall back to the size browsers use without an absolute size or viewBox', () => {
+      expect(resolve('')).toEqual({
+        width: 300,
+        height: 150,
+        viewBox: undefined,
+        preserveAspectRatio: 'xMidYMid meet',
+        fallback: true,
+      });
+      expect(resolve('width="40"')).toEqual(jasmine.objectContaining({ width: 40, height: 150, fallback: true }));
+      expect(resolve('', { fallbackWidth: 64, fallbackHeight: 48 })).toEqual(
+        jasmine.objectContaining({ width: 64, height: 48, fallback: true })
+      );
+      expect(resolve('', { fallbackWidth: -1, fallbackHeight: NaN })).toEqual(
+        jasmine.objectContaining({ width: 300, height: 150 })
+      );
+    });
+
+    it('should ignore invalid and non-positive lengths and viewBoxes without area', () => {
+      expect(resolve('width="0" height="-10" viewBox="0 0 20 10"')).toEqual(
+        jasmine.objectContaining({ width: 20, height: 10 })
+      );
+      expect(resolve('width="10vw" height="auto" viewBox="0 0 20 10"')).toEqual(
+        jasmine.objectContaining({ width: 20, height: 10 })
+      );
+      expect(resolve('viewBox="0 0 0 10"').viewBox).toBeUndefined();
+      expect(resolve('viewBox="0 0 10"').viewBox).toBeUndefined();
+      expect(resolve('viewBox="0 0 10 ten"').viewBox).toBeUndefined();
+    });
+
+    it('should keep how the viewBox is fitted', () => {
+      expect(resolve('preserveAspectRatio=" xMinYMin slice "').preserveAspectRatio).toBe('xMinYMin slice');
+      expect(resolve('preserveAspectRatio=""').preserveAspectRatio).toBe('xMidYMid meet');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { NgxAdvancedImgJxon } from './jxon';
+
+/**
+ * This interface configures how the size of SVG images is resolved when it is relative or missing.
+ */
+export interface INgxAdvancedImgSvgSizeOptions {
+  fallbackWidth?: number | undefined; // the width of images without an absolute width or viewBox, 300 by default as in browsers
+  fallbackHeight?: number | undefined; // the height of images without an absolute height or viewBox, 150 by default as in browsers
+  fontSize?: number | undefined; // the size of an em in pixels, 16 by default
+}
+
+/**
+ * This interface describes the intrinsic size of an SVG image.
+ */
+export interface INgxAdvancedImgSvgSize {
+  width: number; // in pixels
+  height: number; // in pixels
+  viewBox: { x: number; y: number; width: number; height: number } | undefined;
+  preserveAspectRatio: string; // how the viewBox is fitted when its aspect ratio differs from that of the size
+  fallback: boolean; // whether the fallback size was used for lack of an absolute size or viewBox
+}
+
+/**
+ * Resolves the intrinsic size of SVG images from their width, height and viewBox, the way browsers size them.
+ */
+export class NgxAdvancedImgSvgSizer {
+  private static DEFAULT_FALLBACK_WIDTH = 300;
+  private static DEFAULT_FALLBACK_HEIGHT = 150;
+  private static DEFAULT_FONT_SIZE = 16;
+
+  // the number of pixels in each absolute unit, at 96 pixels per inch
+  private static UNITS: Record<string, number> = {
+    '': 1,
+    px: 1,
+    pt: 96 / 72,
+    pc: 16,
+    mm: 96 / 25.4,
+    cm: 96 / 2.54,
+    q: 96 / 101.6,
+    in: 96,
+  };
+
+  /**
+   * Resolves the intrinsic size of SVG markup.
+   *
+   * @param markup The SVG markup to size.
+   * @param options The fallbacks for relative and missing sizes.
+   */
+  public static resolveMarkup(markup: string, options?: INgxAdvancedImgSvgSizeOptions): INgxAdvancedImgSvgSize {
+    const root: Element | null = new NgxAdvancedImgJxon().stringToXml(markup).documentElement;
+
+    if (!root || root.localName !== 'svg') {
+      throw new Error('The data is not an SVG image');
+    }
+
+    return NgxAdvancedImgSvgSizer.resolve(root, options);
+  }
+
+  /**
+   * Resolves the intrinsic size of an svg element. A missing width or height is derived from the other along with
+   * the aspect ratio of the viewBox, or taken from the viewBox when both are missing. Percentages have nothing to be
+   * relative to, so they count as missing.
+   *
+   * @param svg The svg element to size.
+   * @param options The fallbacks for relative and missing sizes.
+   */
+  public static resolve(svg: Element, options?: INgxAdvancedImgSvgSizeOptions): INgxAdvancedImgSvgSize {
+    const fontSize: number = NgxAdvancedImgSvgSizer.getPositive(
+      options?.fontSize,
+      NgxAdvancedImgSvgSizer.DEFAULT_FONT_SIZE
+    );
+    const fallbackWidth: number = NgxAdvancedImgSvgSizer.getPositive(
+      options?.fallbackWidth,
+      NgxAdvancedImgSvgSizer.DEFAULT_FALLBACK_WIDTH
+    );
+    const fallbackHeight: number = NgxAdvancedImgSvgSizer.getPositive(
+      options?.fallbackHeight,
+      NgxAdvancedImgSvgSizer.DEFAULT_FALLBACK_HEIGHT
+    );
+    const viewBox: INgxAdvancedImgSvgSize['viewBox'] = NgxAdvancedImgSvgSizer.parseViewBox(svg.getAttribute('viewBox'));
+    const preserveAspectRatio: string = (svg.getAttribute('preserveAspectRatio') || '').trim() || 'xMidYMid meet';
+    let width: number | undefined = NgxAdvancedImgSvgSizer.parseLength(svg.getAttribute('width'), fontSize);
+    let height: number | undefined = NgxAdvancedImgSvgSizer.parseLength(svg.getAttribute('height'), fontSize);
+    let fallback = false;
+
+    if (width === undefined && height === undefined) {
+      width = viewBox?.width;
+      height = viewBox?.height;
+    } else if (height === undefined) {
+      height = viewBox ? ((width as number) * viewBox.height) / viewBox.width : undefined;
+    } else if (width === undefined) {
+      width = viewBox ? (height * viewBox.width) / viewBox.height : undefined;
+    }
+
+    if (width === undefined) {
+      width = fallbackWidth;
+      fallback = true;
+    }
+
+    if (height === undefined) {
+      height = fallbackHeight;
+      fallback = true;
+    }
+
+    return { width, height, viewBox, preserveAspectRatio, fallback };
+  }
+
+  /**
+   * Converts a length into pixels. Returns undefined for relative, invalid and non-positive lengths.
+   */
+  private static parseLength(value: string | null, fontSize: number): number | undefined {
+    const match: RegExpExecArray | null = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*([a-z%]*)\s*$/i.exec(
+      value || ''
+    );
+
+    if (!match) {
+      return undefined;
+    }
+
+    const unit: string = match[2].toLowerCase();
+    const scale: number | undefined =
+      unit === 'em' || unit === 'rem' ? fontSize : unit === 'ex' ? fontSize / 2 : NgxAdvancedImgSvgSizer.UNITS[unit];
+    const length: number = parseFloat(match[1]) * (scale ?? NaN);
+
+    return isFinite(length) && length > 0 ? length : undefined;
+  }
+
+  /**
+   * Parses a viewBox, whose values can be separated by whitespace and/or a comma. Returns undefined for a viewBox
+   * that is invalid or has no area.
+   */
+  private static parseViewBox(value: string | null): INgxAdvancedImgSvgSize['viewBox'] {
+    const values: number[] = (value || '')
+      .trim()
+      .split(/[\s,]+/)
+      .map((part: string) => (part ? +part : NaN));
+
+    if (values.length !== 4 || !values.every((part: number) => isFinite(part)) || values[2] <= 0 || values[3] <= 0) {
+      return undefined;
+    }
+
+    return { x: values[0], y: values[1], width: values[2], height: values[3] };
+  }
+
+  private static getPositive(value: number | undefined, fallback: number): number {
+    return typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,122 @@
+import { INgxAdvancedImgTransformFrame, NgxAdvancedImgTransformer } from './transform';
+
+describe('NgxAdvancedImgTransformer', () => {
+  describe('getFrame', () => {
+    it('should describe the image as it is without a transform', () => {
+      const frame: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(undefined, 400, 300);
+
+      expect(frame.width).toBe(400);
+      expect(frame.height).toBe(300);
+      expect(frame.crop).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+      expect(frame.angle).toBe(0);
+      expect(frame.scaleX).toBe(1);
+      expect(frame.scaleY).toBe(1);
+      expect(frame.background).toBeUndefined();
+    });
+
+    it('should clamp the crop to the bounds of the image', () => {
+      const frame: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(
+        { crop: { x: 350.4, y: -10, width: 100, height: 500 } },
+        400,
+        300
+      );
+
+      expect(frame.crop).toEqual({ x: 350, y: 0, width: 50, height: 300 });
+      expect(frame.width).toBe(50);
+      expect(frame.height).toBe(300);
+    });
+
+    it('should swap the dimensions for quarter turns and grow to the bounding box for other angles', () => {
+      const quarter: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame({ rotate: -90 }, 400, 300);
+      const diagonal: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame({ rotate: 45 }, 100, 100);
+
+      expect(quarter.width).toBe(300);
+      expect(quarter.height).toBe(400);
+      expect(quarter.angle).toBeCloseTo((270 * Math.PI) / 180, 10);
+      expect(diagonal.width).toBe(141);
+      expect(diagonal.height).toBe(141);
+    });
+
+    it('should derive a missing dimension from the aspect ratio', () => {
+      const frame: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame({ width: 200 }, 400, 300);
+
+      expect(frame.width).toBe(200);
+      expect(frame.height).toBe(150);
+      expect(frame.scaleX).toBe(0.5);
+      expect(frame.scaleY).toBe(0.5);
+    });
+
+    it('should center a contained image and cover around the focal point', () => {
+      const contained: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(
+        { width: 100, height: 100, fit: 'contain' },
+        400,
+        200
+      );
+      const covered: INgxAdvancedImgTransformFrame = NgxAdvancedImgTransformer.getFrame(
+        { width: 100, height: 100, focalPoint: { x: 1, y: 0.5 } },
+        400,
+        200
+      );
+
+      expect(contained.scaleX).toBe(0.25);
+      expect(contained.offsetX).toBe(0);
+      expect(contained.offsetY).toBe(25);
+      expect(covered.scaleX).toBe(0.5);
+      expect(covered.offsetX).toBe(-100);
+      expect(covered.offsetY).toBe(0);
+    });
+
+    it('should fill uncovered areas with white for opaque output without a background', () => {
+      expect(NgxAdvancedImgTransformer.getFrame({ rotate: 30 }, 100, 100, true).background).toBe('#ffffff');
+      expect(
+        NgxAdvancedImgTransformer.getFrame({ width: 50, height: 100, fit: 'contain' }, 100, 100, true).background
+      ).toBe('#ffffff');
+      expect(NgxAdvancedImgTransformer.getFrame({ rotate: 30 }, 100, 100).background).toBeUndefined();
+      expect(NgxAdvancedImgTransformer.getFrame({ rotate: 30, background: 'red' }, 100, 100, true).background).toBe(
+        'red'
+      );
+      expect(NgxAdvancedImgTransformer.getFrame({ rotate: 90 }, 100, 100, true).background).toBeUndefined();
+    });
+  });
+
+  describe('introducesTransparency', () => {
+    it('should detect rotations other than quarter turns and contained fits without a background', () => {
+      expect(NgxAdvancedImgTransformer.introducesTransparency(undefined)).toBeFalse();
+      expect(NgxAdvancedImgTransformer.introducesTransparency({ rotate: 180 })).toBeFalse();
+      expect(NgxAdvancedImgTransformer.introducesTransparency({ rotate: 15 })).toBeTrue();
+      expect(NgxAdvancedImgTransformer.introducesTransparency({ width: 10, height: 10, fit: 'contain' })).toBeTrue();
+      expect(NgxAdvancedImgTransformer.introducesTransparency({ width: 10, height: 10 })).toBeFalse();
+      expect(NgxAdvancedImgTransformer.introducesTransparency({ rotate: 15, background: '#000' })).toBeFalse();
+    });
+  });
+
+  describe('apply', () => {
+    it('should fill the background before placing, flipping and rotating the image', () => {
+      const calls: string[] = [];
+      const ctx = jasmine.createSpyObj<CanvasRenderingContext2D>('ctx', ['scale', 'translate', 'rotate', 'fillRect']);
+
+      ctx.scale.and.callFake((x: number, y: number) => calls.push(`scale ${x} ${y}`));
+      ctx.translate.and.callFake((x: number, y: number) => calls.push(`translate ${x} ${y}`));
+      ctx.rotate.and.callFake((angle: number) => calls.push(`rotate ${angle}`));
+      ctx.fillRect.and.callFake(() => calls.push(`fill ${ctx.fillStyle}`));
+
+      NgxAdvancedImgTransformer.apply(
+        ctx,
+        NgxAdvancedImgTransformer.getFrame({ flipHorizontal: true, background: 'red' }, 40, 20),
+        20,
+        10
+      );
+
+      expect(calls).toEqual([
+        'scale 0.5 0.5',
+        'fill red',
+        'translate 0 0',
+        'scale 1 1',
+        'translate 20 10',
+        'scale -1 1',
+        'rotate 0',
+        'translate -20 -10',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Describes the geometric changes to make to an image while it is optimized. The changes are applied in order:
+ * crop, rotate, flip and finally resize.
+ */
+export interface INgxAdvancedImgTransform {
+  crop?: { x: number; y: number; width: number; height: number } | undefined; // in pixels of the upright image
+  rotate?: number | undefined; // clockwise degrees, any angle other than a multiple of 90 fills the corners with the background
+  flipHorizontal?: boolean | undefined;
+  flipVertical?: boolean | undefined;
+  width?: number | undefined; // the width to resize to, derived from the height and aspect ratio if omitted
+  height?: number | undefined; // the height to resize to, derived from the width and aspect ratio if omitted
+  fit?: 'contain' | 'cover' | 'fill' | undefined; // how to resize to both a width and height, 'cover' by default
+  focalPoint?: { x: number; y: number } | undefined; // the point (0 to 1) of the rotated image to keep in view when covering, the center by default
+  background?: string | undefined; // the fill for areas the image does not cover, transparent by default and white for output types without transparency
+}
+
+/**
+ * The resolved geometry of a transform for an image of a given size.
+ */
+export interface INgxAdvancedImgTransformFrame {
+  width: number; // the width of the transformed output
+  height: number; // the height of the transformed output
+  crop: { x: number; y: number; width: number; height: number };
+  angle: number; // the clockwise rotation in radians
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  boxWidth: number; // the width of the bounding box of the rotated crop
+  boxHeight: number; // the height of the bounding box of the rotated crop
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+  background: string | undefined;
+}
+
+type NgxAdvancedImgTransformContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Resolves transforms into the geometry of their output and applies them to a rendering context, so that an
+ * image is cropped, rotated, flipped and resized within a single draw.
+ */
+export class NgxAdvancedImgTransformer {
+  private static OPAQUE_BACKGROUND = '#ffffff'; // the fill of uncovered areas for output types without transparency
+
+  /**
+   * Resolves the geometry of a transform. Without a transform the frame describes the image as it is.
+   *
+   * @param transform The transform to resolve.
+   * @param width The width of the upright image.
+   * @param height The height of the upright image.
+   * @param opaque If true, then the output type cannot hold transparency and uncovered areas are filled with white
+   * unless a background is given, rather than being encoded as black.
+   */
+  public static getFrame(
+    transform: INgxAdvancedImgTransform | undefined,
+    width: number,
+    height: number,
+    opaque = false
+  ): INgxAdvancedImgTransformFrame {
+    const crop: { x: number; y: number; width: number; height: number } = NgxAdvancedImgTransformer.getCrop(
+      transform?.crop,
+      width,
+      height
+    );
+    const degrees: number = NgxAdvancedImgTransformer.isValid(transform?.rotate)
+      ? (((transform?.rotate as number) % 360) + 360) % 360
+      : 0;
+    const angle: number = (degrees * Math.PI) / 180;
+    let boxWidth: number = crop.width;
+    let boxHeight: number = crop.height;
+
+    // quarter turns swap the dimensions exactly, other angles grow to the bounding box of the rotated crop
+    if (degrees === 90 || degrees === 270) {
+      boxWidth = crop.height;
+      boxHeight = crop.width;
+    } else if (degrees % 90 !== 0) {
+      boxWidth = Math.abs(crop.width * Math.cos(angle)) + Math.abs(crop.height * Math.sin(angle));
+      boxHeight = Math.abs(crop.width * Math.sin(angle)) + Math.abs(crop.height * Math.cos(angle));
+    }
+
+    const hasWidth: boolean = NgxAdvancedImgTransformer.isValid(transform?.width) && (transform?.width as number) > 0;
+    const hasHeight: boolean =
+      NgxAdvancedImgTransformer.isValid(transform?.height) && (transform?.height as number) > 0;
+    let frameWidth: number = boxWidth;
+    let frameHeight: number = boxHeight;
+
+    if (hasWidth && hasHeight) {
+      frameWidth = transform?.width as number;
+      frameHeight = transform?.height as number;
+    } else if (hasWidth) {
+      frameWidth = transform?.width as number;
+      frameHeight = frameWidth * (boxHeight / boxWidth);
+    } else if (hasHeight) {
+      frameHeight = transform?.height as number;
+      frameWidth = frameHeight * (boxWidth / boxHeight);
+    }
+
+    frameWidth = Math.max(1, Math.round(frameWidth));
+    frameHeight = Math.max(1, Math.round(frameHeight));
+
+    // without an exact size to fit into, the rotated crop simply fills the frame
+    let scaleX: number = frameWidth / boxWidth;
+    let scaleY: number = frameHeight / boxHeight;
+    let offsetX = 0;
+    let offsetY = 0;
+
+    if (hasWidth && hasHeight && transform?.fit !== 'fill') {
+      const scale: number = transform?.fit === 'contain' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+      const scaledWidth: number = boxWidth * scale;
+      const scaledHeight: number = boxHeight * scale;
+
+      scaleX = scaleY = scale;
+
+      if (transform?.fit === 'contain') {
+        offsetX = (frameWidth - scaledWidth) / 2;
+        offsetY = (frameHeight - scaledHeight) / 2;
+      } else {
+        // center the focal point as far as the covered image allows
+        const focalX: number = Math.max(0, Math.min(1, transform?.focalPoint?.x ?? 0.5));
+        const focalY: number = Math.max(0, Math.min(1, transform?.focalPoint?.y ?? 0.5));
+
+        offsetX = Math.max(frameWidth - scaledWidth, Math.min(0, frameWidth / 2 - focalX * scaledWidth));
+        offsetY = Math.max(frameHeight - scaledHeight, Math.min(0, frameHeight / 2 - focalY * scaledHeight));
+      }
+    }
+
+    return {
+      width: frameWidth,
+      height: frameHeight,
+      crop,
+      angle,
+      flipHorizontal: !!transform?.flipHorizontal,
+      flipVertical: !!transform?.flipVertical,
+      boxWidth,
+      boxHeight,
+      scaleX,
+      scaleY,
+      offsetX,
+      offsetY,
+      background:
+        opaque && NgxAdvancedImgTransformer.introducesTransparency(transform)
+          ? NgxAdvancedImgTransformer.OPAQUE_BACKGROUND
+          : transform?.background,
+    };
+  }
+
+  /**
+   * Determines whether a transform may leave areas of its output uncovered by the image, which are transparent
+   * unless a background is given.
+   *
+   * @param transform The transform to inspect.
+   */
+  public static introducesTransparency(transform: INgxAdvancedImgTransform | undefined): boolean {
+    if (!transform || transform.background) {
+      return false;
+    }
+
+    const rotated: boolean =
+      NgxAdvancedImgTransformer.isValid(transform.rotate) && (transform.rotate as number) % 90 !== 0;
+    const contained: boolean =
+      transform.fit === 'contain' &&
+      NgxAdvancedImgTransformer.isValid(transform.width) &&
+      NgxAdvancedImgTransformer.isValid(transform.height);
+
+    return rotated || contained;
+  }
+
+  /**
+   * Transforms a rendering context so that drawing the upright image at its natural size, from the origin,
+   * produces the transformed output across the whole canvas. Any background is filled in first.
+   *
+   * @param ctx The context that will be drawn to.
+   * @param frame The resolved transform.
+   * @param canvasWidth The width of the canvas, which may scale the frame.
+   * @param canvasHeight The height of the canvas, which may scale the frame.
+   */
+  public static apply(
+    ctx: NgxAdvancedImgTransformContext,
+    frame: INgxAdvancedImgTransformFrame,
+    canvasWidth: number,
+    canvasHeight: number
+  ): void {
+    ctx.scale(canvasWidth / frame.width, canvasHeight / frame.height);
+
+    if (frame.background) {
+      ctx.fillStyle = frame.background;
+      ctx.fillRect(0, 0, frame.width, frame.height);
+    }
+
+    // place the bounding box of the rotated crop within the frame
+    ctx.translate(frame.offsetX, frame.offsetY);
+    ctx.scale(frame.scaleX, frame.scaleY);
+
+    // flip and rotate around the center of the bounding box
+    ctx.translate(frame.boxWidth / 2, frame.boxHeight / 2);
+    ctx.scale(frame.flipHorizontal ? -1 : 1, frame.flipVertical ? -1 : 1);
+    ctx.rotate(frame.angle);
+    ctx.translate(-frame.crop.width / 2 - frame.crop.x, -frame.crop.height / 2 - frame.crop.y);
+  }
+
+  /**
+   * Clamps a crop rectangle to the bounds of the image, using the whole image if no crop is given.
+   *
+   * @param crop The requested crop.
+   * @param width The width of the upright image.
+   * @param height The height of the upright image.
+   */
+  private static getCrop(
+    crop: INgxAdvancedImgTransform['crop'],
+    width: number,
+    height: number
+  ): { x: number; y: number; width: number; height: number } {
+    if (
+      !crop ||
+      ![crop.x, crop.y, crop.width, crop.height].every((value: number) => NgxAdvancedImgTransformer.isValid(value))
+    ) {
+      return { x: 0, y: 0, width, height };
+    }
+
+    const x: number = Math.max(0, Math.min(width - 1, Math.round(crop.x)));
+    const y: number = Math.max(0, Math.min(height - 1, Math.round(crop.y)));
+
+    return {
+      x,
+      y,
+      width: Math.max(1, Math.min(width - x, Math.round(crop.width))),
+      height: Math.max(1, Math.min(height - y, Math.round(crop.height))),
+    };
+  }
+
+  private static isValid(value: unknown): boolean {
+    return typeof value === 'number' && isFinite(value);
+  }
+}
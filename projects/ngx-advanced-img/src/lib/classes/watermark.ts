@@ -0,0 +1,163 @@
+import type { NgxAdvancedImgBitmap } from './bitmap';
+
+export type NgxAdvancedImgWatermarkAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+export type NgxAdvancedImgWatermarkImage =
+  | NgxAdvancedImgBitmap
+  | ImageBitmap
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | OffscreenCanvas;
+
+/**
+ * Describes an image or text watermark to stamp onto optimized output. Its size and margin are relative to the
+ * output, so the watermark looks the same whatever size the output ends up being.
+ */
+export interface INgxAdvancedImgWatermark {
+  image?: NgxAdvancedImgWatermarkImage | undefined; // the image to stamp, such as a loaded logo
+  text?: string | undefined; // the text to stamp when no image is given
+  font?: string | undefined; // the font family of the text, 'sans-serif' by default
+  fontWeight?: string | undefined; // the font weight of the text, 'bold' by default
+  color?: string | undefined; // the fill color of the text, 'white' by default
+  anchor?: NgxAdvancedImgWatermarkAnchor | undefined; // where to place the watermark, 'bottom-right' by default
+  margin?: number | undefined; // the space around the watermark, relative to the shorter side of the output, 0.02 by default
+  opacity?: number | undefined; // from 0 to 1, 0.5 by default
+  scale?: number | undefined; // the width of the watermark relative to the width of the output, 0.2 by default
+  tile?: boolean | undefined; // if true, false by default, then the watermark is repeated across the output, spaced by the margin
+}
+
+type NgxAdvancedImgWatermarkContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type NgxAdvancedImgWatermarkSource = Exclude<NgxAdvancedImgWatermarkImage, NgxAdvancedImgBitmap>;
+
+/**
+ * Stamps watermarks onto rendering contexts.
+ */
+export class NgxAdvancedImgWatermarker {
+  private static DEFAULT_MARGIN = 0.02;
+  private static DEFAULT_OPACITY = 0.5;
+  private static DEFAULT_SCALE = 0.2;
+  private static MEASURE_FONT_SIZE = 100;
+
+  /**
+   * Draws a watermark over everything drawn to a context, regardless of any transform the context has.
+   *
+   * @param ctx The context to draw to.
+   * @param width The width of the output.
+   * @param height The height of the output.
+   * @param watermark The watermark to draw.
+   * @param image The drawable image of the watermark, when it is an image watermark.
+   */
+  public static draw(
+    ctx: NgxAdvancedImgWatermarkContext,
+    width: number,
+    height: number,
+    watermark: INgxAdvancedImgWatermark,
+    image?: NgxAdvancedImgWatermarkSource
+  ): void {
+    const text: string = image ? '' : watermark.text || '';
+
+    if (!image && !text) {
+      return;
+    }
+
+    const opacity: number = NgxAdvancedImgWatermarker.isValid(watermark.opacity)
+      ? Math.max(0, Math.min(1, watermark.opacity as number))
+      : NgxAdvancedImgWatermarker.DEFAULT_OPACITY;
+    const scale: number =
+      NgxAdvancedImgWatermarker.isValid(watermark.scale) && (watermark.scale as number) > 0
+        ? (watermark.scale as number)
+        : NgxAdvancedImgWatermarker.DEFAULT_SCALE;
+    const margin: number =
+      Math.max(
+        0,
+        NgxAdvancedImgWatermarker.isValid(watermark.margin)
+          ? (watermark.margin as number)
+          : NgxAdvancedImgWatermarker.DEFAULT_MARGIN
+      ) * Math.min(width, height);
+    const markWidth: number = width * scale;
+    let markHeight: number;
+
+    ctx.save();
+
+    try {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalAlpha = opacity;
+
+      if (image) {
+        const size: { width: number; height: number } = NgxAdvancedImgWatermarker.getSize(image);
+
+        markHeight = markWidth * (size.height / Math.max(1, size.width));
+      } else {
+        // measure the text at a known size, then scale the font so the text spans the watermark width
+        const font = (size: number): string =>
+          `${watermark.fontWeight || 'bold'} ${size}px ${watermark.font || 'sans-serif'}`;
+
+        ctx.font = font(NgxAdvancedImgWatermarker.MEASURE_FONT_SIZE);
+
+        const fontSize: number =
+          (NgxAdvancedImgWatermarker.MEASURE_FONT_SIZE * markWidth) / Math.max(1, ctx.measureText(text).width);
+
+        ctx.font = font(fontSize);
+        ctx.fillStyle = watermark.color || 'white';
+        ctx.textBaseline = 'top';
+        markHeight = fontSize;
+      }
+
+      const stamp = (x: number, y: number): void => {
+        if (image) {
+          ctx.drawImage(image, x, y, markWidth, markHeight);
+        } else {
+          ctx.fillText(text, x, y);
+        }
+      };
+
+      if (watermark.tile) {
+        for (let y = margin; y < height; y += markHeight + Math.max(1, margin)) {
+          for (let x = margin; x < width; x += markWidth + Math.max(1, margin)) {
+            stamp(x, y);
+          }
+        }
+      } else {
+        const anchor: NgxAdvancedImgWatermarkAnchor = watermark.anchor || 'bottom-right';
+        const x: number = /left$/.test(anchor)
+          ? margin
+          : /right$/.test(anchor)
+            ? width - markWidth - margin
+            : (width - markWidth) / 2;
+        const y: number = /^top/.test(anchor)
+          ? margin
+          : /^bottom/.test(anchor)
+            ? height - markHeight - margin
+            : (height - markHeight) / 2;
+
+        stamp(x, y);
+      }
+    } finally {
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Gets the natural size of a drawable image.
+   */
+  private static getSize(image: NgxAdvancedImgWatermarkSource): { width: number; height: number } {
+    if (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) {
+      return { width: image.naturalWidth || image.width, height: image.naturalHeight || image.height };
+    }
+
+    return { width: image.width, height: image.height };
+  }
+
+  private static isValid(value: unknown): boolean {
+    return typeof value === 'number' && isFinite(value);
+  }
+}
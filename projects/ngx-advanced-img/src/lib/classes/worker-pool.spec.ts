@@ -0,0 +1,88 @@
+import { NgxAdvancedImgAbortError } from './abort-error';
+import { INgxAdvancedImgWorkerRequest, INgxAdvancedImgWorkerResponse, NgxAdvancedImgWorkerPool } from './worker-pool';
+
+/**
+ * A worker that answers every request with its payload, or fails to post payloads that cannot be cloned.
+ */
+class FakeWorker {
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onerror: ((event: ErrorEvent) => void) | null = null;
+  public posted: INgxAdvancedImgWorkerRequest[] = [];
+  public terminated = false;
+
+  public postMessage(request: INgxAdvancedImgWorkerRequest): void {
+    if (typeof request.payload === 'function') {
+      throw new Error('DataCloneError');
+    }
+
+    this.posted.push(request);
+
+    if (request.type !== 'abort' && request.payload !== 'hang') {
+      setTimeout(() => {
+        this.onmessage?.({
+          data: { id: request.id, result: request.payload } as INgxAdvancedImgWorkerResponse,
+        } as MessageEvent);
+      });
+    }
+  }
+
+  public terminate(): void {
+    this.terminated = true;
+  }
+}
+
+describe('NgxAdvancedImgWorkerPool', () => {
+  let workers: FakeWorker[];
+  let pool: NgxAdvancedImgWorkerPool;
+
+  beforeEach(() => {
+    workers = [];
+    pool = new NgxAdvancedImgWorkerPool(() => {
+      const worker: FakeWorker = new FakeWorker();
+      workers.push(worker);
+
+      return worker as unknown as Worker;
+    }, 2);
+  });
+
+  afterEach(() => {
+    pool.terminate();
+  });
+
+  it('should resolve requests with the response of the worker', async () => {
+    await expectAsync(pool.request<string>('echo', 'hello')).toBeResolvedTo('hello');
+  });
+
+  it('should reject payloads that cannot be posted and release the worker', async () => {
+    const controller: AbortController = new AbortController();
+    const removeEventListener: jasmine.Spy = spyOn(controller.signal, 'removeEventListener').and.callThrough();
+
+    await expectAsync(pool.request('echo', () => undefined, [], controller.signal)).toBeRejectedWithError(
+      'DataCloneError'
+    );
+    expect(removeEventListener).toHaveBeenCalled();
+
+    // the failed request no longer counts against the worker, so it is reused rather than a second one created
+    await expectAsync(pool.request<string>('echo', 'again')).toBeResolvedTo('again');
+    expect(workers.length).toBe(1);
+  });
+
+  it('should reject and notify the worker when a request is aborted', async () => {
+    const controller: AbortController = new AbortController();
+    const request: Promise<unknown> = pool.request('echo', 'hang', [], controller.signal);
+
+    controller.abort();
+
+    await expectAsync(request).toBeRejectedWith(jasmine.any(NgxAdvancedImgAbortError));
+    expect(workers[0].posted.map((posted: INgxAdvancedImgWorkerRequest) => posted.type)).toEqual(['echo', 'abort']);
+  });
+
+  it('should reject pending requests when terminated', async () => {
+    const request: Promise<unknown> = pool.request('echo', 'hang');
+
+    pool.terminate();
+
+    await expectAsync(request).toBeRejectedWithError('The worker pool has been terminated');
+    expect(workers[0].terminated).toBeTrue();
+  });
+});
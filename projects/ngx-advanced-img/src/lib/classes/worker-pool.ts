@@ -0,0 +1,390 @@
+import { NgxAdvancedImgAbortError } from './abort-error';
+
+/**
+ * The message sent from a pool to one of its workers. Cancellations are sent with the reserved `abort` type and
+ * the id of the request that should be stopped.
+ */
+export interface INgxAdvancedImgWorkerRequest<T = unknown> {
+  id: number;
+  type: string;
+  payload?: T;
+}
+
+/**
+ * The message sent from a worker back to its pool. Exactly one of `result` or `error` is provided.
+ */
+export interface INgxAdvancedImgWorkerResponse<T = unknown> {
+  id: number;
+  result?: T;
+  error?: INgxAdvancedImgWorkerError;
+}
+
+/**
+ * A structured clone friendly representation of an error that occurred inside of a worker.
+ */
+export interface INgxAdvancedImgWorkerError {
+  name: string;
+  message: string;
+  stack?: string | undefined;
+}
+
+/**
+ * The value a worker request handler produces, along with any buffers that should be transferred rather than copied.
+ */
+export interface INgxAdvancedImgWorkerResult<T = unknown> {
+  result: T;
+  transfer?: Transferable[];
+}
+
+/**
+ * The minimal surface of a dedicated worker global scope that is required to answer pool requests.
+ */
+export interface INgxAdvancedImgWorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+}
+
+export type NgxAdvancedImgWorkerHandler<T = unknown> = (
+  payload: T,
+  signal: AbortSignal
+) => Promise<INgxAdvancedImgWorkerResult>;
+
+interface IPoolWorker {
+  worker: Worker;
+  pending: number;
+}
+
+interface IPendingRequest {
+  poolWorker: IPoolWorker;
+  resolve(value: unknown): void;
+  reject(reason?: unknown): void;
+  signal?: AbortSignal | undefined;
+  onabort?: (() => void) | undefined;
+}
+
+/**
+ * A fixed size pool of reusable web workers. Requests are routed to the least busy worker and their responses are
+ * matched back to the caller by id, so a single worker may serve many requests over its lifetime.
+ */
+export class NgxAdvancedImgWorkerPool {
+  private static ABORT_TYPE = 'abort';
+  private static HANDLERS: WeakMap<INgxAdvancedImgWorkerScope, Map<string, NgxAdvancedImgWorkerHandler>> = new WeakMap<
+    INgxAdvancedImgWorkerScope,
+    Map<string, NgxAdvancedImgWorkerHandler>
+  >();
+
+  private workers: IPoolWorker[];
+  private requests: Map<number, IPendingRequest>;
+  private nextId: number;
+  private _size: number;
+  private _terminated: boolean;
+
+  /**
+   * The maximum number of workers that this pool will keep alive.
+   */
+  public get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Whether or not this pool has been terminated and can no longer accept requests.
+   */
+  public get terminated(): boolean {
+    return this._terminated;
+  }
+
+  /**
+   * @param factory A function that creates a new worker, e.g. `() => new Worker(new URL('./img.worker', import.meta.url), { type: 'module' })`.
+   * @param size The maximum number of workers that will be created. Defaults to one less than the available cores, capped at 4.
+   */
+  public constructor(
+    private factory: () => Worker,
+    size?: number
+  ) {
+    this._size =
+      typeof size === 'number' && isFinite(size) && size >= 1
+        ? Math.floor(size)
+        : Math.max(1, Math.min(4, ((typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2) - 1));
+    this._terminated = false;
+    this.workers = [];
+    this.requests = new Map<number, IPendingRequest>();
+    this.nextId = 1;
+  }
+
+  /**
+   * Determines whether web workers can be created in the current environment.
+   */
+  public static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Converts an error into a representation that can be posted between threads.
+   *
+   * @param error The error to serialize.
+   */
+  public static serializeError(error: unknown): INgxAdvancedImgWorkerError {
+    if (error instanceof Error) {
+      return {
+        name: error.name,
+        message: error.message,
+        stack: error.stack,
+      };
+    }
+
+    return {
+      name: 'Error',
+      message: typeof error === 'string' ? error : JSON.stringify(error),
+    };
+  }
+
+  /**
+   * Restores an error that was serialized inside of a worker.
+   *
+   * @param error The serialized error.
+   */
+  public static deserializeError(error: INgxAdvancedImgWorkerError): Error {
+    if (error?.name === 'AbortError') {
+      return new NgxAdvancedImgAbortError(error.message);
+    }
+
+    const restored: Error = new Error(error?.message);
+    restored.name = error?.name || 'Error';
+
+    if (error?.stack) {
+      restored.stack = error.stack;
+    }
+
+    return restored;
+  }
+
+  /**
+   * Answers pool requests of the given type from within a worker. Each request receives its own AbortSignal that
+   * fires when the caller cancels the request on the main thread. A single worker may listen for several types.
+   *
+   * @param type The type of request to answer.
+   * @param handler The function that performs the work for a request.
+   * @param scope The worker global scope to listen on, `self` by default.
+   */
+  public static listen<T>(
+    type: string,
+    handler: NgxAdvancedImgWorkerHandler<T>,
+    scope: INgxAdvancedImgWorkerScope = self as unknown as INgxAdvancedImgWorkerScope
+  ): void {
+    let handlers: Map<string, NgxAdvancedImgWorkerHandler> | undefined = NgxAdvancedImgWorkerPool.HANDLERS.get(scope);
+
+    if (!handlers) {
+      handlers = new Map<string, NgxAdvancedImgWorkerHandler>();
+      NgxAdvancedImgWorkerPool.HANDLERS.set(scope, handlers);
+      NgxAdvancedImgWorkerPool.attach(scope, handlers);
+    }
+
+    handlers.set(type, handler as NgxAdvancedImgWorkerHandler);
+  }
+
+  /**
+   * Routes the requests a worker receives to the registered handlers and posts their results back.
+   *
+   * @param scope The worker global scope to listen on.
+   * @param handlers The handlers registered for the scope, by request type.
+   */
+  private static attach(scope: INgxAdvancedImgWorkerScope, handlers: Map<string, NgxAdvancedImgWorkerHandler>): void {
+    const controllers: Map<number, AbortController> = new Map<number, AbortController>();
+
+    scope.addEventListener('message', async (event: MessageEvent) => {
+      const request: INgxAdvancedImgWorkerRequest = event.data;
+
+      if (!request || typeof request.id !== 'number') {
+        return;
+      }
+
+      if (request.type === NgxAdvancedImgWorkerPool.ABORT_TYPE) {
+        controllers.get(request.id)?.abort();
+        return;
+      }
+
+      const controller: AbortController = new AbortController();
+      controllers.set(request.id, controller);
+
+      try {
+        const handler: NgxAdvancedImgWorkerHandler | undefined = handlers.get(request.type);
+
+        if (!handler) {
+          throw new Error(`Unsupported worker request type: ${request.type}`);
+        }
+
+        const output: INgxAdvancedImgWorkerResult = await handler(request.payload, controller.signal);
+
+        scope.postMessage(
+          { id: request.id, result: output.result } as INgxAdvancedImgWorkerResponse,
+          output.transfer || []
+        );
+      } catch (error) {
+        scope.postMessage({
+          id: request.id,
+          error: NgxAdvancedImgWorkerPool.serializeError(error),
+        } as INgxAdvancedImgWorkerResponse);
+      } finally {
+        controllers.delete(request.id);
+      }
+    });
+  }
+
+  /**
+   * Sends a request to the least busy worker in the pool.
+   *
+   * @param type The type of work to perform.
+   * @param payload The data that the worker requires.
+   * @param transfer Any buffers in the payload that should be transferred rather than copied.
+   * @param signal An optional signal that cancels the request in the worker.
+   */
+  public request<T>(type: string, payload: unknown, transfer: Transferable[] = [], signal?: AbortSignal): Promise<T> {
+    if (this._terminated) {
+      return Promise.reject(new Error('The worker pool has been terminated'));
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new NgxAdvancedImgAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const id: number = this.nextId++;
+      let poolWorker: IPoolWorker;
+
+      try {
+        poolWorker = this.acquire();
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const pending: IPendingRequest = { poolWorker, resolve, reject, signal };
+
+      if (signal) {
+        pending.onabort = () => {
+          poolWorker.worker.postMessage({
+            id,
+            type: NgxAdvancedImgWorkerPool.ABORT_TYPE,
+          } as INgxAdvancedImgWorkerRequest);
+          this.settle(id, undefined, new NgxAdvancedImgAbortError());
+        };
+
+        signal.addEventListener('abort', pending.onabort, { once: true });
+      }
+
+      this.requests.set(id, pending);
+      poolWorker.pending++;
+
+      try {
+        poolWorker.worker.postMessage({ id, type, payload } as INgxAdvancedImgWorkerRequest, transfer);
+      } catch (error) {
+        // payloads that cannot be cloned never reach the worker, so release the worker and the abort listener
+        this.settle(id, undefined, error as Error);
+      }
+    });
+  }
+
+  /**
+   * Terminates all workers and rejects any requests that are still pending.
+   */
+  public terminate(): void {
+    this._terminated = true;
+
+    for (const id of Array.from(this.requests.keys())) {
+      this.settle(id, undefined, new Error('The worker pool has been terminated'));
+    }
+
+    for (const poolWorker of this.workers) {
+      poolWorker.worker.terminate();
+    }
+
+    this.workers = [];
+  }
+
+  /**
+   * Returns the least busy worker, creating a new one if the pool has not yet reached its size.
+   */
+  private acquire(): IPoolWorker {
+    const idle: IPoolWorker | undefined = this.workers.find((poolWorker: IPoolWorker) => poolWorker.pending === 0);
+
+    if (idle) {
+      return idle;
+    }
+
+    if (this.workers.length < this._size) {
+      const poolWorker: IPoolWorker = { worker: this.factory(), pending: 0 };
+
+      poolWorker.worker.onmessage = (event: MessageEvent) => {
+        const response: INgxAdvancedImgWorkerResponse = event.data;
+
+        if (!response || typeof response.id !== 'number') {
+          return;
+        }
+
+        this.settle(
+          response.id,
+          response.result,
+          response.error ? NgxAdvancedImgWorkerPool.deserializeError(response.error) : undefined
+        );
+      };
+
+      poolWorker.worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault?.();
+        this.discard(poolWorker, new Error(`Worker error: ${event.message}`));
+      };
+
+      this.workers.push(poolWorker);
+
+      return poolWorker;
+    }
+
+    return this.workers.reduce((least: IPoolWorker, poolWorker: IPoolWorker) =>
+      poolWorker.pending < least.pending ? poolWorker : least
+    );
+  }
+
+  /**
+   * Removes a broken worker from the pool so that a fresh one may take its place, failing its pending requests.
+   *
+   * @param poolWorker The worker to discard.
+   * @param error The error to reject pending requests with.
+   */
+  private discard(poolWorker: IPoolWorker, error: Error): void {
+    this.requests.forEach((pending: IPendingRequest, id: number) => {
+      if (pending.poolWorker === poolWorker) {
+        this.settle(id, undefined, error);
+      }
+    });
+
+    poolWorker.worker.terminate();
+    this.workers = this.workers.filter((entry: IPoolWorker) => entry !== poolWorker);
+  }
+
+  /**
+   * Completes a pending request.
+   *
+   * @param id The id of the request.
+   * @param result The result to resolve with.
+   * @param error The error to reject with, if any.
+   */
+  private settle(id: number, result: unknown, error?: Error): void {
+    const pending: IPendingRequest | undefined = this.requests.get(id);
+
+    if (!pending) {
+      return;
+    }
+
+    this.requests.delete(id);
+    pending.poolWorker.pending = Math.max(0, pending.poolWorker.pending - 1);
+
+    if (pending.onabort) {
+      pending.signal?.removeEventListener('abort', pending.onabort);
+    }
+
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+}
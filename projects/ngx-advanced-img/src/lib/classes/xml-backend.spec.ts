@@ -0,0 +1,65 @@
+import { INgxAdvancedImgXmlBackend, NgxAdvancedImgXmlBackend } from './xml-backend';
+
+// the browser DOM can only be tested where it is available
+const backends: INgxAdvancedImgXmlBackend[] = NgxAdvancedImgXmlBackend.isDomAvailable()
+  ? [NgxAdvancedImgXmlBackend.DOM, NgxAdvancedImgXmlBackend.XMLDOM]
+  : [NgxAdvancedImgXmlBackend.XMLDOM];
+
+describe('NgxAdvancedImgXmlBackend', () => {
+  afterEach(() => {
+    NgxAdvancedImgXmlBackend.setDefault(undefined);
+  });
+
+  for (const backend of backends) {
+    describe(backend.name, () => {
+      it('should parse and serialize XML without changing it', () => {
+        const xml = '<svg xmlns="http://www.w3.org/2000/svg" width="1"><rect x="0"/><text>a &amp; b</text></svg>';
+        const parsed: Document = backend.parse(xml);
+
+        expect(parsed.documentElement.localName).toBe('svg');
+        expect(parsed.documentElement.namespaceURI).toBe('http://www.w3.org/2000/svg');
+        expect(parsed.getElementsByTagName('text')[0].textContent).toBe('a & b');
+        expect(backend.serialize(parsed.documentElement)).toBe(xml);
+      });
+
+      it('should throw on malformed XML', () => {
+        expect(() => backend.parse('<svg><rect></svg>')).toThrow();
+      });
+
+      it('should create documents with a namespaced root element', () => {
+        const created: XMLDocument = backend.createDocument('http://www.w3.org/2000/svg', 'svg');
+
+        created.documentElement.appendChild(created.createElementNS('http://www.w3.org/2000/svg', 'rect'));
+
+        expect(created.documentElement.namespaceURI).toBe('http://www.w3.org/2000/svg');
+        expect(backend.serialize(created.documentElement)).toBe(
+          '<svg xmlns="http://www.w3.org/2000/svg"><rect/></svg>'
+        );
+      });
+    });
+  }
+
+  describe('getDefault', () => {
+    it('should use the browser DOM where it is available and @xmldom/xmldom where it is not', () => {
+      const isDomAvailable = spyOn(NgxAdvancedImgXmlBackend, 'isDomAvailable').and.returnValue(true);
+
+      expect(NgxAdvancedImgXmlBackend.getDefault()).toBe(NgxAdvancedImgXmlBackend.DOM);
+
+      isDomAvailable.and.returnValue(false);
+
+      expect(NgxAdvancedImgXmlBackend.getDefault()).toBe(NgxAdvancedImgXmlBackend.XMLDOM);
+    });
+
+    it('should use the backend that was set until it is unset', () => {
+      spyOn(NgxAdvancedImgXmlBackend, 'isDomAvailable').and.returnValue(true);
+
+      NgxAdvancedImgXmlBackend.setDefault(NgxAdvancedImgXmlBackend.XMLDOM);
+
+      expect(NgxAdvancedImgXmlBackend.getDefault()).toBe(NgxAdvancedImgXmlBackend.XMLDOM);
+
+      NgxAdvancedImgXmlBackend.setDefault(undefined);
+
+      expect(NgxAdvancedImgXmlBackend.getDefault()).toBe(NgxAdvancedImgXmlBackend.DOM);
+    });
+  });
+});
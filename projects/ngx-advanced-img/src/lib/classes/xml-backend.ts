@@ -0,0 +1,88 @@
+import {
+  DocumentType as XmldomDocumentType,
+  DOMImplementation as XmldomImplementation,
+  Node as XmldomNode,
+  DOMParser as XmldomParser,
+  XMLSerializer as XmldomSerializer,
+} from '@xmldom/xmldom';
+
+/**
+ * This interface describes the XML implementation that NgxAdvancedImgJxon parses, builds and serializes with.
+ */
+export interface INgxAdvancedImgXmlBackend {
+  name: string;
+  parse(xml: string): Document;
+  serialize(node: Node): string;
+  createDocument(namespaceURI: string | null, qualifiedName: string, doctype?: DocumentType | null): XMLDocument;
+}
+
+/**
+ * Provides the XML backends of NgxAdvancedImgJxon: the browser DOM where it is available, and @xmldom/xmldom where
+ * it isn't, such as within Web Workers and server side rendering. Nodes of one backend cannot be used with another.
+ */
+export class NgxAdvancedImgXmlBackend {
+  public static DOM: INgxAdvancedImgXmlBackend = {
+    name: 'dom',
+    parse: (xml: string): Document => {
+      const parsed: Document = new DOMParser().parseFromString(xml, 'application/xml');
+
+      // browsers report malformed xml within the document rather than throwing like @xmldom/xmldom does
+      if (parsed.getElementsByTagName('parsererror').length) {
+        throw new Error('Unable to parse XML');
+      }
+
+      return parsed;
+    },
+    serialize: (node: Node): string => new XMLSerializer().serializeToString(node),
+    createDocument: (namespaceURI: string | null, qualifiedName: string, doctype?: DocumentType | null): XMLDocument =>
+      document.implementation.createDocument(namespaceURI, qualifiedName, doctype),
+  };
+
+  public static XMLDOM: INgxAdvancedImgXmlBackend = {
+    name: 'xmldom',
+    parse: (xml: string): Document => new XmldomParser().parseFromString(xml, 'application/xml') as unknown as Document,
+    serialize: (node: Node): string => new XmldomSerializer().serializeToString(node as unknown as XmldomNode),
+    createDocument: (namespaceURI: string | null, qualifiedName: string, doctype?: DocumentType | null): XMLDocument =>
+      new XmldomImplementation().createDocument(
+        namespaceURI,
+        qualifiedName,
+        doctype as unknown as XmldomDocumentType | null | undefined
+      ) as unknown as XMLDocument,
+  };
+
+  private static defaultBackend: INgxAdvancedImgXmlBackend | undefined;
+
+  /**
+   * Gets the backend used by NgxAdvancedImgJxon instances that are not given one: the one set with setDefault, or
+   * otherwise the browser DOM if it is available and @xmldom/xmldom if it isn't.
+   */
+  public static getDefault(): INgxAdvancedImgXmlBackend {
+    if (NgxAdvancedImgXmlBackend.defaultBackend) {
+      return NgxAdvancedImgXmlBackend.defaultBackend;
+    }
+
+    return NgxAdvancedImgXmlBackend.isDomAvailable() ? NgxAdvancedImgXmlBackend.DOM : NgxAdvancedImgXmlBackend.XMLDOM;
+  }
+
+  /**
+   * Sets the backend used by NgxAdvancedImgJxon instances that are not given one.
+   *
+   * @param backend The backend to use, or undefined to pick one depending on the availability of the browser DOM.
+   */
+  public static setDefault(backend: INgxAdvancedImgXmlBackend | undefined): void {
+    NgxAdvancedImgXmlBackend.defaultBackend = backend;
+  }
+
+  /**
+   * Determines whether the browser DOM can parse, build and serialize XML, which is not the case within Web Workers
+   * and server side rendering.
+   */
+  public static isDomAvailable(): boolean {
+    return (
+      typeof globalThis.DOMParser !== 'undefined' &&
+      typeof globalThis.XMLSerializer !== 'undefined' &&
+      typeof document !== 'undefined' &&
+      !!document.implementation
+    );
+  }
+}
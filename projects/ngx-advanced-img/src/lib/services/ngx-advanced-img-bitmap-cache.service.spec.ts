@@ -0,0 +1,192 @@
+import { NgxAdvancedImgBitmap } from '../classes/bitmap';
+import { NgxAdvancedImgBitmapCacheService } from './ngx-advanced-img-bitmap-cache.service';
+
+// the pixels and file size that each source loads with, 'svg' sources report no file size like svg images do
+const SIZES: Record<string, { pixels: number; bytes: number }> = {
+  a: { pixels: 100, bytes: 1000 },
+  b: { pixels: 200, bytes: 2000 },
+  c: { pixels: 300, bytes: 3000 },
+  svg: { pixels: 400, bytes: 0 },
+};
+
+describe('NgxAdvancedImgBitmapCacheService', () => {
+  let load: jasmine.Spy;
+  let destroy: jasmine.Spy;
+
+  beforeEach(() => {
+    load = spyOn(NgxAdvancedImgBitmap.prototype, 'load').and.callFake(function (this: NgxAdvancedImgBitmap) {
+      this.loaded = true;
+      this.size = SIZES[this.src as string].pixels;
+
+      return Promise.resolve(this);
+    });
+    destroy = spyOn(NgxAdvancedImgBitmap.prototype, 'destroy').and.callThrough();
+    spyOnProperty(NgxAdvancedImgBitmap.prototype, 'fileSize').and.callFake(function (this: NgxAdvancedImgBitmap) {
+      return SIZES[this.src as string].bytes;
+    });
+    spyOnProperty(NgxAdvancedImgBitmap.prototype, 'initialFileSize').and.returnValue(500);
+  });
+
+  describe('get', () => {
+    it('should share a single load between concurrent and later requests for the same bitmap', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService(null);
+      const [first, second] = await Promise.all([cache.get('a', '', 0), cache.get('a', '', 0)]);
+      const third: NgxAdvancedImgBitmap = await cache.get('a', '', 0);
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+      expect(third).toBe(first);
+      expect(cache.stats).toEqual(
+        jasmine.objectContaining({ hits: 2, misses: 1, entries: 1, pixels: 100, bytes: 1000 })
+      );
+    });
+
+    it('should load bitmaps of another resolution or revision separately, normalizing missing ones', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService(null);
+
+      await cache.get('a', '', 0);
+      await cache.get('a', 'low', 0);
+      await cache.get('a', '', 1);
+      await cache.get('a', undefined as unknown as string, undefined as unknown as number);
+
+      expect(load).toHaveBeenCalledTimes(3);
+      expect(cache.stats.entries).toBe(3);
+    });
+
+    it('should not cache bitmaps that failed to load', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService(null);
+
+      load.and.returnValue(Promise.reject(new Error('Unable to load')));
+
+      await expectAsync(cache.get('a', '', 0)).toBeRejectedWithError('Unable to load');
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(cache.peek('a', '', 0)).toBeUndefined();
+      expect(cache.stats.entries).toBe(0);
+    });
+  });
+
+  describe('budget', () => {
+    it('should destroy the least recently used bitmaps once the pixel budget is exceeded', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService({ maxPixels: 500 });
+      const a: NgxAdvancedImgBitmap = await cache.get('a', '', 0);
+      const b: NgxAdvancedImgBitmap = await cache.get('b', '', 0);
+
+      // using a again makes b the least recently used
+      await cache.get('a', '', 0);
+      await cache.get('c', '', 0);
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(destroy.calls.mostRecent().object).toBe(b);
+      expect(cache.peek('a', '', 0)).toBe(a);
+      expect(cache.peek('b', '', 0)).toBeUndefined();
+      expect(cache.stats).toEqual(jasmine.objectContaining({ evictions: 1, entries: 2, pixels: 400 }));
+    });
+
+    it('should not change the recency of peeked bitmaps', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService({ maxPixels: 500 });
+      const a: NgxAdvancedImgBitmap = await cache.get('a', '', 0);
+
+      await cache.get('b', '', 0);
+      cache.peek('a', '', 0);
+      await cache.get('c', '', 0);
+
+      expect(destroy.calls.mostRecent().object).toBe(a);
+    });
+
+    it('should destroy bitmaps to stay within the byte budget, counting svg images by their source file', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService({ maxBytes: 3400 });
+      const a: NgxAdvancedImgBitmap = await cache.get('a', '', 0);
+
+      await cache.get('b', '', 0);
+      await cache.get('svg', '', 0);
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(destroy.calls.mostRecent().object).toBe(a);
+      expect(cache.stats).toEqual(jasmine.objectContaining({ entries: 2, bytes: 2500 }));
+    });
+
+    it('should evict right away when the budget is lowered', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService(null);
+
+      await cache.get('a', '', 0);
+      await cache.get('b', '', 0);
+      cache.configure({ maxPixels: 250 });
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(cache.stats).toEqual(jasmine.objectContaining({ evictions: 1, entries: 1, pixels: 200 }));
+    });
+
+    it('should return a bitmap that exceeds the budget on its own without caching it', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService({ maxPixels: 150 });
+      const b: NgxAdvancedImgBitmap = await cache.get('b', '', 0);
+
+      expect(b.loaded).toBeTrue();
+      expect(destroy).not.toHaveBeenCalled();
+      expect(cache.stats.entries).toBe(0);
+    });
+  });
+
+  describe('ttl', () => {
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(2024, 0, 1));
+    });
+
+    afterEach(() => {
+      jasmine.clock().uninstall();
+    });
+
+    it('should destroy bitmaps once their ttl runs out, even if they are never requested again', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService({ ttl: 10 });
+
+      await cache.get('a', '', 0);
+      await cache.get('b', '', 0, { ttl: 20 });
+      jasmine.clock().tick(10000);
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(cache.stats).toEqual(jasmine.objectContaining({ expirations: 1, entries: 1, pixels: 200, bytes: 2000 }));
+
+      jasmine.clock().tick(10000);
+
+      expect(destroy).toHaveBeenCalledTimes(2);
+      expect(cache.stats).toEqual(jasmine.objectContaining({ expirations: 2, entries: 0, pixels: 0, bytes: 0 }));
+    });
+
+    it('should stop the expiration of bitmaps that leave the cache before their ttl runs out', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService({ ttl: 10 });
+
+      await cache.get('a', '', 0);
+
+      expect(cache.delete('a', '', 0)).toBeTrue();
+
+      jasmine.clock().tick(10000);
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(cache.stats.expirations).toBe(0);
+    });
+  });
+
+  describe('destroyed bitmaps', () => {
+    it('should forget bitmaps that are destroyed directly', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService(null);
+      const a: NgxAdvancedImgBitmap = await cache.get('a', '', 0);
+
+      a.destroy();
+
+      expect(cache.peek('a', '', 0)).toBeUndefined();
+      expect(cache.stats).toEqual(jasmine.objectContaining({ entries: 0, pixels: 0, bytes: 0 }));
+    });
+
+    it('should destroy every bitmap when cleared', async () => {
+      const cache: NgxAdvancedImgBitmapCacheService = new NgxAdvancedImgBitmapCacheService(null);
+
+      await cache.get('a', '', 0);
+      await cache.get('b', '', 0);
+      cache.clear();
+
+      expect(destroy).toHaveBeenCalledTimes(2);
+      expect(cache.stats.entries).toBe(0);
+    });
+  });
+});
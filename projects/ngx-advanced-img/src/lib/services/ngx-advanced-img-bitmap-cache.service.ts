@@ -0,0 +1,366 @@
+import { Inject, Injectable, InjectionToken, OnDestroy, Optional } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { NgxAdvancedImgBitmap, NgxAdvancedImgResolution } from '../classes/bitmap';
+
+/**
+ * This interface configures the budget of the bitmap cache. Budgets that are missing or 0 are unlimited.
+ */
+export interface INgxAdvancedImgBitmapCacheOptions {
+  maxPixels?: number | undefined; // the total number of pixels the cached bitmaps may hold
+  maxBytes?: number | undefined; // the total size in bytes of the files the cached bitmaps may hold
+  ttl?: number | undefined; // the time to live in seconds of bitmaps that are not given one, 0 by default to live forever
+}
+
+/**
+ * This interface configures how a bitmap is loaded on a cache miss, as with NgxAdvancedImgBitmap.load.
+ */
+export interface INgxAdvancedImgBitmapCacheLoadOptions {
+  anonymous?: boolean | undefined; // true by default
+  allowXMLLoading?: boolean | undefined; // true by default
+  fullQualityLoad?: boolean | undefined; // false by default
+  ttl?: number | undefined; // the time to live in seconds, overriding the ttl of the cache
+}
+
+/**
+ * This interface describes the usage of the bitmap cache since it was created or last reset.
+ */
+export interface INgxAdvancedImgBitmapCacheStats {
+  hits: number; // requests served by a cached bitmap or by a load already in progress
+  misses: number; // requests that started a load
+  evictions: number; // bitmaps destroyed to stay within the budget
+  expirations: number; // bitmaps that were destroyed by their ttl
+  entries: number; // the number of cached bitmaps
+  pixels: number; // the total number of pixels of the cached bitmaps
+  bytes: number; // the total file size in bytes of the cached bitmaps
+}
+
+interface INgxAdvancedImgBitmapCacheEntry {
+  bitmap: NgxAdvancedImgBitmap;
+  pixels: number;
+  bytes: number;
+  expiresAt: number; // the time at which the ttl of the bitmap runs out, Infinity if it lives forever
+  expirationClock: ReturnType<typeof setTimeout> | undefined; // destroys the bitmap once its ttl runs out
+  destroyed: Subscription;
+}
+
+export const NGX_ADVANCED_IMG_BITMAP_CACHE_OPTIONS: InjectionToken<INgxAdvancedImgBitmapCacheOptions> =
+  new InjectionToken<INgxAdvancedImgBitmapCacheOptions>('NGX_ADVANCED_IMG_BITMAP_CACHE_OPTIONS');
+
+/**
+ * Caches loaded bitmaps by their source, resolution and revision so that an image is only loaded once, however
+ * many times it is requested. The least recently used bitmaps are destroyed once the cache exceeds its pixel or
+ * byte budget, and bitmaps are destroyed once their ttl runs out.
+ *
+ * Cached bitmaps are shared by everyone that requests them, so they should be released through the cache rather than
+ * destroyed directly, though the cache forgets any bitmap that is destroyed.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NgxAdvancedImgBitmapCacheService implements OnDestroy {
+  private options: INgxAdvancedImgBitmapCacheOptions;
+  private entries: Map<string, INgxAdvancedImgBitmapCacheEntry>; // ordered from the least to the most recently used
+  private pending: Map<string, Promise<NgxAdvancedImgBitmap>>;
+  private blobIds: WeakMap<Blob, number>; // blobs have no identity to key by, so each is numbered when first seen
+  private nextBlobId: number;
+  private pixels: number;
+  private bytes: number;
+  private hits: number;
+  private misses: number;
+  private evictions: number;
+  private expirations: number;
+
+  /**
+   * The usage of the cache since it was created or last reset.
+   */
+  public get stats(): INgxAdvancedImgBitmapCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      entries: this.entries.size,
+      pixels: this.pixels,
+      bytes: this.bytes,
+    };
+  }
+
+  /**
+   * Service constructor.
+   *
+   * @param options The budget of the cache, which can be provided with NGX_ADVANCED_IMG_BITMAP_CACHE_OPTIONS.
+   */
+  public constructor(
+    @Optional() @Inject(NGX_ADVANCED_IMG_BITMAP_CACHE_OPTIONS) options: INgxAdvancedImgBitmapCacheOptions | null
+  ) {
+    this.options = { ...options };
+    this.entries = new Map<string, INgxAdvancedImgBitmapCacheEntry>();
+    this.pending = new Map<string, Promise<NgxAdvancedImgBitmap>>();
+    this.blobIds = new WeakMap<Blob, number>();
+    this.nextBlobId = 0;
+    this.pixels = this.bytes = 0;
+    this.hits = this.misses = this.evictions = this.expirations = 0;
+  }
+
+  public ngOnDestroy(): void {
+    this.clear();
+  }
+
+  /**
+   * Changes the budget of the cache, evicting bitmaps right away if the cache exceeds the new budget.
+   *
+   * @param options The options to change, the others are kept.
+   */
+  public configure(options: INgxAdvancedImgBitmapCacheOptions): void {
+    this.options = { ...this.options, ...options };
+    this.enforceBudget();
+  }
+
+  /**
+   * Gets a loaded bitmap, loading it if it is not cached yet. Concurrent requests for the same bitmap share a single
+   * load. A bitmap that exceeds the budget on its own is returned without being cached, in which case the caller is
+   * responsible for destroying it.
+   *
+   * @param src The source of the bitmap.
+   * @param resolution The resolution of the bitmap.
+   * @param revision The revision of the bitmap.
+   * @param options How to load the bitmap on a cache miss.
+   */
+  public get(
+    src: string | Blob,
+    resolution: NgxAdvancedImgResolution,
+    revision: number,
+    options?: INgxAdvancedImgBitmapCacheLoadOptions
+  ): Promise<NgxAdvancedImgBitmap> {
+    const key: string = this.getKey(src, resolution, revision);
+    const cached: NgxAdvancedImgBitmap | undefined = this.peekKey(key);
+
+    if (cached) {
+      this.hits++;
+
+      // move the entry to the most recently used end
+      const entry: INgxAdvancedImgBitmapCacheEntry = this.entries.get(key) as INgxAdvancedImgBitmapCacheEntry;
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+
+      return Promise.resolve(cached);
+    }
+
+    const pending: Promise<NgxAdvancedImgBitmap> | undefined = this.pending.get(key);
+
+    if (pending) {
+      this.hits++;
+
+      return pending;
+    }
+
+    this.misses++;
+
+    const bitmap: NgxAdvancedImgBitmap = new NgxAdvancedImgBitmap(
+      src,
+      resolution,
+      revision,
+      options?.ttl ?? this.options.ttl
+    );
+    const load: Promise<NgxAdvancedImgBitmap> = bitmap
+      .load(options?.anonymous ?? true, options?.allowXMLLoading ?? true, options?.fullQualityLoad ?? false)
+      .then(
+        (loaded: NgxAdvancedImgBitmap) => {
+          // only cache the bitmap if the cache was not cleared while it loaded
+          if (this.pending.get(key) === load) {
+            this.pending.delete(key);
+            this.add(key, loaded);
+          }
+
+          return loaded;
+        },
+        (error: unknown) => {
+          if (this.pending.get(key) === load) {
+            this.pending.delete(key);
+          }
+
+          bitmap.destroy();
+
+          return Promise.reject(error);
+        }
+      );
+
+    this.pending.set(key, load);
+
+    return load;
+  }
+
+  /**
+   * Gets a cached bitmap without loading it or changing its recency.
+   *
+   * @param src The source of the bitmap.
+   * @param resolution The resolution of the bitmap.
+   * @param revision The revision of the bitmap.
+   */
+  public peek(
+    src: string | Blob,
+    resolution: NgxAdvancedImgResolution,
+    revision: number
+  ): NgxAdvancedImgBitmap | undefined {
+    return this.peekKey(this.getKey(src, resolution, revision));
+  }
+
+  /**
+   * Removes a bitmap from the cache and destroys it.
+   *
+   * @param src The source of the bitmap.
+   * @param resolution The resolution of the bitmap.
+   * @param revision The revision of the bitmap.
+   * @returns Whether the bitmap was cached.
+   */
+  public delete(src: string | Blob, resolution: NgxAdvancedImgResolution, revision: number): boolean {
+    const key: string = this.getKey(src, resolution, revision);
+    const entry: INgxAdvancedImgBitmapCacheEntry | undefined = this.entries.get(key);
+
+    if (!entry) {
+      return false;
+    }
+
+    this.remove(key, entry);
+    entry.bitmap.destroy();
+
+    return true;
+  }
+
+  /**
+   * Destroys every cached bitmap. Loads in progress are completed, but their bitmaps are not cached.
+   */
+  public clear(): void {
+    const entries: [string, INgxAdvancedImgBitmapCacheEntry][] = Array.from(this.entries.entries());
+
+    this.pending.clear();
+
+    for (const [key, entry] of entries) {
+      this.remove(key, entry);
+      entry.bitmap.destroy();
+    }
+  }
+
+  /**
+   * Resets the hit, miss, eviction and expiration counts.
+   */
+  public resetStats(): void {
+    this.hits = this.misses = this.evictions = this.expirations = 0;
+  }
+
+  private getKey(src: string | Blob, resolution: NgxAdvancedImgResolution, revision: number): string {
+    let source: string;
+
+    if (typeof src === 'string') {
+      source = `url:${src}`;
+    } else {
+      let id: number | undefined = this.blobIds.get(src);
+
+      if (id === undefined) {
+        id = this.nextBlobId++;
+        this.blobIds.set(src, id);
+      }
+
+      source = `blob:${id}`;
+    }
+
+    // normalize the identity the way the bitmap itself does
+    return JSON.stringify([source, resolution ?? '', revision || 0]);
+  }
+
+  private peekKey(key: string): NgxAdvancedImgBitmap | undefined {
+    const entry: INgxAdvancedImgBitmapCacheEntry | undefined = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    // the expiration clock of the entry may not have fired yet
+    if (entry.expiresAt <= Date.now()) {
+      this.expirations++;
+      this.remove(key, entry);
+      entry.bitmap.destroy();
+
+      return undefined;
+    }
+
+    return entry.bitmap;
+  }
+
+  private add(key: string, bitmap: NgxAdvancedImgBitmap): void {
+    const pixels: number = bitmap.size;
+    // svg images are not redrawn while loading, so they only have the size of their source file
+    const bytes: number = bitmap.fileSize || bitmap.initialFileSize;
+
+    if (this.exceeds(pixels, bytes)) {
+      return;
+    }
+
+    const entry: INgxAdvancedImgBitmapCacheEntry = {
+      bitmap,
+      pixels,
+      bytes,
+      expiresAt: bitmap.ttl > 0 ? Date.now() + bitmap.ttl * 1000 : Infinity,
+      // a loaded bitmap stops its own expiration clock, so the cache keeps one for it
+      expirationClock:
+        bitmap.ttl > 0
+          ? setTimeout(() => {
+              if (this.entries.get(key) === entry) {
+                this.expirations++;
+                this.remove(key, entry);
+                entry.bitmap.destroy();
+              }
+            }, bitmap.ttl * 1000)
+          : undefined,
+      destroyed: bitmap.destroyed.subscribe(() => {
+        // forget bitmaps destroyed by their ttl or by anyone else
+        if (this.entries.get(key) === entry) {
+          if (entry.expiresAt <= Date.now()) {
+            this.expirations++;
+          }
+
+          this.remove(key, entry);
+        }
+      }),
+    };
+
+    this.entries.set(key, entry);
+    this.pixels += pixels;
+    this.bytes += bytes;
+    this.enforceBudget();
+  }
+
+  private remove(key: string, entry: INgxAdvancedImgBitmapCacheEntry): void {
+    if (entry.expirationClock) {
+      clearTimeout(entry.expirationClock);
+    }
+
+    entry.destroyed.unsubscribe();
+    this.entries.delete(key);
+    this.pixels -= entry.pixels;
+    this.bytes -= entry.bytes;
+  }
+
+  /**
+   * Destroys the least recently used bitmaps until the cache is within its budget.
+   */
+  private enforceBudget(): void {
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (!this.exceeds(this.pixels, this.bytes)) {
+        break;
+      }
+
+      this.evictions++;
+      this.remove(key, entry);
+      entry.bitmap.destroy();
+    }
+  }
+
+  private exceeds(pixels: number, bytes: number): boolean {
+    const maxPixels: number = this.options.maxPixels || 0;
+    const maxBytes: number = this.options.maxBytes || 0;
+
+    return (maxPixels > 0 && pixels > maxPixels) || (maxBytes > 0 && bytes > maxBytes);
+  }
+}
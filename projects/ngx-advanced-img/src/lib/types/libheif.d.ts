@@ -6,6 +6,7 @@ declare module 'libheif-js/wasm-bundle' {
 			width: number;
 			height: number;
 		} | null;
+		handle: unknown;
 		get_width: () => number;
 		get_height: () => number;
 		is_primary: () => boolean;
@@ -16,7 +17,36 @@ declare module 'libheif-js/wasm-bundle' {
 	}
 
 	type DecodeResultType = DecodeResult[];
+	function heif_image_handle_is_primary_image(handle: unknown): number;
 	class HeifDecoder {
 		decode(buffer: ArrayBuffer): DecodeResultType;
 	}
+
+	// the parts of the emscripten module and the libheif C API that the JavaScript bindings do not expose
+	interface HeifEnumValue {
+		value: number;
+	}
+
+	const HEAP32: Int32Array;
+	const HEAPU32: Uint32Array;
+	const HEAPU8: Uint8Array;
+	const heif_colorspace: { heif_colorspace_RGB: HeifEnumValue };
+	const heif_chroma: { heif_chroma_interleaved_RGBA: HeifEnumValue };
+	const heif_channel: { heif_channel_interleaved: HeifEnumValue };
+	function _malloc(size: number): number;
+	function _free(pointer: number): void;
+	function _heif_context_alloc(): number;
+	function _heif_context_free(context: number): void;
+	function _heif_context_read_from_memory_without_copy(error: number, context: number, data: number, size: number, options: number): void;
+	function _heif_context_get_primary_image_handle(error: number, context: number, handle: number): void;
+	function _heif_image_handle_get_number_of_thumbnails(handle: number): number;
+	function _heif_image_handle_get_list_of_thumbnail_IDs(handle: number, ids: number, count: number): number;
+	function _heif_image_handle_get_thumbnail(error: number, handle: number, id: number, thumbnail: number): void;
+	function _heif_image_handle_get_width(handle: number): number;
+	function _heif_image_handle_release(handle: number): void;
+	function _heif_decode_image(error: number, handle: number, image: number, colorspace: number, chroma: number, options: number): void;
+	function _heif_image_get_width(image: number, channel: number): number;
+	function _heif_image_get_height(image: number, channel: number): number;
+	function _heif_image_get_plane_readonly(image: number, channel: number, stride: number): number;
+	function _heif_image_release(image: number): void;
 }
@@ -2,7 +2,26 @@
  * Public API Surface of ngx-advanced-img
  */
 
+export * from './lib/classes/abort-error';
 export * from './lib/classes/bitmap';
+export * from './lib/classes/exif-redactor';
+export * from './lib/classes/exif-writer';
+export * from './lib/classes/filters';
+export * from './lib/classes/heic-conversion-pool';
 export * from './lib/classes/heic-converter';
+export * from './lib/classes/indexed-db-optimization-store';
+export * from './lib/classes/memory-optimization-store';
+export * from './lib/classes/mime-sniffer';
+export * from './lib/classes/optimization-cache';
+export * from './lib/classes/optimization-pool';
+export * from './lib/classes/resampler';
+export * from './lib/classes/svg-minifier';
+export * from './lib/classes/svg-sanitizer';
+export * from './lib/classes/svg-sizer';
+export * from './lib/classes/transform';
+export * from './lib/classes/watermark';
+export * from './lib/classes/worker-pool';
+export * from './lib/classes/xml-backend';
 export * from './lib/directives/ngx-advanced-img-fallback.directive';
 export * from './lib/ngx-advanced-img.module';
+export * from './lib/services/ngx-advanced-img-bitmap-cache.service';
@@ -1,6 +1,6 @@
 import { Component } from '@angular/core';
 
-import { INgxAdvancedImgBitmapOptimization, INgxAdvancedImgBitmapInfo, NgxAdvancedImgBitmap, INgxAdvancedImgHeicConversion } from '../../projects/ngx-advanced-img/src/public-api';
+import { INgxAdvancedImgBitmapOptimization, INgxAdvancedImgBitmapInfo, NgxAdvancedImgBitmap, NgxAdvancedImgHeicConversionPool } from '../../projects/ngx-advanced-img/src/public-api';
 
 @Component({
   selector: 'ngx-advanced-img-lib-app-root',
@@ -15,8 +15,10 @@ export class AppComponent {
   public maxDimension = 16384;
   public strictMode = false;
   public retainMimeType = false;
-  public mode: 'retain-size' | 'retain-quality' | 'prefer-size' | 'prefer-quality' | 'alternating-preference' = 'prefer-size';
-  private worker: Worker | null = null;
+  public mode: 'retain-size' | 'retain-quality' | 'prefer-size' | 'prefer-quality' | 'alternating-preference' | 'target-size' = 'prefer-size';
+  private heicPool: NgxAdvancedImgHeicConversionPool = new NgxAdvancedImgHeicConversionPool(
+    () => new Worker(new URL('./app.worker', import.meta.url), { type: `module` })
+  );
 
   private static getFileNameWithoutExtension(file: File): string {
     const fileName = file.name;
@@ -60,7 +62,8 @@ export class AppComponent {
       | 'retain-quality'
       | 'prefer-size'
       | 'prefer-quality'
-      | 'alternating-preference';
+      | 'alternating-preference'
+      | 'target-size';
   }
 
   public prettyLog(message: (string | number | boolean | Event)[], level?: 'log' | 'warn' | 'error' | undefined): void {
@@ -113,7 +116,7 @@ export class AppComponent {
         let src: Blob = file;
         if (file.type === 'image/heic') {
           try {
-            const result = await this.workerConvert(
+            const result = await this.heicPool.convert(
               file,
               this.retainMimeType ? 'image/jpeg' : defaultMimeType
             );
@@ -166,9 +169,10 @@ export class AppComponent {
 
                 // auto save this for the user
                 this.prettyLog(['[TEST] Saving URL:', data.blob, data.exifData, unOptimizedData.exifData]);
+                this.prettyLog(['Optimization report:', JSON.stringify(data.report)]);
 
                 performance.mark('save_start');
-                bitmap.saveFile(`test_output_${AppComponent.getFileNameWithoutExtension(file)} _q - ${this.quality} _m - ${this.mode} _s - ${this.size} `, data.blob, mimeType);
+                bitmap.saveFile(`test_output_${AppComponent.getFileNameWithoutExtension(file)} _q - ${this.quality} _m - ${this.mode} _s - ${this.size} `, data.blob, data.report.mimeType);
                 performance.mark('save_end');
                 performance.measure('Image Saving', 'save_start', 'save_end');
 
@@ -198,37 +202,4 @@ export class AppComponent {
     });
   }
 
-  private workerConvert(file: File, mimeType: string): Promise<INgxAdvancedImgHeicConversion> {
-		return new Promise((resolve, reject) => {
-			const id = (Math.random() * new Date().getTime()).toString();
-			const message = { id, file, mimeType };
-			console.log('sending message to worker', import.meta.url);
-			const worker = new Worker(new URL('./app.worker', import.meta.url), { type: `module` });
-			worker.postMessage(message);
-			
-      const listener = (message: MessageEvent) => {
-				worker.removeEventListener("message", listener);
-
-				// destroy worker
-        worker.terminate();
-
-				if (message.data instanceof Error) {
-					reject(message.data);
-        } else {
-          resolve(message.data);
-        }
-			};
-			
-      worker.addEventListener("message", listener);
-
-			worker.onerror = (error) => {
-				console.log(`Worker error: ${error}`);
-
-        worker.terminate();
-
-				reject(error);
-			};
-		});
-	}
-
 }